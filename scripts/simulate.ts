@@ -0,0 +1,102 @@
+/**
+ * Difficulty-balancing CLI: plays thousands of headless games over a seed
+ * range and prints a JSON or CSV report.
+ *
+ * Usage: npm run simulate -- --from 1 --to 1000 --strategy safe-size \
+ *          --target 0.9 --jitter 40 --format csv --out report.csv
+ */
+import { writeFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import type { GameMode } from "../src/types";
+import {
+  runBatch,
+  HEADLESS_TIMESTEP,
+  HEADLESS_MAX_TIME,
+} from "../src/headless/runner";
+import { buildReport, formatReportCsv } from "../src/headless/report";
+import {
+  createFixedDelayStrategy,
+  createSafeSizeStrategy,
+  type TapStrategy,
+} from "../src/headless/strategies";
+
+const MODES: GameMode[] = ["CLASSIC", "ZEN", "TIME_ATTACK", "RHYTHM"];
+
+const { values } = parseArgs({
+  options: {
+    from: { type: "string", default: "1" },
+    to: { type: "string", default: "1000" },
+    mode: { type: "string", default: "CLASSIC" },
+    strategy: { type: "string", default: "safe-size" },
+    target: { type: "string", default: "0.9" },
+    delay: { type: "string", default: "1500" },
+    jitter: { type: "string", default: "0" },
+    dt: { type: "string", default: String(HEADLESS_TIMESTEP) },
+    "max-time": { type: "string", default: String(HEADLESS_MAX_TIME) },
+    format: { type: "string", default: "json" },
+    out: { type: "string" },
+  },
+});
+
+const fail = (message: string): never => {
+  console.error(message);
+  process.exit(1);
+};
+
+const mode = values.mode as GameMode;
+if (!MODES.includes(mode)) {
+  fail(`Unknown mode "${values.mode}". Expected one of ${MODES.join(", ")}.`);
+}
+
+const jitter = Number(values.jitter);
+let strategy: TapStrategy;
+switch (values.strategy) {
+  case "safe-size":
+    strategy = createSafeSizeStrategy(Number(values.target), jitter);
+    break;
+  case "fixed-delay":
+    strategy = createFixedDelayStrategy(Number(values.delay), jitter);
+    break;
+  default:
+    strategy = fail(
+      `Unknown strategy "${values.strategy}". Expected safe-size or fixed-delay.`,
+    );
+}
+
+const seedFrom = Number(values.from);
+const seedTo = Number(values.to);
+if (
+  !Number.isInteger(seedFrom) ||
+  !Number.isInteger(seedTo) ||
+  seedTo < seedFrom
+) {
+  fail(`Invalid seed range ${values.from}..${values.to}.`);
+}
+
+const startedAt = performance.now();
+const results = runBatch({
+  seedFrom,
+  seedTo,
+  mode,
+  strategy,
+  dt: Number(values.dt),
+  maxTime: Number(values["max-time"]),
+});
+const report = { mode, strategy: strategy.name, ...buildReport(results) };
+
+const output =
+  values.format === "csv"
+    ? formatReportCsv(report)
+    : JSON.stringify(report, null, 2) + "\n";
+
+if (values.out) {
+  writeFileSync(values.out, output);
+} else {
+  process.stdout.write(output);
+}
+
+console.error(
+  `Simulated ${results.length} games with ${strategy.name} in ${Math.round(
+    performance.now() - startedAt,
+  )}ms`,
+);
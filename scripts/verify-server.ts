@@ -0,0 +1,58 @@
+/**
+ * Minimal score verification server: re-simulates runs posted to
+ * POST /verify and answers whether their claimed result is genuine.
+ *
+ * Usage: npm run verify-server -- --port 8787
+ */
+import { createServer } from "node:http";
+import { parseArgs } from "node:util";
+import {
+  MAX_CLAIM_BYTES,
+  handleVerificationRequest,
+} from "../src/headless/verify";
+
+// Anything bigger than the longest run verifyRun accepts is refused unread
+const MAX_BODY_BYTES = MAX_CLAIM_BYTES;
+
+const { values } = parseArgs({
+  options: {
+    port: { type: "string", default: "8787" },
+  },
+});
+
+const server = createServer((request, response) => {
+  const send = (status: number, body: unknown) => {
+    response.writeHead(status, {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*",
+    });
+    response.end(JSON.stringify(body));
+  };
+
+  if (request.method !== "POST" || request.url !== "/verify") {
+    send(404, { error: "not found" });
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  request.on("data", (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      send(413, { error: "replay too large" });
+      request.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  request.on("end", () => {
+    const { status, body } = handleVerificationRequest(
+      Buffer.concat(chunks).toString("utf8")
+    );
+    send(status, body);
+  });
+});
+
+server.listen(Number(values.port), () => {
+  console.log(`Verifying runs on http://localhost:${values.port}/verify`);
+});
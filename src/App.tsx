@@ -1,23 +1,146 @@
-import { useState, useCallback, useRef } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { GameCanvas, type GameCanvasHandle } from "./components/GameCanvas";
+import { ReplayViewer } from "./components/ReplayViewer";
+import { DailyCalendar } from "./components/DailyCalendar";
+import { AchievementGallery } from "./components/AchievementGallery";
+import { SettingsScreen } from "./components/SettingsScreen";
+import { CalibrationScreen } from "./components/CalibrationScreen";
+import { StatsScreen } from "./components/StatsScreen";
+import { LeaderboardPanel } from "./components/LeaderboardPanel";
+import { OnlineLeaderboard } from "./components/OnlineLeaderboard";
+import { leaderboardService } from "./leaderboard/leaderboardService";
+import {
+  SubmissionQueue,
+  type SubmitOutcome,
+} from "./leaderboard/submissionQueue";
+import { profileStore } from "./profile/profileStore";
 import { audioManager } from "./utils/audioManager";
-import { getHighScores, saveHighScore } from "./utils/storage";
-import type { HighScore } from "./utils/storage";
-import type { GameMode } from "./types";
+import {
+  getAchievementProgress,
+  getAudioLatency,
+  getDailyResults,
+  getGhost,
+  getInputBindings,
+  getInputOffset,
+  getLeaderboards,
+  getPendingSubmissions,
+  getPlayerId,
+  getThemeId,
+  saveAchievementProgress,
+  saveAudioLatency,
+  saveDailyResult,
+  startDailyAttempt,
+  saveGhost,
+  saveInputBindings,
+  saveInputOffset,
+  saveLeaderboards,
+  savePendingSubmissions,
+  saveThemeId,
+} from "./utils/storage";
+import type { GameEvent, GameMode, RhythmState, StackGrade } from "./types";
+import { STACK_GRADE_LABELS } from "./constants/game";
+import { ACHIEVEMENTS } from "./constants/achievements";
+import type { ReplayData } from "./core/replay";
+import { getDailyKey, getDailySeed, getDailyStreak } from "./core/daily";
+import {
+  applyGameEvent,
+  type AchievementDefinition,
+} from "./core/achievements";
+import { applyRunEvent, createRunTracker } from "./core/stats";
+import {
+  getProgression,
+  recordRun,
+  type LeaderboardMetric,
+} from "./core/leaderboard";
+import type { RunRecord } from "./profile/types";
+import {
+  getGhostKey,
+  isBetterRun,
+  type GhostRun,
+  type GhostStatus,
+} from "./core/ghost";
+import {
+  DEFAULT_THEME,
+  getTheme,
+  isThemeUnlocked,
+  type Theme,
+} from "./rendering/themes";
 import "./App.css";
 
 function App() {
-  const [gameState, setGameState] = useState<"START" | "PLAYING" | "GAMEOVER">(
-    "START"
-  );
+  const [gameState, setGameState] = useState<
+    | "START"
+    | "PLAYING"
+    | "GAMEOVER"
+    | "REPLAY"
+    | "ACHIEVEMENTS"
+    | "SETTINGS"
+    | "CALIBRATION"
+    | "STATS"
+  >("START");
   const [score, setScore] = useState(0);
   const [level, setLevel] = useState(1);
   const [world, setWorld] = useState(1);
   const [showLevelUp, setShowLevelUp] = useState(false);
   const [showWorldUp, setShowWorldUp] = useState(false);
-  const [highScores, setHighScores] = useState<HighScore[]>([]);
+  const [leaderboards, setLeaderboards] = useState(getLeaderboards);
+  const [leaderboardRanks, setLeaderboardRanks] = useState<Record<
+    LeaderboardMetric,
+    number | null
+  > | null>(null);
   const [mode, setMode] = useState<GameMode>("CLASSIC");
   const [timeRemaining, setTimeRemaining] = useState<number | null>(null);
+  const [lastReplay, setLastReplay] = useState<ReplayData | null>(null);
+  const [stackGrade, setStackGrade] = useState<{
+    grade: StackGrade;
+    id: number;
+  } | null>(null);
+  const [rhythm, setRhythm] = useState<RhythmState | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [countdown, setCountdown] = useState(0);
+  // Bumped on every start so restarting from the pause menu remounts the game
+  const [runId, setRunId] = useState(0);
+  const [audioLatency, setAudioLatency] = useState(getAudioLatency);
+  const [dailyKey, setDailyKey] = useState(() => getDailyKey(new Date()));
+  const [dailyResults, setDailyResults] = useState(getDailyResults);
+  const [dailyRecorded, setDailyRecorded] = useState(false);
+  const [achievementProgress, setAchievementProgress] = useState(
+    getAchievementProgress
+  );
+  const [achievementToasts, setAchievementToasts] = useState<
+    { definition: AchievementDefinition; id: number }[]
+  >([]);
+  const [theme, setTheme] = useState<Theme>(() => {
+    const saved = getTheme(getThemeId() ?? DEFAULT_THEME.id);
+    // A theme whose unlock was lost (e.g. cleared progress) falls back
+    return isThemeUnlocked(saved, getAchievementProgress())
+      ? saved
+      : DEFAULT_THEME;
+  });
+  const [inputBindings, setInputBindings] = useState(getInputBindings);
+  const [inputOffset, setInputOffset] = useState(getInputOffset);
+  const achievementProgressRef = useRef(achievementProgress);
+  const [playerId] = useState(getPlayerId);
+  // Online leaderboards only exist when a backend is configured
+  const [submissionQueue] = useState(
+    () =>
+      leaderboardService &&
+      new SubmissionQueue(leaderboardService, {
+        load: getPendingSubmissions,
+        save: savePendingSubmissions,
+      })
+  );
+  const [onlineOutcome, setOnlineOutcome] = useState<SubmitOutcome | null>(
+    null
+  );
+  const [ghost, setGhost] = useState<GhostRun | null>(null);
+  const [ghostStatus, setGhostStatus] = useState<GhostStatus | null>(null);
+  // Bumped on every overtake to replay the flash
+  const [ghostFlash, setGhostFlash] = useState(0);
+  const runTrackerRef = useRef(createRunTracker());
+  const finishedRunRef = useRef<RunRecord | null>(null);
+  const toastIdRef = useRef(0);
+  const gradeIdRef = useRef(0);
   const canvasRef = useRef<GameCanvasHandle>(null);
 
   const startGame = (selectedMode: GameMode = mode) => {
@@ -28,25 +151,152 @@ function App() {
     setLevel(1);
     setWorld(1);
     setTimeRemaining(null);
+    setRhythm(null);
+    setPaused(false);
+    setCountdown(0);
+    setRunId((id) => id + 1);
+    setLeaderboardRanks(null);
+    setOnlineOutcome(null);
+    finishedRunRef.current = null;
+    const today = getDailyKey(new Date());
+    setDailyKey(today);
+    // The day's attempt is used up as soon as it starts, not when it ends
+    setDailyRecorded(selectedMode === "DAILY" && startDailyAttempt(today));
+    setDailyResults(getDailyResults());
+    // Race the best run so far; seeded runs race the best on their seed
+    const best = getGhost(
+      getGhostKey(
+        selectedMode,
+        selectedMode === "DAILY" ? getDailySeed(today) : undefined
+      )
+    );
+    setGhost(best);
+    setGhostStatus(best && { score: 0, world: 1, ahead: false });
+    setGhostFlash(0);
     setGameState("PLAYING");
   };
 
   const handleGameOver = useCallback(
-    (finalScore: number, finalWorld: number, finalLevel: number) => {
-      // Calculated score = world * 5 + level
-      const progressionScore = finalWorld * 5 + finalLevel;
-      saveHighScore(progressionScore);
-      setHighScores(getHighScores());
+    (
+      finalScore: number,
+      finalWorld: number,
+      finalLevel: number,
+      replay?: ReplayData
+    ) => {
+      if (mode === "DAILY") {
+        // Daily results are kept apart; only the first attempt of a day counts
+        if (dailyRecorded) {
+          saveDailyResult({
+            date: dailyKey,
+            score: finalScore,
+            world: finalWorld,
+            level: finalLevel,
+          });
+          setDailyResults(getDailyResults());
+        }
+      } else if (finishedRunRef.current) {
+        // The run's game over event came first and carries its duration
+        const result = recordRun(getLeaderboards(), finishedRunRef.current);
+        saveLeaderboards(result.leaderboards);
+        setLeaderboards(result.leaderboards);
+        setLeaderboardRanks(result.ranks);
+      }
+      const run = finishedRunRef.current;
+      if (run && replay) {
+        const ghostKey = getGhostKey(
+          run.mode,
+          run.mode === "DAILY" ? run.seed : undefined
+        );
+        if (isBetterRun(getGhost(ghostKey), run.score)) {
+          saveGhost(ghostKey, {
+            mode: run.mode,
+            seed: run.seed,
+            score: run.score,
+            world: run.world,
+            level: run.level,
+            timestamp: run.timestamp,
+            replay,
+          });
+        }
+      }
+      if (submissionQueue && run && replay) {
+        // The replay lets the server re-simulate the run from its seed
+        submissionQueue
+          .submit({
+            playerId,
+            playerName: `PLAYER ${playerId.slice(0, 4).toUpperCase()}`,
+            mode: run.mode,
+            seed: run.seed,
+            score: run.score,
+            world: run.world,
+            level: run.level,
+            duration: run.duration,
+            timestamp: run.timestamp,
+            replay,
+          })
+          .then(setOnlineOutcome);
+      }
       setScore(finalScore);
       setWorld(finalWorld);
       setLevel(finalLevel);
+      setLastReplay(replay ?? null);
       setGameState("GAMEOVER");
     },
+    [mode, dailyKey, dailyRecorded, submissionQueue, playerId]
+  );
+
+  useEffect(() => {
+    if (!submissionQueue) return;
+    submissionQueue.start();
+    return () => submissionQueue.stop();
+  }, [submissionQueue]);
+
+  const handleScore = useCallback(
+    (newScore: number, grade?: StackGrade | null) => {
+      setScore(newScore);
+      if (!grade) return;
+      // A new id restarts the toast animation even for repeated grades
+      const id = ++gradeIdRef.current;
+      setStackGrade({ grade, id });
+      setTimeout(
+        () => setStackGrade((current) => (current?.id === id ? null : current)),
+        900
+      );
+    },
     []
   );
 
-  const handleScore = useCallback((newScore: number) => {
-    setScore(newScore);
+  const handleGameEvent = useCallback((event: GameEvent) => {
+    const tracked = applyRunEvent(runTrackerRef.current, event);
+    runTrackerRef.current = tracked.tracker;
+    if (tracked.run) {
+      profileStore
+        .addRun(tracked.run)
+        .catch((e) => console.error("Failed to save run", e));
+      finishedRunRef.current = tracked.run;
+    }
+
+    const result = applyGameEvent(
+      achievementProgressRef.current,
+      event,
+      ACHIEVEMENTS
+    );
+    achievementProgressRef.current = result.progress;
+    saveAchievementProgress(result.progress);
+    if (result.unlocked.length === 0) return;
+
+    setAchievementProgress(result.progress);
+    result.unlocked.forEach((definition) => {
+      const id = ++toastIdRef.current;
+      setAchievementToasts((toasts) => [...toasts, { definition, id }]);
+      setTimeout(
+        () =>
+          setAchievementToasts((toasts) =>
+            toasts.filter((toast) => toast.id !== id)
+          ),
+        3000
+      );
+    });
   }, []);
 
   const handleLevelUp = useCallback((newLevel: number) => {
@@ -66,6 +316,38 @@ function App() {
     setTimeRemaining(time);
   }, []);
 
+  const handleGhostUpdate = useCallback(
+    (status: GhostStatus, overtook: boolean) => {
+      setGhostStatus(status);
+      if (overtook) setGhostFlash((flash) => flash + 1);
+    },
+    []
+  );
+
+  const handleRhythmUpdate = useCallback((next: RhythmState) => {
+    setRhythm(next);
+  }, []);
+
+  const handlePauseChange = useCallback((isPaused: boolean) => {
+    setPaused(isPaused);
+    if (isPaused) setCountdown(0);
+  }, []);
+
+  const handleCountdown = useCallback((count: number) => {
+    setCountdown(count);
+  }, []);
+
+  const handleQuit = () => {
+    setPaused(false);
+    setCountdown(0);
+    setGameState("START");
+  };
+
+  const handleLatencyChange = (latency: number) => {
+    setAudioLatency(latency);
+    saveAudioLatency(latency);
+  };
+
   const handleRestartShape = () => {
     canvasRef.current?.restartShape();
   };
@@ -74,6 +356,8 @@ function App() {
     canvasRef.current?.undo();
   };
 
+  const todayResult = dailyResults.find((result) => result.date === dailyKey);
+
   return (
     <div className="game-container">
       {gameState === "START" && (
@@ -100,11 +384,81 @@ function App() {
             >
               TIME
             </button>
+            <button
+              className={`mode-btn ${mode === "RHYTHM" ? "active" : ""}`}
+              onClick={() => setMode("RHYTHM")}
+            >
+              RHYTHM
+            </button>
+            <button
+              className={`mode-btn ${mode === "DAILY" ? "active" : ""}`}
+              onClick={() => {
+                setMode("DAILY");
+                setDailyKey(getDailyKey(new Date()));
+              }}
+            >
+              DAILY
+            </button>
           </div>
 
+          {mode === "DAILY" && (
+            <div className="daily-panel">
+              <p className="daily-streak">
+                STREAK {getDailyStreak(dailyResults, dailyKey)}
+              </p>
+              {todayResult?.forfeited ? (
+                <p className="daily-status">
+                  Today's attempt was forfeited · replays are practice
+                </p>
+              ) : todayResult ? (
+                <p className="daily-status">
+                  Today's score: {todayResult.score} · replays are practice
+                </p>
+              ) : (
+                <p className="daily-status">Today's challenge is open</p>
+              )}
+              <DailyCalendar results={dailyResults} todayKey={dailyKey} />
+            </div>
+          )}
+
+          {mode === "RHYTHM" && (
+            <label className="latency-setting">
+              <span>AUDIO LATENCY {audioLatency}ms</span>
+              <input
+                type="range"
+                min={0}
+                max={400}
+                step={5}
+                value={audioLatency}
+                onChange={(e) => handleLatencyChange(Number(e.target.value))}
+              />
+            </label>
+          )}
+
           <button className="start-btn" onClick={() => startGame(mode)}>
             START
           </button>
+          <button
+            className="menu-btn"
+            onClick={() => {
+              setAchievementProgress(achievementProgressRef.current);
+              setGameState("ACHIEVEMENTS");
+            }}
+          >
+            ACHIEVEMENTS
+          </button>
+          <button
+            className="menu-btn"
+            onClick={() => {
+              setAchievementProgress(achievementProgressRef.current);
+              setGameState("SETTINGS");
+            }}
+          >
+            SETTINGS
+          </button>
+          <button className="menu-btn" onClick={() => setGameState("STATS")}>
+            STATS
+          </button>
         </div>
       )}
 
@@ -112,13 +466,25 @@ function App() {
         <div className="game-screen" style={{ width: "100%", height: "100%" }}>
           <div className="canvas-container">
             <GameCanvas
+              key={runId}
               ref={canvasRef}
               mode={mode}
+              seed={mode === "DAILY" ? getDailySeed(dailyKey) : undefined}
               onScore={handleScore}
               onGameOver={handleGameOver}
               onLevelUp={handleLevelUp}
               onWorldUp={handleWorldUp}
               onTimeUpdate={handleTimeUpdate}
+              onGameEvent={handleGameEvent}
+              onRhythmUpdate={handleRhythmUpdate}
+              onPauseChange={handlePauseChange}
+              onCountdown={handleCountdown}
+              audioLatency={audioLatency / 1000}
+              inputBindings={inputBindings}
+              inputOffset={inputOffset / 1000}
+              theme={theme}
+              ghost={ghost}
+              onGhostUpdate={handleGhostUpdate}
             />
           </div>
 
@@ -129,9 +495,31 @@ function App() {
               {mode === "TIME_ATTACK" && timeRemaining !== null && (
                 <span className="timer-badge">{Math.ceil(timeRemaining)}s</span>
               )}
+              {mode === "RHYTHM" && rhythm && (
+                <span className="combo-badge">
+                  x{rhythm.multiplier} · {rhythm.points} PTS
+                </span>
+              )}
+              <button
+                className="pause-btn"
+                aria-label="Pause"
+                onClick={() => canvasRef.current?.pause()}
+              >
+                ❚❚
+              </button>
             </div>
             <div className="hud-row main-hud">
               <span className="score">{score}</span>
+              {ghostStatus && (
+                <span
+                  key={ghostFlash}
+                  className={`ghost-badge ${
+                    ghostStatus.ahead ? "ahead" : ""
+                  } ${ghostFlash > 0 ? "overtaken" : ""}`}
+                >
+                  GHOST {ghostStatus.score} · W{ghostStatus.world}
+                </span>
+              )}
               {mode === "ZEN" && (
                 <div className="zen-controls">
                   <button className="restart-btn" onClick={handleRestartShape}>
@@ -145,6 +533,15 @@ function App() {
             </div>
           </div>
 
+          {stackGrade && (
+            <div
+              key={stackGrade.id}
+              className={`grade-toast grade-${stackGrade.grade.toLowerCase()}`}
+            >
+              {STACK_GRADE_LABELS[stackGrade.grade]}
+            </div>
+          )}
+
           {showLevelUp && !showWorldUp && (
             <div className="level-up-overlay">
               <span className="level-up-text">LEVEL {level}</span>
@@ -156,6 +553,31 @@ function App() {
               <span className="world-up-text">WORLD {world}</span>
             </div>
           )}
+
+          {paused && countdown === 0 && (
+            <div className="pause-overlay">
+              <h2 className="pause-title">PAUSED</h2>
+              <button
+                className="start-btn"
+                onClick={() => canvasRef.current?.resume()}
+              >
+                RESUME
+              </button>
+              <button className="retry-btn" onClick={() => startGame(mode)}>
+                RESTART
+              </button>
+              <button className="menu-btn" onClick={handleQuit}>
+                QUIT
+              </button>
+            </div>
+          )}
+          {paused && countdown > 0 && (
+            <div className="countdown-overlay">
+              <span key={countdown} className="countdown-text">
+                {countdown}
+              </span>
+            </div>
+          )}
         </div>
       )}
 
@@ -168,33 +590,123 @@ function App() {
             </p>
             <p className="score-display">Total Score: {score}</p>
             <p className="progression-score">
-              Progression: {world * 5 + level}
+              Progression: {getProgression(world, level)}
             </p>
-          </div>
-          <div className="leaderboard">
-            <h3>TOP SCORES</h3>
-            {highScores.length === 0 ? (
-              <p>No high scores yet!</p>
-            ) : (
-              <ul>
-                {highScores.slice(0, 3).map((hs, idx) => (
-                  <li key={idx}>
-                    <span>#{idx + 1}</span>
-                    <span>{hs.score}</span>
-                    <span>{hs.date}</span>
-                  </li>
-                ))}
-              </ul>
+            {mode === "RHYTHM" && rhythm && (
+              <p className="rhythm-points">Rhythm Points: {rhythm.points}</p>
+            )}
+            {mode === "DAILY" && (
+              <p className="daily-status">
+                {dailyRecorded
+                  ? `Daily ${dailyKey} recorded`
+                  : todayResult?.forfeited
+                    ? "Practice run - today's attempt was forfeited"
+                    : `Practice run - today's score is ${todayResult?.score}`}
+              </p>
+            )}
+            {mode === "DAILY" && (
+              <p className="daily-streak">
+                STREAK {getDailyStreak(dailyResults, dailyKey)}
+              </p>
             )}
           </div>
+          {mode !== "DAILY" && (
+            <LeaderboardPanel
+              leaderboards={leaderboards}
+              mode={mode}
+              ranks={leaderboardRanks}
+            />
+          )}
+          {leaderboardService && (
+            <OnlineLeaderboard
+              service={leaderboardService}
+              playerId={playerId}
+              mode={mode}
+              localRank={leaderboardRanks?.score ?? null}
+              outcome={onlineOutcome}
+            />
+          )}
           <button className="retry-btn" onClick={() => startGame(mode)}>
             RETRY
           </button>
+          {lastReplay && (
+            <button
+              className="replay-btn"
+              onClick={() => setGameState("REPLAY")}
+            >
+              WATCH REPLAY
+            </button>
+          )}
           <button className="menu-btn" onClick={() => setGameState("START")}>
             MAIN MENU
           </button>
         </div>
       )}
+
+      {achievementToasts.length > 0 && (
+        <div className="achievement-toasts">
+          {achievementToasts.map(({ definition, id }) => (
+            <div key={id} className="achievement-toast">
+              <span className="achievement-toast-label">
+                ACHIEVEMENT UNLOCKED
+              </span>
+              <span className="achievement-toast-name">{definition.name}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {gameState === "ACHIEVEMENTS" && (
+        <AchievementGallery
+          progress={achievementProgress}
+          onClose={() => setGameState("START")}
+        />
+      )}
+
+      {gameState === "SETTINGS" && (
+        <SettingsScreen
+          theme={theme}
+          progress={achievementProgress}
+          onSelectTheme={(selected) => {
+            setTheme(selected);
+            saveThemeId(selected.id);
+          }}
+          bindings={inputBindings}
+          onChangeBindings={(bindings) => {
+            setInputBindings(bindings);
+            saveInputBindings(bindings);
+          }}
+          inputOffset={inputOffset}
+          onCalibrate={() => setGameState("CALIBRATION")}
+          onClose={() => setGameState("START")}
+        />
+      )}
+
+      {gameState === "STATS" && (
+        <StatsScreen onClose={() => setGameState("START")} />
+      )}
+
+      {gameState === "CALIBRATION" && (
+        <CalibrationScreen
+          offset={inputOffset}
+          bindings={inputBindings}
+          onSave={(offset) => {
+            setInputOffset(offset);
+            saveInputOffset(offset);
+            setGameState("SETTINGS");
+          }}
+          onClose={() => setGameState("SETTINGS")}
+        />
+      )}
+
+      {gameState === "REPLAY" && lastReplay && (
+        <ReplayViewer
+          key={lastReplay.seed}
+          replay={lastReplay}
+          theme={theme}
+          onClose={() => setGameState("GAMEOVER")}
+        />
+      )}
     </div>
   );
 }
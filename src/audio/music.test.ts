@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  MUSIC_STEPS_PER_BAR,
+  getActiveLayers,
+  getChord,
+  getLayerNotes,
+  getMusicIntensity,
+  getPercussionHit,
+  getWorldRoot,
+} from "./music";
+
+describe("music", () => {
+  describe("getMusicIntensity", () => {
+    it("should start at zero and rise with progress", () => {
+      expect(getMusicIntensity(0, 1, 1)).toBe(0);
+      expect(getMusicIntensity(10, 3, 1)).toBeGreaterThan(0);
+      expect(getMusicIntensity(15, 1, 2)).toBeGreaterThan(
+        getMusicIntensity(14, 5, 1)
+      );
+    });
+
+    it("should be capped at 1", () => {
+      expect(getMusicIntensity(1000, 5, 20)).toBe(1);
+    });
+  });
+
+  describe("getActiveLayers", () => {
+    it("should start with the bassline only", () => {
+      expect(getActiveLayers(0)).toEqual(["bass"]);
+    });
+
+    it("should add layers as intensity rises", () => {
+      expect(getActiveLayers(0.5)).toEqual(["bass", "percussion", "arpeggio"]);
+      expect(getActiveLayers(1)).toEqual([
+        "bass",
+        "percussion",
+        "arpeggio",
+        "pad",
+      ]);
+    });
+  });
+
+  describe("notes", () => {
+    it("should change key with the world", () => {
+      expect(getWorldRoot(1)).not.toBe(getWorldRoot(2));
+      expect(getChord(1, 0)[0]).toBe(getWorldRoot(1));
+    });
+
+    it("should play the bass root on the downbeat", () => {
+      expect(getLayerNotes("bass", 1, 0)).toEqual([getWorldRoot(1)]);
+      expect(getLayerNotes("bass", 1, 1)).toEqual([]);
+    });
+
+    it("should hold one pad chord per bar", () => {
+      expect(getLayerNotes("pad", 1, 0)).toHaveLength(3);
+      expect(getLayerNotes("pad", 1, 1)).toEqual([]);
+      expect(getLayerNotes("pad", 1, MUSIC_STEPS_PER_BAR)).toHaveLength(3);
+    });
+
+    it("should place kick, snare and hi-hat on the grid", () => {
+      expect(getPercussionHit(0)).toBe("kick");
+      expect(getPercussionHit(4)).toBe("snare");
+      expect(getPercussionHit(2)).toBe("hat");
+      expect(getPercussionHit(1)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Procedural soundtrack composition.
+ * Pure helpers deciding which layers play and which notes fall on each step;
+ * the audio engine only turns these into oscillators on the Web Audio graph.
+ */
+
+export type MusicLayer = "bass" | "percussion" | "arpeggio" | "pad";
+
+export const MUSIC_BPM = 100;
+/** Sixteenth-note steps per bar */
+export const MUSIC_STEPS_PER_BAR = 16;
+
+/**
+ * Layers in the order they join the mix, with the intensity each needs.
+ */
+export const MUSIC_LAYERS: { layer: MusicLayer; minIntensity: number }[] = [
+  { layer: "bass", minIntensity: 0 },
+  { layer: "percussion", minIntensity: 0.2 },
+  { layer: "arpeggio", minIntensity: 0.45 },
+  { layer: "pad", minIntensity: 0.7 },
+];
+
+// Root note per world (A2, D3, E2, C3, G2), cycling after the last
+const WORLD_ROOTS = [110, 146.83, 82.41, 130.81, 98];
+
+// Chord progression in semitones above the root, one chord per bar
+const PROGRESSION = [
+  [0, 3, 7],
+  [-4, 0, 3],
+  [3, 7, 10],
+  [-2, 2, 5],
+];
+
+// Steps on which each rhythmic layer plays
+const BASS_STEPS = [0, 3, 6, 8, 11, 14];
+const KICK_STEPS = [0, 8, 10];
+const SNARE_STEPS = [4, 12];
+
+export type PercussionHit = "kick" | "snare" | "hat";
+
+/**
+ * Overall soundtrack intensity (0..1) from run progress.
+ * Worlds weigh most, so every world-up audibly lifts the mix.
+ */
+export const getMusicIntensity = (
+  score: number,
+  level: number,
+  world: number
+): number => {
+  const intensity = (world - 1) * 0.2 + (level - 1) * 0.04 + score * 0.005;
+  return Math.min(1, Math.max(0, intensity));
+};
+
+/**
+ * Layers audible at a given intensity.
+ */
+export const getActiveLayers = (intensity: number): MusicLayer[] => {
+  return MUSIC_LAYERS.filter((entry) => intensity >= entry.minIntensity).map(
+    (entry) => entry.layer
+  );
+};
+
+export const getWorldRoot = (world: number): number => {
+  return WORLD_ROOTS[(world - 1) % WORLD_ROOTS.length];
+};
+
+const transpose = (frequency: number, semitones: number): number => {
+  return frequency * Math.pow(2, semitones / 12);
+};
+
+/**
+ * Chord (frequencies) for a bar, in the key of the given world.
+ */
+export const getChord = (world: number, bar: number): number[] => {
+  const root = getWorldRoot(world);
+  return PROGRESSION[bar % PROGRESSION.length].map((semitones) =>
+    transpose(root, semitones)
+  );
+};
+
+/**
+ * Frequencies a melodic layer plays on a step (empty for a rest).
+ * @param step - Sixteenth-note step since the music started
+ */
+export const getLayerNotes = (
+  layer: Exclude<MusicLayer, "percussion">,
+  world: number,
+  step: number
+): number[] => {
+  const bar = Math.floor(step / MUSIC_STEPS_PER_BAR);
+  const position = step % MUSIC_STEPS_PER_BAR;
+  const chord = getChord(world, bar);
+
+  switch (layer) {
+    case "bass":
+      return BASS_STEPS.includes(position) ? [chord[0]] : [];
+    case "arpeggio":
+      // Chord tones two octaves up, on every other sixteenth
+      return position % 2 === 0
+        ? [transpose(chord[(position / 2) % chord.length], 24)]
+        : [];
+    case "pad":
+      // One sustained chord an octave up per bar
+      return position === 0 ? chord.map((f) => transpose(f, 12)) : [];
+  }
+};
+
+/**
+ * Percussion hit on a step, if any.
+ */
+export const getPercussionHit = (step: number): PercussionHit | null => {
+  const position = step % MUSIC_STEPS_PER_BAR;
+  if (KICK_STEPS.includes(position)) return "kick";
+  if (SNARE_STEPS.includes(position)) return "snare";
+  return position % 2 === 0 ? "hat" : null;
+};
@@ -23,4 +23,40 @@ export interface IAudioService {
    * Resume the audio context if suspended (required by browsers).
    */
   resume(): void;
+
+  /**
+   * Suspend the audio context (game paused); resume() picks up where it left.
+   */
+  suspend(): void;
+
+  /**
+   * Start the Rhythm Mode metronome and backing loop. Beat 0 sounds now,
+   * unless the grid is joined part-way through.
+   * @param bpm - Tempo in beats per minute.
+   * @param latency - Output latency in seconds; beats are scheduled this much
+   * earlier so they are heard on the game's beat grid.
+   * @param elapsed - Seconds of the beat grid already played (to resync it).
+   */
+  startBeat(bpm: number, latency: number, elapsed?: number): void;
+
+  /**
+   * Stop the Rhythm Mode metronome and backing loop.
+   */
+  stopBeat(): void;
+
+  /**
+   * Start the procedural soundtrack, beginning with its bassline.
+   */
+  startMusic(): void;
+
+  /**
+   * Match the soundtrack to the run's progress: layers fade in as score,
+   * level and world rise, and a new world crossfades into its own key.
+   */
+  setIntensity(score: number, level: number, world: number): void;
+
+  /**
+   * Stop the soundtrack with a low-pass filter sweep.
+   */
+  stopMusic(): void;
 }
@@ -0,0 +1,74 @@
+import {
+  getAchievementCompletion,
+  type AchievementProgress,
+} from "../core/achievements";
+import { ACHIEVEMENTS } from "../constants/achievements";
+
+interface AchievementGalleryProps {
+  progress: AchievementProgress;
+  onClose: () => void;
+}
+
+/**
+ * AchievementGallery - Lists every achievement with its unlock date or
+ * progress towards it.
+ */
+export const AchievementGallery = ({
+  progress,
+  onClose,
+}: AchievementGalleryProps) => {
+  const unlockedCount = ACHIEVEMENTS.filter(
+    (definition) => progress.unlocked[definition.id],
+  ).length;
+
+  return (
+    <div className="screen achievements-screen">
+      <h1 className="title">ACHIEVEMENTS</h1>
+      <p className="subtitle">
+        {unlockedCount} / {ACHIEVEMENTS.length} unlocked
+      </p>
+
+      <ul className="achievement-list">
+        {ACHIEVEMENTS.map((definition) => {
+          const unlockedAt = progress.unlocked[definition.id];
+          const { current, target } = getAchievementCompletion(
+            definition,
+            progress,
+          );
+          return (
+            <li
+              key={definition.id}
+              className={`achievement ${unlockedAt ? "unlocked" : "locked"}`}
+            >
+              <span className="achievement-name">{definition.name}</span>
+              <span className="achievement-description">
+                {definition.description}
+              </span>
+              {unlockedAt ? (
+                <span className="achievement-date">
+                  {new Date(unlockedAt).toLocaleDateString()}
+                </span>
+              ) : (
+                target > 1 && (
+                  <span className="achievement-progress">
+                    <span
+                      className="achievement-progress-bar"
+                      style={{ width: `${(current / target) * 100}%` }}
+                    />
+                    <span className="achievement-progress-text">
+                      {current} / {target}
+                    </span>
+                  </span>
+                )
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      <button className="menu-btn" onClick={onClose}>
+        BACK
+      </button>
+    </div>
+  );
+};
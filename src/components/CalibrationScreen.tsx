@@ -0,0 +1,174 @@
+import { useEffect, useRef, useState } from "react";
+import { audioManager as defaultAudioManager } from "../utils/audioManager";
+import type { IAudioService } from "../audio/types";
+import {
+  CALIBRATION_INTERVAL,
+  CALIBRATION_PULSES,
+  CALIBRATION_WARMUP_PULSES,
+  computeCalibration,
+  getPulseTimes,
+  type CalibrationResult,
+} from "../core/calibration";
+import { attachInput } from "../input/inputManager";
+import type { InputBindings } from "../input/bindings";
+import { MAX_INPUT_OFFSET } from "../constants/game";
+
+interface CalibrationScreenProps {
+  /** Current input offset (ms) */
+  offset: number;
+  bindings: InputBindings;
+  onSave: (offset: number) => void;
+  onClose: () => void;
+  audioService?: IAudioService;
+}
+
+/** Delay before the first pulse, so the player can get ready (ms) */
+const LEAD_IN = 1000;
+
+type Phase = "INTRO" | "RUNNING" | "RESULT";
+
+/**
+ * CalibrationScreen - Measures input latency: the player taps along with a
+ * flashing, clicking pulse, and the average lateness of their taps becomes
+ * the input offset used to judge taps in game.
+ */
+export const CalibrationScreen = ({
+  offset,
+  bindings,
+  onSave,
+  onClose,
+  audioService = defaultAudioManager,
+}: CalibrationScreenProps) => {
+  const padRef = useRef<HTMLDivElement>(null);
+  const tapTimesRef = useRef<number[]>([]);
+  const [phase, setPhase] = useState<Phase>("INTRO");
+  const [pulse, setPulse] = useState(-1);
+  const [tapCount, setTapCount] = useState(0);
+  const [result, setResult] = useState<CalibrationResult | null>(null);
+
+  useEffect(() => {
+    const pad = padRef.current;
+    if (phase !== "RUNNING" || !pad) return;
+
+    tapTimesRef.current = [];
+    // Pulses are shown on the first frame at or after their time, like the
+    // game's shapes, so the measurement includes the same display latency
+    const pulseTimes: number[] = [];
+    const schedule = getPulseTimes(performance.now() + LEAD_IN);
+    let next = 0;
+    let animId = 0;
+
+    const loop = (time: number) => {
+      if (next < schedule.length && time >= schedule[next]) {
+        pulseTimes.push(time);
+        audioService.playStackSound(0);
+        setPulse(next);
+        next++;
+      }
+      // Wait half an interval after the last pulse for its tap
+      const end = schedule[schedule.length - 1] + CALIBRATION_INTERVAL / 2;
+      if (next >= schedule.length && time >= end) {
+        setResult(computeCalibration(pulseTimes, tapTimesRef.current));
+        setPhase("RESULT");
+        return;
+      }
+      animId = requestAnimationFrame(loop);
+    };
+    animId = requestAnimationFrame(loop);
+
+    const detach = attachInput(pad, bindings, (event) => {
+      if (event.action !== "tap") return;
+      tapTimesRef.current.push(event.timestamp);
+      setTapCount(tapTimesRef.current.length);
+    });
+
+    return () => {
+      cancelAnimationFrame(animId);
+      detach();
+    };
+  }, [phase, bindings, audioService]);
+
+  const start = () => {
+    audioService.init();
+    audioService.resume();
+    setPulse(-1);
+    setTapCount(0);
+    setResult(null);
+    setPhase("RUNNING");
+  };
+
+  // Early taps can't be judged earlier than the tap itself; clamp
+  const savedOffset = result
+    ? Math.round(Math.min(Math.max(result.offset, 0), MAX_INPUT_OFFSET * 1000))
+    : 0;
+
+  return (
+    <div className="screen calibration-screen">
+      <h1 className="title">CALIBRATION</h1>
+      <p className="subtitle">Current offset: {offset}ms</p>
+
+      {phase === "INTRO" && (
+        <>
+          <p className="calibration-hint">
+            Tap, click or press a key in time with the pulse. The first{" "}
+            {CALIBRATION_WARMUP_PULSES} pulses are practice.
+          </p>
+          <button className="start-btn" onClick={start}>
+            START
+          </button>
+        </>
+      )}
+
+      {phase === "RUNNING" && (
+        <div ref={padRef} className="calibration-pad">
+          <div
+            key={pulse}
+            className={`calibration-pulse ${pulse >= 0 ? "flash" : ""}`}
+          />
+          <p className="calibration-progress">
+            {pulse < CALIBRATION_WARMUP_PULSES
+              ? "GET READY"
+              : `${pulse + 1 - CALIBRATION_WARMUP_PULSES} / ${
+                  CALIBRATION_PULSES - CALIBRATION_WARMUP_PULSES
+                }`}
+            {" · "}
+            {tapCount} TAPS
+          </p>
+        </div>
+      )}
+
+      {phase === "RESULT" &&
+        (result ? (
+          <>
+            <p className="calibration-result">
+              Your taps land {Math.round(Math.abs(result.offset))}ms{" "}
+              {result.offset >= 0 ? "late" : "early"} (±
+              {Math.round(result.spread)}ms over {result.taps} taps)
+            </p>
+            <button className="start-btn" onClick={() => onSave(savedOffset)}>
+              SAVE {savedOffset}ms
+            </button>
+            <button className="menu-btn" onClick={start}>
+              RETRY
+            </button>
+          </>
+        ) : (
+          <>
+            <p className="calibration-result">
+              Not enough taps in time with the pulse. Try again.
+            </p>
+            <button className="start-btn" onClick={start}>
+              RETRY
+            </button>
+          </>
+        ))}
+
+      <button className="menu-btn" onClick={() => onSave(0)}>
+        RESET TO 0ms
+      </button>
+      <button className="menu-btn" onClick={onClose}>
+        BACK
+      </button>
+    </div>
+  );
+};
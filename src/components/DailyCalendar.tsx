@@ -0,0 +1,63 @@
+import { getDailyKey, type DailyResult } from "../core/daily";
+
+interface DailyCalendarProps {
+  results: DailyResult[];
+  /** Date key of today ("YYYY-MM-DD") */
+  todayKey: string;
+}
+
+const WEEKDAYS = ["M", "T", "W", "T", "F", "S", "S"];
+
+/**
+ * DailyCalendar - Month view of the daily challenge history.
+ * Played days show their score; today is outlined.
+ */
+export const DailyCalendar = ({ results, todayKey }: DailyCalendarProps) => {
+  const [year, month] = todayKey.split("-").map(Number);
+  const daysInMonth = new Date(year, month, 0).getDate();
+  // Monday-first offset of the 1st of the month
+  const leadingBlanks = (new Date(year, month - 1, 1).getDay() + 6) % 7;
+  const scores = new Map(results.map((result) => [result.date, result.score]));
+  const monthLabel = new Date(year, month - 1, 1).toLocaleDateString(
+    undefined,
+    { month: "long", year: "numeric" },
+  );
+
+  return (
+    <div className="daily-calendar">
+      <h3>{monthLabel}</h3>
+      <div className="daily-calendar-grid">
+        {WEEKDAYS.map((weekday, idx) => (
+          <span key={idx} className="daily-weekday">
+            {weekday}
+          </span>
+        ))}
+        {Array.from({ length: leadingBlanks }, (_, idx) => (
+          <span key={`blank-${idx}`} />
+        ))}
+        {Array.from({ length: daysInMonth }, (_, idx) => {
+          const day = idx + 1;
+          const key = getDailyKey(new Date(year, month - 1, day));
+          const score = scores.get(key);
+          const classes = [
+            "daily-day",
+            score !== undefined ? "played" : "",
+            key === todayKey ? "today" : "",
+          ].join(" ");
+          return (
+            <span
+              key={key}
+              className={classes}
+              title={score !== undefined ? `${key}: ${score}` : key}
+            >
+              <span className="daily-day-number">{day}</span>
+              {score !== undefined && (
+                <span className="daily-day-score">{score}</span>
+              )}
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -10,6 +10,12 @@ const mockAudioService: IAudioService = {
   playFailSound: vi.fn(),
   init: vi.fn(),
   resume: vi.fn(),
+  suspend: vi.fn(),
+  startBeat: vi.fn(),
+  stopBeat: vi.fn(),
+  startMusic: vi.fn(),
+  setIntensity: vi.fn(),
+  stopMusic: vi.fn(),
 };
 
 describe("GameCanvas", () => {
@@ -69,11 +75,102 @@ describe("GameCanvas", () => {
     // Actually, spawnActiveShape spawns the FIRST shape as the first stacked shape if shapes array is empty?
     // No, createInitialState might spawn the ground shape.
 
-    fireEvent.click(canvas);
+    fireEvent.pointerDown(canvas);
 
     // After first tap, it should stack the shape
     expect(onScore).toHaveBeenCalled();
     expect(mockAudioService.playStackSound).toHaveBeenCalled();
+    expect(mockAudioService.setIntensity).toHaveBeenCalledWith(1, 1, 1);
+  });
+
+  it("emits a stack event when tapped", async () => {
+    const onGameEvent = vi.fn();
+    const { container } = render(
+      <GameCanvas
+        onScore={vi.fn()}
+        onGameOver={vi.fn()}
+        onLevelUp={vi.fn()}
+        onWorldUp={vi.fn()}
+        onGameEvent={onGameEvent}
+        audioService={mockAudioService}
+      />
+    );
+
+    const canvas = container.querySelector("canvas");
+    if (!canvas) throw new Error("Canvas not found");
+
+    await act(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+
+    fireEvent.pointerDown(canvas);
+
+    expect(onGameEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "stack", score: 1 })
+    );
+  });
+
+  it("reports the rhythm combo state after a stack in Rhythm mode", async () => {
+    const onRhythmUpdate = vi.fn();
+    const { container } = render(
+      <GameCanvas
+        mode="RHYTHM"
+        onScore={vi.fn()}
+        onGameOver={vi.fn()}
+        onLevelUp={vi.fn()}
+        onWorldUp={vi.fn()}
+        onRhythmUpdate={onRhythmUpdate}
+        audioService={mockAudioService}
+      />
+    );
+
+    const canvas = container.querySelector("canvas");
+    if (!canvas) throw new Error("Canvas not found");
+
+    await act(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+
+    fireEvent.pointerDown(canvas);
+
+    expect(onRhythmUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ points: expect.any(Number) }),
+      expect.any(Boolean)
+    );
+  });
+
+  it("puts the Rhythm metronome back on the beat after a hitch", () => {
+    const frames: FrameRequestCallback[] = [];
+    const spyFrame = vi
+      .spyOn(window, "requestAnimationFrame")
+      .mockImplementation((callback) => frames.push(callback));
+    render(
+      <GameCanvas
+        mode="RHYTHM"
+        onScore={vi.fn()}
+        onGameOver={vi.fn()}
+        onLevelUp={vi.fn()}
+        onWorldUp={vi.fn()}
+        audioService={mockAudioService}
+      />
+    );
+    const runFrame = (time: number) => {
+      act(() => frames[frames.length - 1](time));
+    };
+
+    runFrame(1000);
+    runFrame(1100);
+    expect(mockAudioService.startBeat).toHaveBeenCalledTimes(1);
+
+    // Two seconds lost to a hitch, of which only MAX_FRAME_TIME is simulated
+    runFrame(3100);
+    expect(mockAudioService.startBeat).toHaveBeenCalledTimes(2);
+    expect(mockAudioService.startBeat).toHaveBeenLastCalledWith(
+      expect.any(Number),
+      0,
+      expect.closeTo(0.35, 6)
+    );
+    spyFrame.mockRestore();
   });
 
   it("handles game over", async () => {
@@ -96,6 +193,7 @@ describe("GameCanvas", () => {
     const spyCancel = vi.spyOn(window, "cancelAnimationFrame");
     unmount();
     expect(spyCancel).toHaveBeenCalled();
+    expect(mockAudioService.stopMusic).toHaveBeenCalled();
   });
 
   it("exposes restart and undo methods via ref", async () => {
@@ -125,4 +223,79 @@ describe("GameCanvas", () => {
     // In a test, we might not see the state change immediately without flushing the animation frame,
     // but we've verified the methods are exposed.
   });
+
+  it("pauses, suspends audio and ignores taps until resumed", async () => {
+    const ref = { current: null } as { current: GameCanvasHandle | null };
+    const onScore = vi.fn();
+    const onPauseChange = vi.fn();
+    const onCountdown = vi.fn();
+    const { container } = render(
+      <GameCanvas
+        ref={ref}
+        onScore={onScore}
+        onGameOver={vi.fn()}
+        onLevelUp={vi.fn()}
+        onWorldUp={vi.fn()}
+        onPauseChange={onPauseChange}
+        onCountdown={onCountdown}
+        audioService={mockAudioService}
+      />
+    );
+    const canvas = container.querySelector("canvas");
+    if (!canvas) throw new Error("Canvas not found");
+
+    act(() => {
+      ref.current?.pause();
+    });
+    expect(onPauseChange).toHaveBeenCalledWith(true);
+    expect(mockAudioService.suspend).toHaveBeenCalled();
+
+    fireEvent.pointerDown(canvas);
+    expect(onScore).not.toHaveBeenCalled();
+
+    act(() => {
+      ref.current?.resume();
+    });
+    expect(onCountdown).toHaveBeenCalledWith(3);
+  });
+
+  it("auto-pauses when the window loses focus", () => {
+    const onPauseChange = vi.fn();
+    render(
+      <GameCanvas
+        onScore={vi.fn()}
+        onGameOver={vi.fn()}
+        onLevelUp={vi.fn()}
+        onWorldUp={vi.fn()}
+        onPauseChange={onPauseChange}
+        audioService={mockAudioService}
+      />
+    );
+
+    act(() => {
+      window.dispatchEvent(new Event("blur"));
+    });
+    expect(onPauseChange).toHaveBeenCalledWith(true);
+    expect(mockAudioService.suspend).toHaveBeenCalled();
+  });
+
+  it("stacks on a bound key", async () => {
+    const onScore = vi.fn();
+    render(
+      <GameCanvas
+        onScore={onScore}
+        onGameOver={vi.fn()}
+        onLevelUp={vi.fn()}
+        onWorldUp={vi.fn()}
+        audioService={mockAudioService}
+      />
+    );
+
+    await act(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    });
+
+    fireEvent.keyDown(window, { code: "Enter" });
+    expect(onScore).toHaveBeenCalledWith(1, null);
+  });
 });
@@ -1,38 +1,98 @@
 import { useRef, useEffect, useCallback } from "react";
 import { audioManager as defaultAudioManager } from "../utils/audioManager";
 import type { IAudioService } from "../audio/types";
-import type { GameState } from "../types";
+import type {
+  GameEvent,
+  GameState,
+  RhythmState,
+  StackGrade,
+} from "../types";
 import {
   createInitialState,
+  pauseGame,
+  resumeGame,
   spawnActiveShape,
-  updateActiveShape,
-  updateZoom,
-  updateShapeRotations,
-  updateShapeOpacities,
-  stackActiveShape,
-  setGameOver,
-  checkContainment,
-  updateTimer,
-  handleMiss,
-  restartActiveShape,
-  undoLastStack,
+  updateResumeCountdown,
 } from "../core/gameState";
-import { getWorldMechanics } from "../constants/game";
+import {
+  applyTap,
+  applyRestart,
+  applyUndo,
+  interpolateState,
+  stepFrame,
+} from "../core/simulation";
+import { getShapePair } from "../core/stats";
+import {
+  createGhostRace,
+  getGhostStatus,
+  isGhostShapeVisible,
+  updateGhostRace,
+  type GhostRace,
+  type GhostRun,
+  type GhostStatus,
+} from "../core/ghost";
+import { MAX_FRAME_TIME, SIMULATION_TIMESTEP } from "../constants/game";
+import {
+  createReplayRecorder,
+  type ReplayData,
+  type ReplayRecorder,
+} from "../core/replay";
 import type { GameMode } from "../types";
 import { forwardRef, useImperativeHandle } from "react";
+import { drawGameState } from "../rendering/shapeRenderer";
+import { DEFAULT_THEME, type Theme } from "../rendering/themes";
 import {
-  drawShape,
-  drawBackground,
-  clearCanvas,
-} from "../rendering/shapeRenderer";
+  DEFAULT_INPUT_BINDINGS,
+  type InputBindings,
+} from "../input/bindings";
+import { attachInput, type InputEvent } from "../input/inputManager";
+import {
+  GAME_OVER_EFFECT_DURATION,
+  GAME_OVER_SHAKE,
+  MISS_SHAKE,
+  addCameraShake,
+  createEffectsState,
+  emitLevelUpRipple,
+  emitPerfectShards,
+  emitShatter,
+  updateEffects,
+  type EffectsState,
+} from "../rendering/effects";
 
 interface GameCanvasProps {
   mode?: GameMode;
-  onScore: (score: number) => void;
-  onGameOver: (finalScore: number, world: number, level: number) => void;
+  /** Optional PRNG seed; the same seed and tap timings reproduce the same run */
+  seed?: number;
+  onScore: (score: number, grade?: StackGrade | null) => void;
+  onGameOver: (
+    finalScore: number,
+    world: number,
+    level: number,
+    replay?: ReplayData,
+  ) => void;
   onLevelUp: (level: number) => void;
   onWorldUp: (world: number) => void;
   onTimeUpdate?: (time: number) => void;
+  /** Gameplay event stream (stacks, misses, level ups, ...) */
+  onGameEvent?: (event: GameEvent) => void;
+  /** Rhythm Mode: called after every stack with the updated combo state */
+  onRhythmUpdate?: (rhythm: RhythmState, onBeat: boolean) => void;
+  /** Rhythm Mode: audio output latency in seconds (metronome plays early) */
+  audioLatency?: number;
+  /** Called when the game pauses, and when play resumes after the countdown */
+  onPauseChange?: (paused: boolean) => void;
+  /** Resume countdown: called with 3, 2, 1 and finally 0 as play resumes */
+  onCountdown?: (count: number) => void;
+  /** Calibrated input latency in seconds; taps are judged this far back */
+  inputOffset?: number;
+  /** Keys and gamepad buttons for tap, restart, undo and pause */
+  inputBindings?: InputBindings;
+  /** Visual theme used to draw the game */
+  theme?: Theme;
+  /** Best earlier run to race; on the same seed its shape is outlined */
+  ghost?: GhostRun | null;
+  /** Called when the ghost's score, world or lead changes */
+  onGhostUpdate?: (status: GhostStatus, overtook: boolean) => void;
   /** Optional audio service for dependency injection (testing) */
   audioService?: IAudioService;
 }
@@ -40,6 +100,10 @@ interface GameCanvasProps {
 export interface GameCanvasHandle {
   restartShape: () => void;
   undo: () => void;
+  /** Freeze the game and suspend audio */
+  pause: () => void;
+  /** Start the countdown back into a paused game */
+  resume: () => void;
 }
 
 /**
@@ -50,11 +114,22 @@ export const GameCanvas = forwardRef<GameCanvasHandle, GameCanvasProps>(
   (
     {
       mode = "CLASSIC",
+      seed,
       onScore,
       onGameOver,
       onLevelUp,
       onWorldUp,
       onTimeUpdate,
+      onGameEvent,
+      onRhythmUpdate,
+      onPauseChange,
+      onCountdown,
+      audioLatency = 0,
+      inputOffset = 0,
+      inputBindings = DEFAULT_INPUT_BINDINGS,
+      theme = DEFAULT_THEME,
+      ghost = null,
+      onGhostUpdate,
       audioService = defaultAudioManager,
     },
     ref,
@@ -65,79 +140,289 @@ export const GameCanvas = forwardRef<GameCanvasHandle, GameCanvasProps>(
     const restartRequestedRef = useRef(false);
     const undoRequestedRef = useRef(false);
     const dimensionsRef = useRef({ width: 0, height: 0 });
+    const recorderRef = useRef<ReplayRecorder | null>(null);
+    /** Unsimulated real time carried over between frames (seconds) */
+    const accumulatorRef = useRef(0);
+    /** State one simulation step ago, for render interpolation */
+    const previousStateRef = useRef<GameState | null>(null);
+    const effectsRef = useRef<EffectsState>(createEffectsState());
+    /** Seconds of game over effects left before onGameOver fires */
+    const gameOverDelayRef = useRef<number | null>(null);
+    const ghostRaceRef = useRef<GhostRace | null>(null);
 
     // Initialize game state
     useEffect(() => {
       const viewportSize = Math.min(window.innerWidth, window.innerHeight);
-      const initialState = createInitialState(viewportSize, mode);
+      const initialState = createInitialState(
+        viewportSize,
+        mode,
+        seed,
+        inputOffset,
+      );
+      recorderRef.current = createReplayRecorder(
+        initialState.seed,
+        initialState.mode,
+        viewportSize,
+        initialState.inputOffset,
+      );
       stateRef.current = spawnActiveShape(initialState);
-    }, [mode]);
+      previousStateRef.current = null;
+      effectsRef.current = createEffectsState();
+      gameOverDelayRef.current = null;
+      ghostRaceRef.current = ghost ? createGhostRace(ghost) : null;
+    }, [mode, seed, inputOffset, ghost]);
+
+    const pause = useCallback(() => {
+      const state = stateRef.current;
+      if (!state || state.isGameOver) return;
+      if (state.isPaused && state.resumeCountdown === 0) return;
+      stateRef.current = pauseGame(state);
+      audioService.suspend();
+      onPauseChange?.(true);
+    }, [audioService, onPauseChange]);
+
+    const resume = useCallback(() => {
+      const state = stateRef.current;
+      if (!state || !state.isPaused || state.resumeCountdown > 0) return;
+      stateRef.current = resumeGame(state);
+      onCountdown?.(Math.ceil(stateRef.current.resumeCountdown));
+    }, [onCountdown]);
 
     useImperativeHandle(
       ref,
       () => ({
         restartShape: () => {
           if (!stateRef.current || stateRef.current.isGameOver) return;
+          if (stateRef.current.isPaused) return;
           restartRequestedRef.current = true;
         },
         undo: () => {
           if (!stateRef.current || stateRef.current.isGameOver) return;
+          if (stateRef.current.isPaused) return;
           undoRequestedRef.current = true;
         },
+        pause,
+        resume,
       }),
-      [],
+      [pause, resume],
     );
 
-    const endGame = useCallback(() => {
-      if (!stateRef.current) return;
-      stateRef.current = setGameOver(stateRef.current);
-      audioService.playFailSound();
-      onGameOver(
-        stateRef.current.score,
-        stateRef.current.world,
-        stateRef.current.level,
+    // Auto-pause when the player switches apps or tabs
+    useEffect(() => {
+      const handleVisibilityChange = () => {
+        if (document.hidden) pause();
+      };
+      document.addEventListener("visibilitychange", handleVisibilityChange);
+      window.addEventListener("blur", pause);
+      return () => {
+        document.removeEventListener(
+          "visibilitychange",
+          handleVisibilityChange,
+        );
+        window.removeEventListener("blur", pause);
+      };
+    }, [pause]);
+
+    /**
+     * Shatter the container and shake the camera after a miss.
+     * @param state - State before the miss (its container is the one hit)
+     */
+    const playMissEffects = useCallback((state: GameState, fatal: boolean) => {
+      const container = state.shapes[state.shapes.length - 1];
+      let effects = effectsRef.current;
+      if (container) effects = emitShatter(effects, container, state.zoom);
+      effectsRef.current = addCameraShake(
+        effects,
+        fatal ? GAME_OVER_SHAKE : MISS_SHAKE,
       );
-    }, [onGameOver, audioService]);
+    }, []);
 
-    const miss = useCallback(() => {
-      if (!stateRef.current) return;
+    // onGameOver itself fires from the loop once the effects have played
+    const reportGameOver = useCallback(
+      (state: GameState) => {
+        audioService.stopBeat();
+        audioService.stopMusic();
+        audioService.playFailSound();
+        gameOverDelayRef.current = GAME_OVER_EFFECT_DURATION;
+        onGameEvent?.({
+          type: "gameOver",
+          mode: state.mode,
+          seed: state.seed,
+          score: state.score,
+          world: state.world,
+          level: state.level,
+          time: state.elapsedTime,
+        });
+      },
+      [onGameEvent, audioService],
+    );
 
-      const wasGameOver = stateRef.current.isGameOver;
-      stateRef.current = handleMiss(stateRef.current);
+    /**
+     * Rhythm Mode: put the metronome back on the simulated beat grid. A
+     * clamped frame drops real time that the audio clock keeps counting.
+     */
+    const resyncBeat = useCallback(() => {
+      const state = stateRef.current;
+      if (!state?.rhythm || state.isGameOver) return;
+      audioService.startBeat(
+        state.rhythm.bpm,
+        audioLatency,
+        state.elapsedTime + accumulatorRef.current,
+      );
+    }, [audioService, audioLatency]);
+
+    /**
+     * Run the fixed-timestep simulation over a stretch of real time.
+     * Whole steps run now and the remainder carries over to the next call,
+     * unless `exact` is set: then the remainder is simulated as one short
+     * step, bringing the game exactly up to the present (used for inputs).
+     * @param frameTime - Real time to simulate in seconds (already clamped)
+     * @returns Whether the active shape breached its container meanwhile
+     */
+    const advanceSimulation = useCallback(
+      (frameTime: number, exact: boolean): boolean => {
+        let state = stateRef.current;
+        if (!state || state.isGameOver || state.isPaused) return false;
+        const recorder = recorderRef.current;
+
+        accumulatorRef.current += frameTime;
+        let missed = false;
+        while (
+          accumulatorRef.current >= SIMULATION_TIMESTEP ||
+          (exact && accumulatorRef.current > 0)
+        ) {
+          const dt = Math.min(accumulatorRef.current, SIMULATION_TIMESTEP);
+          accumulatorRef.current -= dt;
+          const previous = state;
+          const frame = stepFrame(state, dt);
+          recorder?.recordFrame(dt);
+          state = frame.state;
+          previousStateRef.current = previous;
+
+          if (frame.missed) {
+            missed = true;
+            previousStateRef.current = null;
+            playMissEffects(previous, frame.gameOver);
+            onGameEvent?.({
+              type: "miss",
+              score: state.score,
+              pair: getShapePair(previous),
+              time: state.elapsedTime,
+            });
+          }
 
-      if (stateRef.current.isGameOver && !wasGameOver) {
-        audioService.playFailSound();
-        onGameOver(
-          stateRef.current.score,
-          stateRef.current.world,
-          stateRef.current.level,
-        );
-      } else {
-        // Just reset shape in Zen
-        audioService.playFailSound(); // Or a less "fail" sound?
-      }
-    }, [onGameOver, audioService]);
+          if (frame.gameOver) {
+            if (frame.timedOut) {
+              effectsRef.current = addCameraShake(
+                effectsRef.current,
+                GAME_OVER_SHAKE,
+              );
+            }
+            accumulatorRef.current = 0;
+            stateRef.current = state;
+            reportGameOver(state);
+            return missed;
+          }
+          // In Zen mode a miss doesn't end the game; keep simulating
+          if (frame.missed) audioService.playFailSound();
+        }
+        stateRef.current = state;
+        return missed;
+      },
+      [playMissEffects, onGameEvent, reportGameOver, audioService],
+    );
 
-    const handleTap = useCallback(() => {
+    /**
+     * Stack (or miss) the active shape.
+     * @param timestamp - When the input happened (ms, performance.now()
+     *   clock). The game is simulated up to that moment first, so the tap is
+     *   judged on the shape as it was then, not on the next frame.
+     */
+    const handleTap = useCallback((timestamp?: number) => {
       if (
         !stateRef.current ||
         stateRef.current.isGameOver ||
+        stateRef.current.isPaused ||
         !stateRef.current.activeShape
       )
         return;
 
-      // Check if active shape is contained
-      if (!checkContainment(stateRef.current)) {
-        miss();
-        return;
+      if (
+        timestamp !== undefined &&
+        lastTimeRef.current !== 0 &&
+        timestamp > lastTimeRef.current
+      ) {
+        const realTime = (timestamp - lastTimeRef.current) / 1000;
+        const frameTime = Math.min(realTime, MAX_FRAME_TIME);
+        lastTimeRef.current = timestamp;
+        effectsRef.current = updateEffects(effectsRef.current, frameTime);
+        const breached = advanceSimulation(frameTime, true);
+        if (realTime > MAX_FRAME_TIME) resyncBeat();
+        // The shape breached before the tap landed: too late
+        if (breached) return;
+        if (stateRef.current.isGameOver) return;
       }
 
-      // Stack the shape
-      const result = stackActiveShape(stateRef.current);
+      const previous = stateRef.current;
+      recorderRef.current?.recordEvent("tap", previous.elapsedTime);
+      const wasBossLevel = !!previous.isBossLevel;
+      const result = applyTap(previous);
       stateRef.current = result.state;
+      previousStateRef.current = null;
+      const { score, world, level, elapsedTime: time } = result.state;
+
+      if (result.missed) {
+        playMissEffects(previous, result.gameOver);
+        onGameEvent?.({
+          type: "miss",
+          score,
+          pair: getShapePair(previous),
+          time,
+        });
+        if (result.gameOver) {
+          reportGameOver(result.state);
+        } else {
+          // Just reset shape in Zen
+          audioService.playFailSound(); // Or a less "fail" sound?
+        }
+        return;
+      }
 
-      onScore(result.state.score);
+      onScore(result.state.score, result.grade);
       audioService.playStackSound(result.state.score);
+      audioService.setIntensity(
+        result.state.score,
+        result.state.level,
+        result.state.world,
+      );
+      if (result.state.rhythm) {
+        onRhythmUpdate?.(result.state.rhythm, result.onBeat);
+      }
+
+      // The stacked shape is the new container, drawn at the pre-tap zoom
+      const stacked = result.state.shapes[result.state.shapes.length - 1];
+      if (result.isPerfect) {
+        effectsRef.current = emitPerfectShards(
+          effectsRef.current,
+          stacked,
+          previous.zoom,
+        );
+      }
+      if (result.leveledUp) {
+        effectsRef.current = emitLevelUpRipple(
+          effectsRef.current,
+          (stacked.size / 2) * previous.zoom,
+          stacked.color,
+        );
+      }
+
+      onGameEvent?.({ type: "stack", score, grade: result.grade, time });
+      if (result.isPerfect) onGameEvent?.({ type: "perfect", score, time });
+      if (wasBossLevel) onGameEvent?.({ type: "bossCleared", score, time });
+      if (result.worldUp) onGameEvent?.({ type: "worldUp", world, time });
+      if (result.leveledUp) {
+        onGameEvent?.({ type: "levelUp", world, level, time });
+      }
 
       // Check for level up
       if (result.leveledUp) {
@@ -150,10 +435,52 @@ export const GameCanvas = forwardRef<GameCanvasHandle, GameCanvasProps>(
           audioService.playStackSound(result.state.score * 2); // Double pitch for level up
         }
       }
+    }, [
+      onScore,
+      onLevelUp,
+      onWorldUp,
+      onRhythmUpdate,
+      onGameEvent,
+      playMissEffects,
+      reportGameOver,
+      advanceSimulation,
+      resyncBeat,
+      audioService,
+    ]);
+
+    const handleInput = useCallback(
+      (event: InputEvent) => {
+        const state = stateRef.current;
+        if (!state || state.isGameOver) return;
+        switch (event.action) {
+          case "tap":
+            handleTap(event.timestamp);
+            break;
+          case "restart":
+            if (state.mode === "ZEN" && !state.isPaused) {
+              restartRequestedRef.current = true;
+            }
+            break;
+          case "undo":
+            if (state.mode === "ZEN" && !state.isPaused) {
+              undoRequestedRef.current = true;
+            }
+            break;
+          case "pause":
+            // Pausing again during the countdown cancels it
+            if (state.isPaused && state.resumeCountdown === 0) resume();
+            else pause();
+            break;
+        }
+      },
+      [handleTap, pause, resume],
+    );
 
-      // Spawn next active shape
-      stateRef.current = spawnActiveShape(stateRef.current);
-    }, [onScore, onLevelUp, onWorldUp, miss, audioService]);
+    useEffect(() => {
+      const canvas = canvasRef.current;
+      if (!canvas) return;
+      return attachInput(canvas, inputBindings, handleInput);
+    }, [inputBindings, handleInput]);
 
     useEffect(() => {
       const canvas = canvasRef.current;
@@ -163,6 +490,7 @@ export const GameCanvas = forwardRef<GameCanvasHandle, GameCanvasProps>(
       if (!ctx) return;
 
       lastTimeRef.current = 0; // Reset time when loop starts/restarts
+      accumulatorRef.current = 0;
 
       const resize = () => {
         const dpr = window.devicePixelRatio || 1;
@@ -186,139 +514,196 @@ export const GameCanvas = forwardRef<GameCanvasHandle, GameCanvasProps>(
       window.addEventListener("resize", resize);
       resize();
 
+      let animId = 0;
       const loop = (time: number) => {
-        if (!stateRef.current || stateRef.current.isGameOver) return;
+        if (!stateRef.current) return;
 
         if (lastTimeRef.current === 0) {
           lastTimeRef.current = time;
-          requestAnimationFrame(loop);
+          // The simulated clock starts now, so beat 0 of the metronome does too
+          if (stateRef.current.rhythm) {
+            audioService.startBeat(stateRef.current.rhythm.bpm, audioLatency);
+          } else {
+            audioService.startMusic();
+          }
+          onGameEvent?.({
+            type: "start",
+            mode: stateRef.current.mode,
+            time: stateRef.current.elapsedTime,
+          });
+          animId = requestAnimationFrame(loop);
           return;
         }
 
-        const dt = (time - lastTimeRef.current) / 1000;
+        // Clamp hitches (tab switches, GC pauses) so the run can't skip ahead
+        const realTime = (time - lastTimeRef.current) / 1000;
+        const frameTime = Math.min(realTime, MAX_FRAME_TIME);
         lastTimeRef.current = time;
+        // Particles and shake freeze along with the game
+        if (!stateRef.current.isPaused) {
+          effectsRef.current = updateEffects(effectsRef.current, frameTime);
+        }
+        const { width, height } = dimensionsRef.current;
 
-        const pulse = (Math.sin(time / 500) + 1) / 2;
+        if (stateRef.current.isGameOver) {
+          // Let the shatter and shake play out over the final frame
+          const delay = gameOverDelayRef.current;
+          if (delay === null) return;
+          drawGameState(
+            ctx,
+            stateRef.current,
+            width,
+            height,
+            time / 1000,
+            1,
+            theme,
+            effectsRef.current,
+          );
+          if (delay - frameTime > 0) {
+            gameOverDelayRef.current = delay - frameTime;
+            animId = requestAnimationFrame(loop);
+            return;
+          }
+          gameOverDelayRef.current = null;
+          const { score, world, level } = stateRef.current;
+          onGameOver(score, world, level, recorderRef.current?.getReplay());
+          return;
+        }
+
+        if (stateRef.current.isPaused) {
+          // Frozen: nothing is simulated or recorded, only the countdown runs
+          const before = stateRef.current;
+          const after = updateResumeCountdown(before, frameTime);
+          stateRef.current = after;
+          const count = Math.ceil(after.resumeCountdown);
+          if (count !== Math.ceil(before.resumeCountdown)) {
+            onCountdown?.(count);
+          }
+          if (!after.isPaused) {
+            accumulatorRef.current = 0;
+            previousStateRef.current = null;
+            audioService.resume();
+            onPauseChange?.(false);
+          }
+          drawGameState(
+            ctx,
+            after,
+            width,
+            height,
+            time / 1000,
+            1,
+            theme,
+            effectsRef.current,
+          );
+          animId = requestAnimationFrame(loop);
+          return;
+        }
 
         // Update state
         let state = stateRef.current;
+        const recorder = recorderRef.current;
 
         // Process restart request within the loop context
         if (restartRequestedRef.current) {
-          state = restartActiveShape(state);
+          recorder?.recordEvent("restart", state.elapsedTime);
+          state = applyRestart(state);
           restartRequestedRef.current = false;
+          previousStateRef.current = null;
           audioService.playStackSound(0);
         }
 
         if (undoRequestedRef.current) {
-          state = undoLastStack(state);
+          recorder?.recordEvent("undo", state.elapsedTime);
+          state = applyUndo(state);
           undoRequestedRef.current = false;
-          // If undo resulted in no active shape, spawn one
-          if (!state.activeShape) {
-            state = spawnActiveShape(state);
-          }
+          previousStateRef.current = null;
           onScore(state.score);
           onLevelUp(state.level);
           onWorldUp(state.world);
           audioService.playStackSound(state.score);
+          audioService.setIntensity(state.score, state.level, state.world);
         }
 
-        state = updateActiveShape(state, dt);
-        state = updateZoom(state, dt);
-        state = updateShapeRotations(state);
-        state = updateShapeOpacities(state);
+        stateRef.current = state;
+        advanceSimulation(frameTime, false);
+        if (realTime > MAX_FRAME_TIME) resyncBeat();
+        state = stateRef.current;
 
         if (state.mode === "TIME_ATTACK") {
-          state = updateTimer(state, dt);
           onTimeUpdate?.(state.timeRemaining ?? 0);
-          if (state.isGameOver) {
-            stateRef.current = state;
-            audioService.playFailSound();
-            onGameOver(state.score, state.world, state.level);
-            return;
-          }
         }
 
-        stateRef.current = state;
-
-        // Check auto-fail if shape starts poking out
-        if (!checkContainment(state)) {
-          miss();
-          // In Zen mode, we must continue the loop because miss() doesn't end the game
-          if (state.mode === "ZEN") {
-            requestAnimationFrame(loop);
-          }
+        if (state.isGameOver) {
+          animId = requestAnimationFrame(loop);
           return;
         }
 
-        // Render (use logical dimensions, not scaled canvas size)
-        const { width, height } = dimensionsRef.current;
-        clearCanvas(ctx, width, height);
-        const centerX = width / 2;
-        const centerY = height / 2;
-
-        ctx.save();
-
-        // Get world mechanics for current world
-        const mechanics = getWorldMechanics(state.world);
-        const timeInSeconds = time / 1000;
-
-        drawBackground(ctx, width, height, pulse, mechanics);
-
-        state.shapes.forEach((shape, index) => {
-          drawShape(
-            ctx,
-            shape,
-            centerX,
-            centerY,
-            state.zoom,
-            mechanics,
-            timeInSeconds,
-            true, // isStacked
-            index, // stackIndex
-            index === state.shapes.length - 1, // isContainer
-          );
-        });
-
-        if (state.activeShape) {
-          drawShape(
-            ctx,
-            state.activeShape,
-            centerX,
-            centerY,
-            state.zoom,
-            mechanics,
-            timeInSeconds,
-            false, // NOT stacked (active)
-            state.shapes.length, // stackIndex for phase offset
-          );
+        // Keep the ghost level with the player
+        let ghostState: GameState | null = null;
+        const race = ghostRaceRef.current;
+        if (race) {
+          const update = updateGhostRace(race, state.elapsedTime, state.score);
+          ghostRaceRef.current = update.race;
+          if (update.changed) {
+            onGhostUpdate?.(getGhostStatus(update.race), update.overtook);
+          }
+          if (isGhostShapeVisible(update.race, state.seed)) {
+            ghostState = update.race.cursor.state;
+          }
         }
 
-        ctx.restore();
+        // Render between the last two steps (use logical dimensions, not
+        // scaled canvas size)
+        const alpha = accumulatorRef.current / SIMULATION_TIMESTEP;
+        const previous = previousStateRef.current;
+        drawGameState(
+          ctx,
+          previous ? interpolateState(previous, state, alpha) : state,
+          width,
+          height,
+          time / 1000,
+          1,
+          theme,
+          effectsRef.current,
+          ghostState,
+        );
 
-        requestAnimationFrame(loop);
+        animId = requestAnimationFrame(loop);
       };
 
-      const animId = requestAnimationFrame(loop);
+      animId = requestAnimationFrame(loop);
       return () => {
         cancelAnimationFrame(animId);
         window.removeEventListener("resize", resize);
+        audioService.stopBeat();
+        audioService.stopMusic();
       };
     }, [
       audioService,
-      endGame,
-      miss,
+      audioLatency,
+      theme,
+      onGameEvent,
       onGameOver,
+      onPauseChange,
+      onCountdown,
+      advanceSimulation,
+      resyncBeat,
       onTimeUpdate,
       onScore,
       onLevelUp,
       onWorldUp,
+      onGhostUpdate,
     ]);
     return (
       <canvas
         ref={canvasRef}
-        onClick={handleTap}
-        style={{ width: "100%", height: "100%", cursor: "pointer" }}
+        style={{
+          width: "100%",
+          height: "100%",
+          cursor: "pointer",
+          // Taps arrive as pointer events; no panning, zooming or click delay
+          touchAction: "none",
+        }}
       />
     );
   },
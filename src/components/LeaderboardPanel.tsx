@@ -0,0 +1,78 @@
+import { useState } from "react";
+import {
+  LEADERBOARD_METRICS,
+  LEADERBOARD_METRIC_LABELS,
+  getLeaderboard,
+  type LeaderboardEntry,
+  type LeaderboardMetric,
+  type Leaderboards,
+} from "../core/leaderboard";
+import type { GameMode } from "../types";
+import { GAME_MODE_LABELS } from "../constants/game";
+import { formatDuration } from "../utils/format";
+
+interface LeaderboardPanelProps {
+  leaderboards: Leaderboards;
+  mode: GameMode;
+  /** Rank of the run just played per metric, highlighted on its board */
+  ranks?: Record<LeaderboardMetric, number | null> | null;
+}
+
+const formatEntry = (
+  entry: LeaderboardEntry,
+  metric: LeaderboardMetric,
+): string => {
+  switch (metric) {
+    case "score":
+      return String(entry.value);
+    case "progression":
+      return `W${entry.world}-${entry.level}`;
+    case "time":
+      return formatDuration(entry.value);
+  }
+};
+
+/**
+ * LeaderboardPanel - The local boards of one mode, one metric at a time.
+ */
+export const LeaderboardPanel = ({
+  leaderboards,
+  mode,
+  ranks = null,
+}: LeaderboardPanelProps) => {
+  const [metric, setMetric] = useState<LeaderboardMetric>("score");
+  const board = getLeaderboard(leaderboards, mode, metric);
+
+  return (
+    <div className="leaderboard">
+      <h3>{GAME_MODE_LABELS[mode]} TOP RUNS</h3>
+      <div className="leaderboard-tabs">
+        {LEADERBOARD_METRICS.map((candidate) => (
+          <button
+            key={candidate}
+            className={`leaderboard-tab ${candidate === metric ? "active" : ""}`}
+            onClick={() => setMetric(candidate)}
+          >
+            {LEADERBOARD_METRIC_LABELS[candidate]}
+          </button>
+        ))}
+      </div>
+      {board.length === 0 ? (
+        <p>No runs yet!</p>
+      ) : (
+        <ul>
+          {board.map((entry, idx) => (
+            <li
+              key={`${entry.timestamp}-${idx}`}
+              className={ranks?.[metric] === idx + 1 ? "current" : ""}
+            >
+              <span>#{idx + 1}</span>
+              <span>{formatEntry(entry, metric)}</span>
+              <span>{new Date(entry.timestamp).toLocaleDateString()}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import { useEffect, useState } from "react";
+import type {
+  ILeaderboardService,
+  LeaderboardPage,
+  LeaderboardScope,
+} from "../leaderboard/types";
+import type { SubmitOutcome } from "../leaderboard/submissionQueue";
+import type { GameMode } from "../types";
+
+interface OnlineLeaderboardProps {
+  service: ILeaderboardService;
+  playerId: string;
+  mode: GameMode;
+  /** Rank of the run on the local score board, null if it missed it */
+  localRank: number | null;
+  /** Result of submitting the run; null while it's being sent */
+  outcome: SubmitOutcome | null;
+}
+
+/** Entries shown per board */
+const PAGE_SIZE = 5;
+
+const describeOutcome = (outcome: SubmitOutcome | null): string => {
+  if (!outcome) return "…";
+  switch (outcome.status) {
+    case "accepted":
+      return `#${outcome.rank} of ${outcome.total}`;
+    case "queued":
+      return "offline - will submit later";
+    case "rejected":
+      return "not accepted";
+  }
+};
+
+/**
+ * OnlineLeaderboard - Local and global rank of the run just played, and the
+ * global and friends score boards of its mode. Shown only when a backend is
+ * configured; when it can't be reached the boards say so and the local
+ * leaderboards carry on as usual.
+ */
+export const OnlineLeaderboard = ({
+  service,
+  playerId,
+  mode,
+  localRank,
+  outcome,
+}: OnlineLeaderboardProps) => {
+  const [scope, setScope] = useState<LeaderboardScope>("global");
+  const [page, setPage] = useState<LeaderboardPage | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  // Refetch once the submission is answered, so the run itself shows
+  const answered = outcome !== null;
+  useEffect(() => {
+    let cancelled = false;
+    service
+      .getLeaderboard({
+        mode,
+        metric: "score",
+        scope,
+        playerId,
+        limit: PAGE_SIZE,
+      })
+      .then((result) => {
+        if (cancelled) return;
+        setPage(result);
+        setFailed(false);
+      })
+      .catch(() => {
+        if (!cancelled) setFailed(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [service, mode, scope, playerId, answered]);
+
+  return (
+    <div className="leaderboard online-leaderboard">
+      <p className="online-ranks">
+        <span>LOCAL {localRank !== null ? `#${localRank}` : "-"}</span>
+        <span>GLOBAL {describeOutcome(outcome)}</span>
+      </p>
+      <div className="leaderboard-tabs">
+        {(["global", "friends"] as LeaderboardScope[]).map((candidate) => (
+          <button
+            key={candidate}
+            className={`leaderboard-tab ${candidate === scope ? "active" : ""}`}
+            onClick={() => setScope(candidate)}
+          >
+            {candidate.toUpperCase()}
+          </button>
+        ))}
+      </div>
+      {failed ? (
+        <p>Leaderboards are offline right now.</p>
+      ) : !page ? (
+        <p>Loading…</p>
+      ) : page.entries.length === 0 ? (
+        <p>
+          {scope === "friends"
+            ? "No friends on this board yet."
+            : "No runs yet!"}
+        </p>
+      ) : (
+        <ul>
+          {page.entries.map((entry) => (
+            <li
+              key={entry.playerId}
+              className={entry.playerId === playerId ? "current" : ""}
+            >
+              <span>#{entry.rank}</span>
+              <span>{entry.value}</span>
+              <span>{entry.playerName}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
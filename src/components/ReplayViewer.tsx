@@ -0,0 +1,184 @@
+import { useRef, useEffect, useState } from "react";
+import {
+  createReplayCursor,
+  getReplayDuration,
+  isReplayFinished,
+  seekReplay,
+  type ReplayCursor,
+  type ReplayData,
+} from "../core/replay";
+import { drawGameState } from "../rendering/shapeRenderer";
+import { REPLAY_SPEEDS } from "../constants/game";
+import { DEFAULT_THEME, type Theme } from "../rendering/themes";
+
+interface ReplayViewerProps {
+  replay: ReplayData;
+  onClose: () => void;
+  theme?: Theme;
+}
+
+/**
+ * ReplayViewer - Plays back a recorded run through the simulation reducers.
+ * Supports play/pause, seeking and 0.5x-4x playback speed.
+ * Key it by replay so a new replay starts from a fresh cursor.
+ */
+export const ReplayViewer = ({
+  replay,
+  onClose,
+  theme = DEFAULT_THEME,
+}: ReplayViewerProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [initialCursor] = useState(() => createReplayCursor(replay));
+  const cursorRef = useRef<ReplayCursor>(initialCursor);
+  const playbackTimeRef = useRef(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [progress, setProgress] = useState(0);
+  const [hud, setHud] = useState({
+    score: initialCursor.state.score,
+    world: initialCursor.state.world,
+    level: initialCursor.state.level,
+  });
+  const duration = getReplayDuration(replay);
+
+  const syncHud = (cursor: ReplayCursor) => {
+    const { score, world, level } = cursor.state;
+    setHud((prev) =>
+      prev.score === score && prev.world === world && prev.level === level
+        ? prev
+        : { score, world, level },
+    );
+  };
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+
+    let width = 0;
+    let height = 0;
+    const resize = () => {
+      const dpr = window.devicePixelRatio || 1;
+      width = window.innerWidth;
+      height = window.innerHeight;
+      canvas.style.width = `${width}px`;
+      canvas.style.height = `${height}px`;
+      canvas.width = width * dpr;
+      canvas.height = height * dpr;
+      ctx.scale(dpr, dpr);
+    };
+    window.addEventListener("resize", resize);
+    resize();
+
+    let lastTime = 0;
+    let animId = 0;
+    const loop = (time: number) => {
+      const dt = lastTime === 0 ? 0 : (time - lastTime) / 1000;
+      lastTime = time;
+
+      if (isPlaying) {
+        playbackTimeRef.current = Math.min(
+          duration,
+          playbackTimeRef.current + dt * speed,
+        );
+        cursorRef.current = seekReplay(
+          replay,
+          cursorRef.current,
+          playbackTimeRef.current,
+        );
+        setProgress(playbackTimeRef.current);
+        syncHud(cursorRef.current);
+        if (isReplayFinished(replay, cursorRef.current)) {
+          setIsPlaying(false);
+        }
+      }
+
+      // Scale the recorded viewport to the current one
+      const scale = Math.min(width, height) / replay.viewportSize;
+      drawGameState(
+        ctx,
+        cursorRef.current.state,
+        width,
+        height,
+        cursorRef.current.state.elapsedTime,
+        scale,
+        theme,
+      );
+
+      animId = requestAnimationFrame(loop);
+    };
+
+    animId = requestAnimationFrame(loop);
+    return () => {
+      cancelAnimationFrame(animId);
+      window.removeEventListener("resize", resize);
+    };
+  }, [replay, isPlaying, speed, duration, theme]);
+
+  const handleSeek = (time: number) => {
+    playbackTimeRef.current = time;
+    cursorRef.current = seekReplay(replay, cursorRef.current, time);
+    setProgress(time);
+    syncHud(cursorRef.current);
+  };
+
+  const togglePlaying = () => {
+    if (!isPlaying && isReplayFinished(replay, cursorRef.current)) {
+      handleSeek(0);
+    }
+    setIsPlaying(!isPlaying);
+  };
+
+  const { score, world, level } = hud;
+
+  return (
+    <div className="replay-screen">
+      <div className="canvas-container">
+        <canvas ref={canvasRef} style={{ width: "100%", height: "100%" }} />
+      </div>
+
+      <div className="hud">
+        <div className="hud-row">
+          <span className="replay-badge">REPLAY</span>
+          <span className="world-badge">WORLD {world}</span>
+          <span className="level-badge">LVL {level}</span>
+        </div>
+        <div className="hud-row main-hud">
+          <span className="score">{score}</span>
+        </div>
+      </div>
+
+      <div className="replay-controls">
+        <input
+          className="replay-seek"
+          type="range"
+          aria-label="Seek"
+          min={0}
+          max={duration}
+          step={0.01}
+          value={progress}
+          onChange={(e) => handleSeek(Number(e.target.value))}
+        />
+        <div className="replay-buttons">
+          <button className="replay-play-btn" onClick={togglePlaying}>
+            {isPlaying ? "PAUSE" : "PLAY"}
+          </button>
+          {REPLAY_SPEEDS.map((s) => (
+            <button
+              key={s}
+              className={`mode-btn ${speed === s ? "active" : ""}`}
+              onClick={() => setSpeed(s)}
+            >
+              {s}x
+            </button>
+          ))}
+          <button className="menu-btn" onClick={onClose}>
+            CLOSE
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
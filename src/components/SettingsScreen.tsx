@@ -0,0 +1,135 @@
+import { useEffect, useState } from "react";
+import { THEMES, isThemeUnlocked, type Theme } from "../rendering/themes";
+import { ACHIEVEMENTS } from "../constants/achievements";
+import type { AchievementProgress } from "../core/achievements";
+import {
+  DEFAULT_INPUT_BINDINGS,
+  INPUT_ACTIONS,
+  INPUT_ACTION_LABELS,
+  formatKeyCode,
+  rebindKey,
+  type InputAction,
+  type InputBindings,
+} from "../input/bindings";
+
+interface SettingsScreenProps {
+  theme: Theme;
+  progress: AchievementProgress;
+  onSelectTheme: (theme: Theme) => void;
+  bindings: InputBindings;
+  onChangeBindings: (bindings: InputBindings) => void;
+  /** Calibrated input offset (ms) */
+  inputOffset: number;
+  onCalibrate: () => void;
+  onClose: () => void;
+}
+
+/**
+ * SettingsScreen - Theme picker, key bindings and input calibration. Locked
+ * themes name the achievement that unlocks them; a binding is changed by
+ * clicking it and pressing the new key.
+ */
+export const SettingsScreen = ({
+  theme,
+  progress,
+  onSelectTheme,
+  bindings,
+  onChangeBindings,
+  inputOffset,
+  onCalibrate,
+  onClose,
+}: SettingsScreenProps) => {
+  const [listening, setListening] = useState<InputAction | null>(null);
+
+  useEffect(() => {
+    if (!listening) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      onChangeBindings(rebindKey(bindings, listening, event.code));
+      setListening(null);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [listening, bindings, onChangeBindings]);
+
+  return (
+    <div className="screen settings-screen">
+      <h1 className="title">SETTINGS</h1>
+      <h3 className="settings-heading">THEME</h3>
+
+      <div className="theme-list">
+        {THEMES.map((candidate) => {
+          const unlocked = isThemeUnlocked(candidate, progress);
+          const achievement = ACHIEVEMENTS.find(
+            (definition) => definition.id === candidate.unlockedBy,
+          );
+          return (
+            <button
+              key={candidate.id}
+              className={`theme-card ${candidate.id === theme.id ? "active" : ""}`}
+              disabled={!unlocked}
+              onClick={() => onSelectTheme(candidate)}
+            >
+              <span className="theme-swatches">
+                {candidate.palette.map((color) => (
+                  <span
+                    key={color}
+                    className="theme-swatch"
+                    style={{ background: color }}
+                  />
+                ))}
+              </span>
+              <span className="theme-name">{candidate.name}</span>
+              {!unlocked && achievement && (
+                <span className="theme-lock">Unlock: {achievement.name}</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+
+      <h3 className="settings-heading">CONTROLS</h3>
+      <div className="binding-list">
+        {INPUT_ACTIONS.map((action) => (
+          <div key={action} className="binding-row">
+            <span className="binding-label">{INPUT_ACTION_LABELS[action]}</span>
+            <button
+              className={`binding-key ${listening === action ? "active" : ""}`}
+              onClick={() =>
+                setListening((current) => (current === action ? null : action))
+              }
+            >
+              {listening === action
+                ? "PRESS A KEY"
+                : bindings.keys[action].map(formatKeyCode).join(" / ") ||
+                  "UNBOUND"}
+            </button>
+          </div>
+        ))}
+      </div>
+      <p className="binding-hint">
+        Tap or click the game to stack. Gamepads: A to stack, Y restart, X
+        undo, Start pause.
+      </p>
+      <button
+        className="menu-btn"
+        onClick={() => onChangeBindings(DEFAULT_INPUT_BINDINGS)}
+      >
+        RESET CONTROLS
+      </button>
+
+      <h3 className="settings-heading">INPUT LATENCY</h3>
+      <p className="binding-hint">
+        Taps are judged {inputOffset}ms in the past to make up for screen and
+        touch delay.
+      </p>
+      <button className="menu-btn" onClick={onCalibrate}>
+        CALIBRATE
+      </button>
+
+      <button className="menu-btn" onClick={onClose}>
+        BACK
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import { useEffect, useState } from "react";
+import { profileStore as defaultProfileStore } from "../profile/profileStore";
+import type { IProfileStore } from "../profile/types";
+import { computeProfileStats, type ProfileStats } from "../core/stats";
+import { GAME_MODES, GAME_MODE_LABELS } from "../constants/game";
+import { formatDuration } from "../utils/format";
+import { getShapeDefinition } from "../shapes/registry";
+
+interface StatsScreenProps {
+  onClose: () => void;
+  store?: IProfileStore;
+}
+
+/**
+ * StatsScreen - Lifetime statistics from the player profile: totals, best
+ * run per mode, average score per day and which shape pairs end runs most.
+ */
+export const StatsScreen = ({
+  onClose,
+  store = defaultProfileStore,
+}: StatsScreenProps) => {
+  const [stats, setStats] = useState<ProfileStats | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    store.getRuns().then((runs) => {
+      if (!cancelled) setStats(computeProfileStats(runs));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [store]);
+
+  if (!stats) {
+    return (
+      <div className="screen stats-screen">
+        <h1 className="title">STATS</h1>
+        <p className="subtitle">Loading…</p>
+      </div>
+    );
+  }
+
+  const { totals, bests, trend, killers } = stats;
+  const trendMax = Math.max(1, ...trend.map((point) => point.averageScore));
+
+  return (
+    <div className="screen stats-screen">
+      <h1 className="title">STATS</h1>
+
+      <div className="stats-totals">
+        <div>
+          <span className="stats-value">{totals.runs}</span>
+          <span className="stats-label">RUNS</span>
+        </div>
+        <div>
+          <span className="stats-value">{totals.score}</span>
+          <span className="stats-label">STACKS</span>
+        </div>
+        <div>
+          <span className="stats-value">{totals.perfects}</span>
+          <span className="stats-label">PERFECTS</span>
+        </div>
+        <div>
+          <span className="stats-value">
+            {formatDuration(totals.playTime)}
+          </span>
+          <span className="stats-label">PLAYED</span>
+        </div>
+      </div>
+
+      <h3 className="settings-heading">BEST PER MODE</h3>
+      <table className="stats-table">
+        <thead>
+          <tr>
+            <th>MODE</th>
+            <th>RUNS</th>
+            <th>SCORE</th>
+            <th>FURTHEST</th>
+            <th>LONGEST</th>
+          </tr>
+        </thead>
+        <tbody>
+          {GAME_MODES.map((mode) => {
+            const best = bests[mode];
+            return (
+              <tr key={mode}>
+                <td>{GAME_MODE_LABELS[mode]}</td>
+                <td>{best?.runs ?? 0}</td>
+                <td>{best ? best.score : "-"}</td>
+                <td>{best ? `W${best.world}-${best.level}` : "-"}</td>
+                <td>{best ? formatDuration(best.duration) : "-"}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <h3 className="settings-heading">AVERAGE SCORE</h3>
+      {trend.length === 0 ? (
+        <p className="binding-hint">Play a run to start your trend.</p>
+      ) : (
+        <div className="stats-trend">
+          {trend.map((point) => (
+            <div
+              key={point.date}
+              className="stats-trend-bar"
+              style={{ height: `${(point.averageScore / trendMax) * 100}%` }}
+              title={`${point.date}: ${point.averageScore.toFixed(1)} over ${
+                point.runs
+              } runs`}
+            />
+          ))}
+        </div>
+      )}
+
+      <h3 className="settings-heading">WHAT GETS YOU</h3>
+      {killers.max === 0 ? (
+        <p className="binding-hint">No misses yet.</p>
+      ) : (
+        <table className="stats-heatmap">
+          <thead>
+            <tr>
+              <th>SHAPE ↓ IN →</th>
+              {killers.container.map((type) => (
+                <th key={type}>{getShapeDefinition(type).name}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {killers.active.map((active, row) => (
+              <tr key={active}>
+                <th>{getShapeDefinition(active).name}</th>
+                {killers.counts[row].map((count, column) => (
+                  <td
+                    key={killers.container[column]}
+                    style={{
+                      background: `rgba(255, 80, 80, ${count / killers.max})`,
+                    }}
+                  >
+                    {count || ""}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <button className="menu-btn" onClick={onClose}>
+        BACK
+      </button>
+    </div>
+  );
+};
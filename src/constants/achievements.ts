@@ -0,0 +1,91 @@
+import type { AchievementDefinition } from "../core/achievements";
+import type { StackGrade } from "../types";
+
+const isPerfectGrade = (grade: StackGrade | null): boolean =>
+  grade === "PERFECT" || grade === "CLOSE_CALL";
+
+/**
+ * Achievement definitions, in gallery order.
+ */
+export const ACHIEVEMENTS: AchievementDefinition[] = [
+  {
+    id: "first-stack",
+    name: "First Steps",
+    description: "Stack your first shape",
+    rule: { kind: "count", event: "stack", target: 1, scope: "lifetime" },
+  },
+  {
+    id: "perfect-alignment",
+    name: "Perfect Alignment",
+    description: "Land 10 perfect drops in a row",
+    rule: {
+      kind: "streak",
+      event: "stack",
+      when: (event) => isPerfectGrade(event.grade),
+      target: 10,
+      resetOn: ["miss"],
+    },
+  },
+  {
+    id: "speed-demon",
+    name: "Speed Demon",
+    description: "Reach level 5 in under 30 seconds",
+    rule: {
+      kind: "condition",
+      event: "levelUp",
+      when: (event) => event.world === 1 && event.level >= 5 && event.time < 30,
+    },
+  },
+  {
+    id: "boss-slayer",
+    name: "Boss Slayer",
+    description: "Clear a boss shape",
+    rule: { kind: "count", event: "bossCleared", target: 1, scope: "lifetime" },
+  },
+  {
+    id: "globetrotter",
+    name: "Globetrotter",
+    description: "Reach world 3",
+    rule: {
+      kind: "condition",
+      event: "worldUp",
+      when: (event) => event.world >= 3,
+    },
+  },
+  {
+    id: "centurion",
+    name: "Centurion",
+    description: "Stack 100 shapes in a single run",
+    rule: { kind: "count", event: "stack", target: 100, scope: "run" },
+  },
+  {
+    id: "close-caller",
+    name: "Living on the Edge",
+    description: "Pull off 25 close calls",
+    rule: {
+      kind: "count",
+      event: "stack",
+      when: (event) => event.grade === "CLOSE_CALL",
+      target: 25,
+      scope: "lifetime",
+    },
+  },
+  {
+    id: "perfectionist",
+    name: "Perfectionist",
+    description: "Land 100 perfect drops",
+    rule: { kind: "count", event: "perfect", target: 100, scope: "lifetime" },
+  },
+  {
+    id: "architect",
+    name: "Architect",
+    description: "Stack 1,000 shapes",
+    rule: { kind: "count", event: "stack", target: 1000, scope: "lifetime" },
+  },
+  {
+    id: "persistent",
+    name: "Never Give Up",
+    description: "Play 50 games",
+    rule: { kind: "count", event: "gameOver", target: 50, scope: "lifetime" },
+  },
+];
@@ -1,101 +1,51 @@
 import type { ShapeType } from "../utils/geometry";
+import type { GameMode, StackGrade } from "../types";
+import type { MechanicConfig } from "../mechanics/types";
 
 /**
- * World-specific visual and gameplay effects configuration.
- * Effects are additive - higher worlds include all lower world effects.
+ * World-specific visual and gameplay effects: the mechanic modules a world
+ * runs, in order, with their parameters (see src/mechanics).
  */
-export interface WorldMechanics {
-  /** Breathing: stacked shapes oscillate in size */
-  breathingEffect: boolean;
-  breathingAmplitude: number; // e.g., 0.03 = 3% size variation
-  breathingSpeed: number; // radians/sec
-
-  /** Growth pattern for active shape speed within a level */
-  growthPattern: "linear" | "accelerating" | "wave";
-
-  /** Wave: horizontal displacement of stacked shapes only */
-  waveEffect: boolean;
-  waveAmplitude: number; // pixels
-  waveSpeed: number; // radians/sec
-
-  /** Color shift: hue rotation for stacked shapes */
-  colorShift: boolean;
-  colorShiftSpeed: number; // degrees/sec
-
-  /** Eclipse: darker background and pulsing container visibility */
-  eclipseEffect: boolean;
-  eclipsePulseSpeed: number; // pulses per second (relative)
-}
+export type WorldMechanics = MechanicConfig[];
 
-const DEFAULT_MECHANICS: WorldMechanics = {
-  breathingEffect: false,
-  breathingAmplitude: 0,
-  breathingSpeed: 0,
-  growthPattern: "linear",
-  waveEffect: false,
-  waveAmplitude: 0,
-  waveSpeed: 0,
-  colorShift: false,
-  colorShiftSpeed: 0,
-  eclipseEffect: false,
-  eclipsePulseSpeed: 0,
+const BREATHING: MechanicConfig = {
+  id: "breathing",
+  amplitude: 0.03,
+  speed: 2,
 };
+const ACCELERATING: MechanicConfig = { id: "growth", pattern: "accelerating" };
+const WAVE: MechanicConfig = { id: "wave", amplitude: 15, speed: 3 };
+const COLOR_SHIFT: MechanicConfig = { id: "colorShift", speed: 30 };
+
+const WORLD_5: WorldMechanics = [BREATHING, ACCELERATING, WAVE, COLOR_SHIFT];
+const WORLD_6: WorldMechanics = [
+  ...WORLD_5,
+  { id: "eclipse", pulseSpeed: 0.5 },
+];
+// Worlds 8 and on each add one twist of their own to the World 7 effects
+const WORLD_7: WorldMechanics = [
+  ...WORLD_6,
+  { id: "orbit", radius: 0.35, speed: 0.8 },
+];
 
 /**
  * World mechanics configuration map.
- * Each world adds new effects while keeping previous ones.
+ * Worlds 1-7 each add new effects while keeping previous ones.
  */
 export const WORLD_MECHANICS: Record<number, WorldMechanics> = {
-  1: { ...DEFAULT_MECHANICS },
-  2: {
-    ...DEFAULT_MECHANICS,
-    breathingEffect: true,
-    breathingAmplitude: 0.03,
-    breathingSpeed: 2,
-  },
-  3: {
-    ...DEFAULT_MECHANICS,
-    breathingEffect: true,
-    breathingAmplitude: 0.03,
-    breathingSpeed: 2,
-    growthPattern: "accelerating",
-  },
-  4: {
-    ...DEFAULT_MECHANICS,
-    breathingEffect: true,
-    breathingAmplitude: 0.03,
-    breathingSpeed: 2,
-    growthPattern: "accelerating",
-    waveEffect: true,
-    waveAmplitude: 15,
-    waveSpeed: 3,
-  },
-  5: {
-    ...DEFAULT_MECHANICS,
-    breathingEffect: true,
-    breathingAmplitude: 0.03,
-    breathingSpeed: 2,
-    growthPattern: "accelerating",
-    waveEffect: true,
-    waveAmplitude: 15,
-    waveSpeed: 3,
-    colorShift: true,
-    colorShiftSpeed: 30,
-  },
-  6: {
-    ...DEFAULT_MECHANICS,
-    breathingEffect: true,
-    breathingAmplitude: 0.03,
-    breathingSpeed: 2,
-    growthPattern: "accelerating",
-    waveEffect: true,
-    waveAmplitude: 15,
-    waveSpeed: 3,
-    colorShift: true,
-    colorShiftSpeed: 30,
-    eclipseEffect: true,
-    eclipsePulseSpeed: 0.5,
-  },
+  1: [],
+  2: [BREATHING],
+  3: [BREATHING, ACCELERATING],
+  4: [BREATHING, ACCELERATING, WAVE],
+  5: WORLD_5,
+  6: WORLD_6,
+  7: WORLD_7,
+  8: [...WORLD_7, { id: "fog", reveal: 0.8, color: "rgba(8, 8, 16, 0.94)" }],
+  9: [...WORLD_7, { id: "mirror", axis: "horizontal" }],
+  10: [...WORLD_7, { id: "reverseSpin", interval: 1 }],
+  11: [...WORLD_7, { id: "ghostContainer", pulseSpeed: 0.4 }],
+  12: [...WORLD_7, { id: "gravity", sag: 0.12, tilt: 0.6, tiltSpeed: 0.7 }],
+  13: [...WORLD_7, { id: "strobe", frequency: 0.8, darkness: 0.9 }],
 };
 
 /**
@@ -105,10 +55,41 @@ export const WORLD_MECHANICS: Record<number, WorldMechanics> = {
 export const getWorldMechanics = (world: number): WorldMechanics => {
   return (
     WORLD_MECHANICS[world] ??
-    WORLD_MECHANICS[Object.keys(WORLD_MECHANICS).length - 1]
+    WORLD_MECHANICS[Object.keys(WORLD_MECHANICS).length]
   );
 };
 
+/**
+ * The simulation advances in fixed steps (seconds) regardless of the display
+ * refresh rate, so a 120 Hz tablet and a 60 Hz phone play the same game.
+ * Real frame times are clamped so a hitch can't fast-forward the run.
+ */
+export const SIMULATION_TIMESTEP = 1 / 120;
+export const MAX_FRAME_TIME = 0.25;
+
+/**
+ * Largest input latency compensation (seconds). Taps are judged on the active
+ * shape as it was this long ago at most.
+ */
+export const MAX_INPUT_OFFSET = 0.25;
+
+/** Seconds of 3-2-1 countdown between resuming and the game continuing */
+export const RESUME_COUNTDOWN = 3;
+
+/** Stacked shapes drift in alternating directions (radians/sec) */
+export const STACK_DRIFT_SPEED = 0.3;
+/** Shapes more than STACK_FADE_AGE stacks deep fade out (opacity/sec) */
+export const STACK_FADE_AGE = 10;
+export const STACK_FADE_SPEED = 0.3;
+
+/**
+ * Active shapes are stretched from the second world on: up to
+ * STRETCH_PER_WORLD more each world (aspect ratio 1 + stretch, tall or
+ * wide), capped at MAX_STRETCH.
+ */
+export const STRETCH_PER_WORLD = 0.12;
+export const MAX_STRETCH = 0.6;
+
 export const MIN_GROWTH_SPEED = 35;
 export const MAX_GROWTH_SPEED = 80;
 export const STACKS_PER_LEVEL = 3;
@@ -121,10 +102,70 @@ export const STACKS_PER_LEVEL = 3;
 export const REFERENCE_INITIAL_SIZE = 360;
 export const LEVELS_PER_WORLD = 5;
 
+/**
+ * How far (in world units, i.e. pixels at zoom 1) a child shape may overshoot
+ * its container before containment fails. Absorbs floating-point error only.
+ */
+export const CONTAINMENT_TOLERANCE = 0.5;
+
+/**
+ * Stack grade thresholds, checked in order, on the fraction of the container's
+ * available space the stacked shape used (size / max contained size).
+ * Because the max size is computed per shape pair and rotation, the same
+ * thresholds are equally reachable for a triangle in a circle or a circle in a
+ * square. A close call is a perfect cut so fine it nearly breached.
+ */
+export const STACK_GRADES: { grade: StackGrade; minUsage: number }[] = [
+  { grade: "CLOSE_CALL", minUsage: 0.99 },
+  { grade: "PERFECT", minUsage: 0.93 },
+  { grade: "GREAT", minUsage: 0.8 },
+  { grade: "GOOD", minUsage: 0.6 },
+];
+
+export const STACK_GRADE_LABELS: Record<StackGrade, string> = {
+  CLOSE_CALL: "CLOSE CALL!",
+  PERFECT: "PERFECT",
+  GREAT: "GREAT",
+  GOOD: "GOOD",
+};
+
+export const GAME_MODES: GameMode[] = [
+  "CLASSIC",
+  "ZEN",
+  "TIME_ATTACK",
+  "RHYTHM",
+  "DAILY",
+];
+
+export const GAME_MODE_LABELS: Record<GameMode, string> = {
+  CLASSIC: "CLASSIC",
+  ZEN: "ZEN",
+  TIME_ATTACK: "TIME",
+  RHYTHM: "RHYTHM",
+  DAILY: "DAILY",
+};
+
 // Mode specific constants
 export const TIME_ATTACK_START_TIME = 60;
 export const PERFECT_STACK_TIME_BONUS = 5;
 
+// Rhythm Mode
+export const RHYTHM_BPM = 100;
+/** Max distance from a beat (seconds) for a tap to count as on-beat */
+export const RHYTHM_BEAT_WINDOW = 0.12;
+/** Fraction of the guaranteed safe size the shape reaches on its target beat */
+export const RHYTHM_TARGET_USAGE = 0.9;
+/** Beats from spawn to target: starts relaxed and tightens with score */
+export const RHYTHM_MAX_BEATS_PER_SHAPE = 4;
+export const RHYTHM_MIN_BEATS_PER_SHAPE = 2;
+export const RHYTHM_STACKS_PER_BEAT_STEP = 10;
+/** On-beat taps needed per multiplier step, and the multiplier cap */
+export const RHYTHM_COMBO_STEP = 4;
+export const RHYTHM_MAX_MULTIPLIER = 4;
+
+// Replay playback speeds offered by the replay viewer
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4];
+
 export interface BossShapeConfig {
   type: ShapeType;
   growthSpeedMultiplier: number;
@@ -166,14 +207,6 @@ export const BOSS_SHAPES: Record<number, BossShapeConfig> = {
   },
 };
 
-export const SHAPE_UNLOCKS: Record<number, ShapeType[]> = {
-  1: ["circle", "octagon"],
-  2: ["pentagon", "hexagon"],
-  3: ["square"],
-  4: ["triangle"],
-  5: ["rectangle"],
-};
-
 export const LEVEL_ZOOM_MAP: Record<number, number> = {
   1: 1.0,
   2: 1.25,
@@ -194,13 +227,3 @@ export const COLORS = [
   "#8b5cf6", // violet
   "#ec4899", // pink
 ];
-
-export const getUnlockedShapes = (level: number): ShapeType[] => {
-  const unlocked: ShapeType[] = [];
-  for (let i = 1; i <= level; i++) {
-    if (SHAPE_UNLOCKS[i]) {
-      unlocked.push(...SHAPE_UNLOCKS[i]);
-    }
-  }
-  return unlocked;
-};
@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  applyGameEvent,
+  createAchievementProgress,
+  getAchievementCompletion,
+  type AchievementDefinition,
+  type AchievementProgress,
+} from "./achievements";
+import { ACHIEVEMENTS } from "../constants/achievements";
+import type { GameEvent } from "../types";
+
+const stack = (grade: "PERFECT" | "GOOD" | null = null): GameEvent => ({
+  type: "stack",
+  score: 1,
+  grade,
+  time: 1,
+});
+const start: GameEvent = { type: "start", mode: "CLASSIC", time: 0 };
+
+const applyAll = (
+  events: GameEvent[],
+  definitions: AchievementDefinition[] = ACHIEVEMENTS,
+  progress: AchievementProgress = createAchievementProgress()
+) => {
+  const unlocked: string[] = [];
+  events.forEach((event) => {
+    const result = applyGameEvent(progress, event, definitions, "2026-01-01");
+    progress = result.progress;
+    unlocked.push(...result.unlocked.map((definition) => definition.id));
+  });
+  return { progress, unlocked };
+};
+
+describe("achievements", () => {
+  it("should unlock a count achievement once its target is reached", () => {
+    const { progress, unlocked } = applyAll([start, stack()]);
+    expect(unlocked).toContain("first-stack");
+    expect(progress.unlocked["first-stack"]).toBe("2026-01-01");
+  });
+
+  it("should report each unlock only once", () => {
+    const { unlocked } = applyAll([start, stack(), stack()]);
+    expect(unlocked.filter((id) => id === "first-stack")).toHaveLength(1);
+  });
+
+  describe("streaks", () => {
+    it("should unlock Perfect Alignment after 10 perfect drops", () => {
+      const perfects = Array.from({ length: 10 }, () => stack("PERFECT"));
+      const events = [start, ...perfects];
+      expect(applyAll(events).unlocked).toContain("perfect-alignment");
+    });
+
+    it("should reset the streak on a non-perfect drop", () => {
+      const events = [
+        start,
+        ...Array.from({ length: 9 }, () => stack("PERFECT")),
+        stack("GOOD"),
+        stack("PERFECT"),
+      ];
+      const { progress, unlocked } = applyAll(events);
+      expect(unlocked).not.toContain("perfect-alignment");
+      expect(progress.counters["perfect-alignment"]).toBe(1);
+      expect(progress.best["perfect-alignment"]).toBe(9);
+    });
+  });
+
+  describe("conditions", () => {
+    it("should unlock Speed Demon for level 5 in under 30 seconds", () => {
+      const fast: GameEvent = { type: "levelUp", world: 1, level: 5, time: 25 };
+      const slow: GameEvent = { type: "levelUp", world: 1, level: 5, time: 45 };
+      expect(applyAll([fast]).unlocked).toContain("speed-demon");
+      expect(applyAll([slow]).unlocked).not.toContain("speed-demon");
+    });
+  });
+
+  it("should reset run counters when a game starts", () => {
+    const definition: AchievementDefinition = {
+      id: "run",
+      name: "Run",
+      description: "",
+      rule: { kind: "count", event: "stack", target: 3, scope: "run" },
+    };
+    const { progress, unlocked } = applyAll(
+      [start, stack(), stack(), start, stack()],
+      [definition]
+    );
+    expect(unlocked).toEqual([]);
+    expect(progress.counters.run).toBe(1);
+    expect(getAchievementCompletion(definition, progress)).toEqual({
+      current: 2,
+      target: 3,
+    });
+  });
+
+  it("should keep lifetime counters across games", () => {
+    const definition = ACHIEVEMENTS.find((a) => a.id === "architect")!;
+    const { progress } = applyAll([start, stack(), start, stack()]);
+    expect(getAchievementCompletion(definition, progress).current).toBe(2);
+  });
+});
@@ -0,0 +1,147 @@
+import type { GameEvent, GameEventType } from "../types";
+
+/**
+ * Achievements - declarative definitions evaluated against the stream of
+ * game events. Each definition owns one counter in the persisted progress:
+ * - count: matching events, over a run or over the player's lifetime
+ * - streak: consecutive matching events, reset by a non-matching one
+ * - condition: a single matching event unlocks it
+ */
+
+type EventOf<T extends GameEventType> = Extract<GameEvent, { type: T }>;
+
+interface RuleFor<T extends GameEventType> {
+  event: T;
+  /** Filter on the event; every event of the type matches if omitted */
+  when?: (event: EventOf<T>) => boolean;
+}
+
+type RulesFor<T extends GameEventType> =
+  | (RuleFor<T> & {
+      kind: "count";
+      target: number;
+      /** "run" counters reset when a game starts */
+      scope: "run" | "lifetime";
+    })
+  | (RuleFor<T> & {
+      kind: "streak";
+      target: number;
+      /** Other events that break the streak */
+      resetOn?: GameEventType[];
+    })
+  | (RuleFor<T> & { kind: "condition" });
+
+export type AchievementRule = {
+  [T in GameEventType]: RulesFor<T>;
+}[GameEventType];
+
+export interface AchievementDefinition {
+  id: string;
+  name: string;
+  description: string;
+  rule: AchievementRule;
+}
+
+/**
+ * Persisted achievement progress.
+ */
+export interface AchievementProgress {
+  /** Current counter or streak per achievement id */
+  counters: Record<string, number>;
+  /** Best counter reached per achievement id (run counters and streaks) */
+  best: Record<string, number>;
+  /** ISO timestamp of the unlock per achievement id */
+  unlocked: Record<string, string>;
+}
+
+export const createAchievementProgress = (): AchievementProgress => ({
+  counters: {},
+  best: {},
+  unlocked: {},
+});
+
+const matches = (rule: AchievementRule, event: GameEvent): boolean => {
+  if (rule.event !== event.type) return false;
+  // The mapped rule type guarantees `when` accepts events of rule.event
+  const when = rule.when as ((event: GameEvent) => boolean) | undefined;
+  return when ? when(event) : true;
+};
+
+/**
+ * Next counter value of a rule after an event.
+ */
+const updateCounter = (
+  rule: AchievementRule,
+  event: GameEvent,
+  counter: number
+): number => {
+  switch (rule.kind) {
+    case "count":
+      if (event.type === "start" && rule.scope === "run") return 0;
+      return matches(rule, event) ? counter + 1 : counter;
+    case "streak":
+      if (event.type === "start" || rule.resetOn?.includes(event.type)) {
+        return 0;
+      }
+      if (rule.event !== event.type) return counter;
+      return matches(rule, event) ? counter + 1 : 0;
+    case "condition":
+      return matches(rule, event) ? 1 : counter;
+  }
+};
+
+const getTarget = (rule: AchievementRule): number => {
+  return rule.kind === "condition" ? 1 : rule.target;
+};
+
+/**
+ * Feed a game event through every definition.
+ * @param unlockedAt - Timestamp recorded for new unlocks
+ * @returns The updated progress and the definitions unlocked by this event
+ */
+export const applyGameEvent = (
+  progress: AchievementProgress,
+  event: GameEvent,
+  definitions: AchievementDefinition[],
+  unlockedAt: string = new Date().toISOString()
+): { progress: AchievementProgress; unlocked: AchievementDefinition[] } => {
+  const counters = { ...progress.counters };
+  const best = { ...progress.best };
+  const unlocked = { ...progress.unlocked };
+  const newlyUnlocked: AchievementDefinition[] = [];
+
+  definitions.forEach((definition) => {
+    const { id, rule } = definition;
+    if (unlocked[id]) return;
+
+    const counter = updateCounter(rule, event, counters[id] ?? 0);
+    counters[id] = counter;
+    best[id] = Math.max(best[id] ?? 0, counter);
+
+    if (counter >= getTarget(rule)) {
+      unlocked[id] = unlockedAt;
+      newlyUnlocked.push(definition);
+    }
+  });
+
+  return { progress: { counters, best, unlocked }, unlocked: newlyUnlocked };
+};
+
+/**
+ * Progress towards an achievement for display, e.g. 7 of 10.
+ * Lifetime counts show the running total; runs and streaks show the best.
+ */
+export const getAchievementCompletion = (
+  definition: AchievementDefinition,
+  progress: AchievementProgress
+): { current: number; target: number } => {
+  const { id, rule } = definition;
+  const target = getTarget(rule);
+  if (progress.unlocked[id]) return { current: target, target };
+
+  const current =
+    rule.kind === "count" && rule.scope === "lifetime"
+      ? progress.counters[id] ?? 0
+      : progress.best[id] ?? 0;
+  return { current: Math.min(current, target), target };
+};
@@ -0,0 +1,54 @@
+import { describe, it, expect } from "vitest";
+import {
+  CALIBRATION_INTERVAL,
+  CALIBRATION_WARMUP_PULSES,
+  computeCalibration,
+  getPulseTimes,
+  getTapOffsets,
+} from "./calibration";
+
+const pulses = getPulseTimes(1000);
+const measured = pulses.slice(CALIBRATION_WARMUP_PULSES);
+
+describe("calibration", () => {
+  describe("getPulseTimes", () => {
+    it("should space pulses one interval apart", () => {
+      expect(pulses[0]).toBe(1000);
+      expect(pulses[1] - pulses[0]).toBe(CALIBRATION_INTERVAL);
+    });
+  });
+
+  describe("getTapOffsets", () => {
+    it("should match each tap to its nearest pulse", () => {
+      const taps = [measured[0] + 40, measured[1] - 20];
+      expect(getTapOffsets(pulses, taps)).toEqual([40, -20]);
+    });
+
+    it("should ignore warm-up taps", () => {
+      expect(getTapOffsets(pulses, [pulses[0] + 30])).toEqual([]);
+    });
+  });
+
+  describe("computeCalibration", () => {
+    it("should average how late the taps land", () => {
+      const taps = measured.map((pulse, i) => pulse + (i % 2 ? 50 : 70));
+      const result = computeCalibration(pulses, taps)!;
+      expect(result.offset).toBeCloseTo(60);
+      expect(result.spread).toBeCloseTo(10);
+      expect(result.taps).toBe(measured.length);
+    });
+
+    it("should discard stray taps far from the rest", () => {
+      const taps = [...measured.map((pulse) => pulse + 60), measured[3] + 300];
+      const result = computeCalibration(pulses, taps)!;
+      expect(result.offset).toBeCloseTo(60);
+      expect(result.taps).toBe(measured.length);
+    });
+
+    it("should give no result with too few taps", () => {
+      const taps = measured.slice(0, 3).map((pulse) => pulse + 60);
+      expect(computeCalibration(pulses, taps)).toBeNull();
+      expect(computeCalibration(pulses, [])).toBeNull();
+    });
+  });
+});
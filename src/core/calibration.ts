@@ -0,0 +1,93 @@
+/**
+ * Input latency calibration - the player taps along with a steady pulse and
+ * the average delay between pulse and tap becomes their input offset.
+ * Times are in milliseconds on the performance.now() clock, like input
+ * timestamps (see input/inputManager).
+ */
+
+/** Milliseconds between pulses */
+export const CALIBRATION_INTERVAL = 750;
+/** Pulses played in one calibration, the first few as a warm-up */
+export const CALIBRATION_PULSES = 12;
+export const CALIBRATION_WARMUP_PULSES = 2;
+/** Fewest usable taps for a result */
+export const MIN_CALIBRATION_TAPS = 5;
+/** Taps further than this from the median offset are discarded (ms) */
+const OUTLIER_THRESHOLD = 80;
+
+export interface CalibrationResult {
+  /** Average delay from pulse to tap (ms, negative = early) */
+  offset: number;
+  /** Standard deviation of the taps used (ms); large means unreliable */
+  spread: number;
+  /** Number of taps the result is based on */
+  taps: number;
+}
+
+/**
+ * Pulse times of a calibration starting at the given time.
+ */
+export const getPulseTimes = (start: number): number[] => {
+  return Array.from(
+    { length: CALIBRATION_PULSES },
+    (_, i) => start + i * CALIBRATION_INTERVAL
+  );
+};
+
+/**
+ * Signed offset of each tap to its nearest measured pulse. Taps during the
+ * warm-up, or closer to the midpoint between pulses than to a pulse, are
+ * dropped: they can't be attributed reliably.
+ */
+export const getTapOffsets = (
+  pulseTimes: number[],
+  tapTimes: number[]
+): number[] => {
+  const measured = pulseTimes.slice(CALIBRATION_WARMUP_PULSES);
+  const window = CALIBRATION_INTERVAL / 2;
+  const offsets: number[] = [];
+
+  tapTimes.forEach((tap) => {
+    const nearest = measured.reduce<number | null>((best, pulse) => {
+      if (best === null) return pulse;
+      return Math.abs(tap - pulse) < Math.abs(tap - best) ? pulse : best;
+    }, null);
+    if (nearest !== null && Math.abs(tap - nearest) < window) {
+      offsets.push(tap - nearest);
+    }
+  });
+  return offsets;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Compute the player's input offset from a calibration run.
+ * @returns null if there were too few usable taps
+ */
+export const computeCalibration = (
+  pulseTimes: number[],
+  tapTimes: number[]
+): CalibrationResult | null => {
+  const offsets = getTapOffsets(pulseTimes, tapTimes);
+  if (offsets.length === 0) return null;
+
+  // Ignore stray taps (a missed pulse, a double tap) around the median
+  const center = median(offsets);
+  const kept = offsets.filter(
+    (offset) => Math.abs(offset - center) <= OUTLIER_THRESHOLD
+  );
+  if (kept.length < MIN_CALIBRATION_TAPS) return null;
+
+  const offset = kept.reduce((sum, value) => sum + value, 0) / kept.length;
+  const variance =
+    kept.reduce((sum, value) => sum + (value - offset) ** 2, 0) / kept.length;
+
+  return { offset, spread: Math.sqrt(variance), taps: kept.length };
+};
@@ -0,0 +1,61 @@
+import { describe, it, expect } from "vitest";
+import {
+  getDailyKey,
+  getDailySeed,
+  getDailyStreak,
+  getPreviousDailyKey,
+  type DailyResult,
+} from "./daily";
+import { createInitialState, spawnActiveShape } from "./gameState";
+
+const played = (...dates: string[]): DailyResult[] =>
+  dates.map((date) => ({ date, score: 10, world: 1, level: 1 }));
+
+describe("daily", () => {
+  describe("getDailyKey", () => {
+    it("should format the local calendar date", () => {
+      expect(getDailyKey(new Date(2026, 0, 5, 23, 59))).toBe("2026-01-05");
+    });
+  });
+
+  describe("getDailySeed", () => {
+    it("should give every player the same seed on a day", () => {
+      expect(getDailySeed("2026-03-14")).toBe(getDailySeed("2026-03-14"));
+      expect(getDailySeed("2026-03-14")).not.toBe(getDailySeed("2026-03-15"));
+    });
+
+    it("should reproduce the same shape sequence for the same day", () => {
+      const spawnSequence = () => {
+        const seed = getDailySeed("2026-03-14");
+        const state = spawnActiveShape(createInitialState(800, "DAILY", seed));
+        return [state.activeShape, state.currentSpeed];
+      };
+      expect(spawnSequence()).toEqual(spawnSequence());
+    });
+  });
+
+  describe("getPreviousDailyKey", () => {
+    it("should cross month and year boundaries", () => {
+      expect(getPreviousDailyKey("2026-03-01")).toBe("2026-02-28");
+      expect(getPreviousDailyKey("2026-01-01")).toBe("2025-12-31");
+    });
+  });
+
+  describe("getDailyStreak", () => {
+    it("should count consecutive days ending today", () => {
+      const results = played("2026-03-12", "2026-03-13", "2026-03-14");
+      expect(getDailyStreak(results, "2026-03-14")).toBe(3);
+    });
+
+    it("should keep the streak alive until today is over", () => {
+      const results = played("2026-03-12", "2026-03-13");
+      expect(getDailyStreak(results, "2026-03-14")).toBe(2);
+    });
+
+    it("should break on a missed day", () => {
+      const results = played("2026-03-11", "2026-03-13", "2026-03-14");
+      expect(getDailyStreak(results, "2026-03-14")).toBe(2);
+      expect(getDailyStreak(results, "2026-03-16")).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Daily challenge - every player gets the same seeded run on a calendar day.
+ * Days are identified by their local calendar date ("YYYY-MM-DD"), so the
+ * challenge rolls over at local midnight.
+ */
+
+/**
+ * Result of the one scored attempt of a day.
+ */
+export interface DailyResult {
+  /** Calendar date ("YYYY-MM-DD") */
+  date: string;
+  score: number;
+  world: number;
+  level: number;
+  /** The attempt was quit or abandoned before its game over (scores 0) */
+  forfeited?: boolean;
+}
+
+/**
+ * Calendar date key ("YYYY-MM-DD") of a date in local time.
+ */
+export const getDailyKey = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+};
+
+/**
+ * Derive the run seed from a date key (32-bit FNV-1a hash).
+ * Every player on the same day gets the same shapes, colors, speeds and bosses.
+ */
+export const getDailySeed = (dateKey: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < dateKey.length; i++) {
+    hash ^= dateKey.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Date key of the day before the given one.
+ */
+export const getPreviousDailyKey = (dateKey: string): string => {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return getDailyKey(new Date(year, month - 1, day - 1));
+};
+
+/**
+ * Number of consecutive days played, ending today (or yesterday, so an
+ * unplayed today doesn't break the streak until it's over).
+ */
+export const getDailyStreak = (
+  results: DailyResult[],
+  todayKey: string
+): number => {
+  const played = new Set(results.map((result) => result.date));
+  let day = played.has(todayKey) ? todayKey : getPreviousDailyKey(todayKey);
+  let streak = 0;
+  while (played.has(day)) {
+    streak++;
+    day = getPreviousDailyKey(day);
+  }
+  return streak;
+};
@@ -1,29 +1,57 @@
 import type { GameState } from "../types";
-import type { Shape } from "../utils/geometry";
+import { getPosition, type Shape } from "../utils/geometry";
 import { createActiveShape, createInitialShape } from "../shapes";
-import { isContained } from "../utils/geometry";
+import { getSafeMargin, isContained } from "../utils/containment";
+import {
+  getCollisionShape,
+  getMechanicsGrowthMultiplier,
+  spawnWithMechanics,
+  updateMechanics,
+} from "../mechanics";
+import {
+  createRhythmState,
+  getRhythmSize,
+  planRhythmShape,
+  scoreRhythmTap,
+} from "./rhythm";
+import {
+  createSeededRandom,
+  generateSeed,
+  type RandomSource,
+} from "../utils/random";
 import {
   MIN_GROWTH_SPEED,
   MAX_GROWTH_SPEED,
   STACKS_PER_LEVEL,
   getZoomForLevel,
-  getWorldMechanics,
-  type WorldMechanics,
   LEVELS_PER_WORLD,
   TIME_ATTACK_START_TIME,
   PERFECT_STACK_TIME_BONUS,
   BOSS_SHAPES,
   REFERENCE_INITIAL_SIZE,
+  STACK_GRADES,
+  RHYTHM_BPM,
+  STACK_DRIFT_SPEED,
+  STACK_FADE_AGE,
+  STACK_FADE_SPEED,
+  RESUME_COUNTDOWN,
+  MAX_INPUT_OFFSET,
 } from "../constants/game";
-import type { GameMode } from "../types";
+import type { GameMode, StackGrade } from "../types";
 
 /**
  * Create the initial game state.
  * @param viewportSize - The smaller of viewport width/height
+ * @param mode - Game mode
+ * @param seed - PRNG seed; the same seed and inputs reproduce the same run
+ * @param inputOffset - Calibrated input latency in seconds; taps are judged
+ *   on the active shape as it was this long before they registered
  */
 export const createInitialState = (
   viewportSize: number,
-  mode: GameMode = "CLASSIC"
+  mode: GameMode = "CLASSIC",
+  seed: number = generateSeed(),
+  inputOffset: number = 0
 ): GameState => {
   const initialShape = createInitialShape(viewportSize);
   return {
@@ -37,19 +65,42 @@ export const createInitialState = (
     initialSize: initialShape.size,
     currentSpeed: MIN_GROWTH_SPEED,
     isGameOver: false,
+    isPaused: false,
+    resumeCountdown: 0,
     mode,
     timeRemaining: mode === "TIME_ATTACK" ? TIME_ATTACK_START_TIME : undefined,
     isBossLevel: false,
+    seed: seed >>> 0,
+    rngState: seed >>> 0,
+    elapsedTime: 0,
+    rhythm: mode === "RHYTHM" ? createRhythmState(RHYTHM_BPM) : undefined,
+    inputOffset: Math.min(MAX_INPUT_OFFSET, Math.max(0, inputOffset)),
+    activeShapeHistory: [],
   };
 };
 
 /**
  * Generate a random growth speed for the active shape.
+ * @param random - Random source (defaults to Math.random)
  */
-export const generateRandomSpeed = (): number => {
-  return (
-    MIN_GROWTH_SPEED + Math.random() * (MAX_GROWTH_SPEED - MIN_GROWTH_SPEED)
-  );
+export const generateRandomSpeed = (
+  random: RandomSource = Math.random
+): number => {
+  return MIN_GROWTH_SPEED + random() * (MAX_GROWTH_SPEED - MIN_GROWTH_SPEED);
+};
+
+/**
+ * Create a new active shape for the current world, adjusted by the world's
+ * mechanics (e.g. placed on an orbit around its container).
+ */
+const createWorldShape = (
+  state: GameState,
+  lastShape: Shape | null,
+  random: RandomSource
+): Shape => {
+  const shape = createActiveShape(state.level, lastShape, random, state.world);
+  if (!lastShape) return shape;
+  return spawnWithMechanics(shape, { state, container: lastShape, random });
 };
 
 /**
@@ -63,7 +114,8 @@ export const spawnActiveShape = (state: GameState): GameState => {
   // but they won't end the game on miss.
   const isBossLevel = !!BOSS_SHAPES[state.score + 1];
 
-  let activeShape = createActiveShape(state.level, lastShape);
+  const rng = createSeededRandom(state.rngState);
+  let activeShape = createWorldShape(state, lastShape, rng.next);
 
   if (isBossLevel) {
     const bossConfig = BOSS_SHAPES[state.score + 1];
@@ -74,37 +126,16 @@ export const spawnActiveShape = (state: GameState): GameState => {
     };
   }
 
-  const currentSpeed = generateRandomSpeed();
+  const currentSpeed = generateRandomSpeed(rng.next);
 
-  return {
+  return planRhythmShape({
     ...state,
     activeShape,
+    activeShapeHistory: [],
     currentSpeed,
     isBossLevel,
-  };
-};
-
-/**
- * Calculate growth speed multiplier based on world mechanics pattern.
- * @param pattern - The growth pattern from world mechanics
- * @param stackPositionInLevel - Current stack position within the level (0 to STACKS_PER_LEVEL-1)
- */
-export const getGrowthMultiplier = (
-  pattern: WorldMechanics["growthPattern"],
-  stackPositionInLevel: number
-): number => {
-  switch (pattern) {
-    case "linear":
-      return 1;
-    case "accelerating":
-      // Speed increases each stack within level: 1x, 1.25x, 1.5x (for STACKS_PER_LEVEL=3)
-      return 1 + stackPositionInLevel * 0.25;
-    case "wave":
-      // Sinusoidal pattern across level
-      return (
-        1 + Math.sin((stackPositionInLevel / STACKS_PER_LEVEL) * Math.PI) * 0.5
-      );
-  }
+    rngState: rng.getState(),
+  });
 };
 
 /**
@@ -115,20 +146,16 @@ export const getGrowthMultiplier = (
 export const updateActiveShape = (state: GameState, dt: number): GameState => {
   if (!state.activeShape) return state;
 
-  // Get world mechanics for growth pattern
-  const mechanics = getWorldMechanics(state.world);
-  const stackPositionInLevel = state.score % STACKS_PER_LEVEL;
-  const growthPatternMultiplier = getGrowthMultiplier(
-    mechanics.growthPattern,
-    stackPositionInLevel
-  );
+  // World mechanics set the growth pattern
+  const growthPatternMultiplier = getMechanicsGrowthMultiplier(state);
 
   let bossMultiplier = 1;
   let bossRotationMultiplier = 1;
   let pulseOffset = 0;
   let finalRotationSpeed = 0;
 
-  const time = Date.now() / 1000;
+  // Use the simulated clock so boss pulses replay identically for a given run
+  const time = state.elapsedTime;
 
   if (state.isBossLevel) {
     const bossConfig = BOSS_SHAPES[state.score + 1];
@@ -194,36 +221,83 @@ export const updateActiveShape = (state: GameState, dt: number): GameState => {
 
   const updatedShapeWithPulse: Shape = {
     ...updatedShape,
-    size: baseSize + pulseOffset * 5 * dt, // Scale pulseOffset to be a speed change
+    // Rhythm Mode: size follows the tempo clock instead of the growth speed
+    size: state.rhythm
+      ? getRhythmSize(state.rhythm, time)
+      : baseSize + pulseOffset * 5 * dt, // Scale pulseOffset to be a speed change
   };
 
+  return updateMechanics(
+    { ...state, activeShape: moveShape(updatedShapeWithPulse, dt) },
+    dt
+  );
+};
+
+/**
+ * Move a shape by its velocity. Mechanics steer it by changing the velocity
+ * (see updateMechanics).
+ * @param dt - Delta time in seconds
+ */
+export const moveShape = (shape: Shape, dt: number): Shape => {
+  if (!shape.velocity) return shape;
+  const position = getPosition(shape);
   return {
-    ...state,
-    activeShape: updatedShapeWithPulse,
+    ...shape,
+    position: {
+      x: position.x + shape.velocity.x * dt,
+      y: position.y + shape.velocity.y * dt,
+    },
   };
 };
 
+/**
+ * Advance the simulated game clock.
+ * @param state - Current game state
+ * @param dt - Delta time in seconds
+ */
+export const advanceClock = (state: GameState, dt: number): GameState => {
+  return { ...state, elapsedTime: state.elapsedTime + dt };
+};
+
 /**
  * Check if the active shape is still contained within the last stacked shape.
+ * The shape is judged as the world's mechanics place it (getCollisionShape).
  */
 export const checkContainment = (state: GameState): boolean => {
-  if (!state.activeShape) return true;
+  const activeShape = getCollisionShape(state);
+  if (!activeShape) return true;
   const lastShape = state.shapes[state.shapes.length - 1];
-  return isContained(state.activeShape, lastShape);
+  return isContained(activeShape, lastShape);
+};
+
+/**
+ * Grade a stack from the fraction of available space it used.
+ * @param usage - Active shape size / size it could reach (0..1)
+ * @returns The grade, or null if the stack was too cautious to grade
+ */
+export const getStackGrade = (usage: number): StackGrade | null => {
+  return STACK_GRADES.find((tier) => usage >= tier.minUsage)?.grade ?? null;
 };
 
 /**
  * Stack the active shape and update score/level.
  * Returns the new state and whether a level-up occurred.
+ * @param tapTime - Simulated time the tap is judged at (Rhythm Mode beats)
  */
 export const stackActiveShape = (
-  state: GameState
+  state: GameState,
+  tapTime: number = state.elapsedTime
 ): {
   state: GameState;
   leveledUp: boolean;
   newLevel: number;
   worldUp: boolean;
   isPerfect: boolean;
+  grade: StackGrade | null;
+  /** Size left before the shape would have breached, at tap time */
+  margin: number;
+  /** Rhythm Mode: whether the tap landed inside the beat window */
+  onBeat: boolean;
 } => {
   if (!state.activeShape) {
     return {
@@ -232,15 +306,26 @@ export const stackActiveShape = (
       newLevel: state.level,
       worldUp: false,
       isPerfect: false,
+      grade: null,
+      margin: 0,
+      onBeat: false,
     };
   }
 
   const lastShape = state.shapes[state.shapes.length - 1];
-  const sizeRatio = state.activeShape.size / lastShape.size;
-  // A perfect stack is within 95% of the last shape's size
-  const isPerfect = sizeRatio > 0.95;
-
-  const newShapes = [...state.shapes, { ...state.activeShape, opacity: 1 }];
+  // Stack the shape as it was judged, where the world's mechanics put it
+  const activeShape = getCollisionShape(state) ?? state.activeShape;
+  // Grade against the size this shape pair and rotation allow, tolerance
+  // included, so it can't turn overshooting tiny shapes into Perfects
+  const { usage, margin } = getSafeMargin(activeShape, lastShape);
+  const grade = getStackGrade(usage);
+  const isPerfect = grade === "PERFECT" || grade === "CLOSE_CALL";
+
+  // Stacked shapes stay where they landed
+  const newShapes = [
+    ...state.shapes,
+    { ...activeShape, opacity: 1, velocity: undefined },
+  ];
   const newScore = state.score + 1;
 
   // Time Attack: Bonus for perfect stack
@@ -253,6 +338,11 @@ export const stackActiveShape = (
     newTimeRemaining += PERFECT_STACK_TIME_BONUS;
   }
 
+  // Rhythm Mode: on-beat taps build the combo multiplier
+  const rhythmTap = state.rhythm
+    ? scoreRhythmTap(state.rhythm, tapTime)
+    : null;
+
   const totalLevels = Math.floor(newScore / STACKS_PER_LEVEL);
   const newWorld = Math.floor(totalLevels / LEVELS_PER_WORLD) + 1;
   const newLevel = (totalLevels % LEVELS_PER_WORLD) + 1;
@@ -280,11 +370,15 @@ export const stackActiveShape = (
       level: newLevel,
       targetZoom: newTargetZoom,
       timeRemaining: newTimeRemaining,
+      rhythm: rhythmTap?.rhythm ?? state.rhythm,
     },
     leveledUp,
     newLevel,
     worldUp,
     isPerfect,
+    grade,
+    margin,
+    onBeat: rhythmTap?.onBeat ?? false,
   };
 };
 
@@ -301,6 +395,7 @@ export const handleMiss = (state: GameState): GameState => {
         ...state.activeShape,
         size: state.shapes[state.shapes.length - 1].size * 0.05, // Restart at initial size
       },
+      activeShapeHistory: [],
     };
   }
   return setGameOver(state);
@@ -332,14 +427,17 @@ export const restartActiveShape = (state: GameState): GameState => {
   }
 
   const lastShape = state.shapes[state.shapes.length - 1] ?? null;
-  const newActiveShape = createActiveShape(state.level, lastShape);
-  const currentSpeed = generateRandomSpeed();
+  const rng = createSeededRandom(state.rngState);
+  const newActiveShape = createWorldShape(state, lastShape, rng.next);
+  const currentSpeed = generateRandomSpeed(rng.next);
 
-  return {
+  return planRhythmShape({
     ...state,
     activeShape: newActiveShape,
+    activeShapeHistory: [],
     currentSpeed,
-  };
+    rngState: rng.getState(),
+  });
 };
 
 /**
@@ -381,6 +479,38 @@ export const setGameOver = (state: GameState): GameState => {
   };
 };
 
+/**
+ * Pause the game. Pausing during a resume countdown cancels it.
+ */
+export const pauseGame = (state: GameState): GameState => {
+  if (state.isGameOver) return state;
+  return { ...state, isPaused: true, resumeCountdown: 0 };
+};
+
+/**
+ * Resume a paused game. The game stays frozen for RESUME_COUNTDOWN seconds
+ * so the player can get ready before the active shape grows again.
+ */
+export const resumeGame = (state: GameState): GameState => {
+  if (!state.isPaused || state.resumeCountdown > 0) return state;
+  return { ...state, resumeCountdown: RESUME_COUNTDOWN };
+};
+
+/**
+ * Run down the resume countdown; the game unpauses when it reaches zero.
+ * The simulated clock does not advance meanwhile.
+ * @param dt - Delta time in seconds
+ */
+export const updateResumeCountdown = (
+  state: GameState,
+  dt: number
+): GameState => {
+  if (!state.isPaused || state.resumeCountdown <= 0) return state;
+
+  const resumeCountdown = Math.max(0, state.resumeCountdown - dt);
+  return { ...state, resumeCountdown, isPaused: resumeCountdown > 0 };
+};
+
 /**
  * Interpolate zoom smoothly towards target.
  * @param state - Current game state
@@ -396,18 +526,25 @@ export const updateZoom = (
     return { ...state, zoom: state.targetZoom };
   }
 
-  const newZoom = state.zoom + (state.targetZoom - state.zoom) * lerpSpeed * dt;
+  // Exponential approach: the same zoom after 1s whatever the step size
+  const blend = 1 - Math.exp(-lerpSpeed * dt);
+  const newZoom = state.zoom + (state.targetZoom - state.zoom) * blend;
   return { ...state, zoom: newZoom };
 };
 
 /**
  * Update shape opacities (older shapes fade out).
+ * @param dt - Delta time in seconds
  */
-export const updateShapeOpacities = (state: GameState): GameState => {
+export const updateShapeOpacities = (
+  state: GameState,
+  dt: number
+): GameState => {
   const updatedShapes = state.shapes.map((shape, index) => {
     const age = state.shapes.length - 1 - index;
-    if (age > 10) {
-      return { ...shape, opacity: Math.max(0, shape.opacity - 0.005) };
+    if (age > STACK_FADE_AGE) {
+      const opacity = shape.opacity - STACK_FADE_SPEED * dt;
+      return { ...shape, opacity: Math.max(0, opacity) };
     }
     return shape;
   });
@@ -417,11 +554,16 @@ export const updateShapeOpacities = (state: GameState): GameState => {
 
 /**
  * Apply subtle rotation drift to stacked shapes.
+ * @param dt - Delta time in seconds
  */
-export const updateShapeRotations = (state: GameState): GameState => {
+export const updateShapeRotations = (
+  state: GameState,
+  dt: number
+): GameState => {
   const updatedShapes = state.shapes.map((shape, index) => ({
     ...shape,
-    rotation: shape.rotation + 0.005 * (index % 2 === 0 ? 1 : -1),
+    rotation:
+      shape.rotation + STACK_DRIFT_SPEED * dt * (index % 2 === 0 ? 1 : -1),
   }));
 
   return { ...state, shapes: updatedShapes };
@@ -0,0 +1,120 @@
+import { describe, it, expect } from "vitest";
+import {
+  MAX_GHOSTS,
+  addGhost,
+  createGhostRace,
+  getGhostKey,
+  isBetterRun,
+  isGhostShapeVisible,
+  updateGhostRace,
+  type GhostRun,
+} from "./ghost";
+import { createInitialState, spawnActiveShape } from "./gameState";
+import { applyTap, stepFrame } from "./simulation";
+import { createReplayRecorder } from "./replay";
+
+/**
+ * Record a CLASSIC run that taps every half second (its third tap misses).
+ */
+const recordGhost = (
+  frameCount: number,
+  timestamp = "2026-03-01"
+): GhostRun => {
+  const recorder = createReplayRecorder(7, "CLASSIC", 1000);
+  let state = spawnActiveShape(createInitialState(1000, "CLASSIC", 7));
+  for (let i = 0; i < frameCount && !state.isGameOver; i++) {
+    state = stepFrame(state, 1 / 120).state;
+    recorder.recordFrame(1 / 120);
+    if (i % 60 === 59) {
+      recorder.recordEvent("tap", state.elapsedTime);
+      state = applyTap(state).state;
+    }
+  }
+  return {
+    mode: "CLASSIC",
+    seed: 7,
+    score: state.score,
+    world: state.world,
+    level: state.level,
+    timestamp,
+    replay: recorder.getReplay(),
+  };
+};
+
+describe("ghost", () => {
+  describe("getGhostKey", () => {
+    it("should key random-seed runs by mode and seeded runs by seed", () => {
+      expect(getGhostKey("CLASSIC")).toBe("CLASSIC");
+      expect(getGhostKey("DAILY", 42)).toBe("DAILY:42");
+    });
+  });
+
+  describe("isBetterRun", () => {
+    it("should replace a missing or lower ghost only", () => {
+      const ghost = { ...recordGhost(0), score: 10 };
+      expect(isBetterRun(null, 0)).toBe(true);
+      expect(isBetterRun(ghost, 11)).toBe(true);
+      expect(isBetterRun(ghost, 10)).toBe(false);
+    });
+  });
+
+  describe("updateGhostRace", () => {
+    const run = recordGhost(600);
+
+    it("should show the ghost's score at the player's elapsed time", () => {
+      let race = createGhostRace(run);
+      race = updateGhostRace(race, 0.6, 0).race;
+      expect(race.cursor.state.score).toBe(1);
+      race = updateGhostRace(race, 100, 0).race;
+      expect(race.cursor.state.score).toBe(run.score);
+      expect(run.score).toBe(2);
+    });
+
+    it("should report changes and overtakes once", () => {
+      const race = createGhostRace(run);
+      expect(updateGhostRace(race, 0.1, 0).changed).toBe(false);
+
+      const first = updateGhostRace(race, 0.1, 1);
+      expect(first).toMatchObject({ changed: true, overtook: true });
+      expect(first.race.ahead).toBe(true);
+      const second = updateGhostRace(first.race, 0.2, 1);
+      expect(second).toMatchObject({ changed: false, overtook: false });
+
+      // The ghost stacks at 0.5s and draws level
+      const caught = updateGhostRace(second.race, 0.6, 1);
+      expect(caught).toMatchObject({ changed: true, overtook: false });
+      expect(caught.race.ahead).toBe(false);
+      expect(updateGhostRace(caught.race, 0.7, 2).overtook).toBe(true);
+    });
+  });
+
+  describe("isGhostShapeVisible", () => {
+    it("should only show the ghost's shape on its own seed", () => {
+      const race = createGhostRace(recordGhost(60));
+      expect(isGhostShapeVisible(race, 7)).toBe(true);
+      expect(isGhostShapeVisible(race, 8)).toBe(false);
+    });
+  });
+
+  describe("addGhost", () => {
+    it("should replace a ghost under the same key", () => {
+      const ghosts = addGhost({}, "CLASSIC", { ...recordGhost(0), score: 1 });
+      const better = { ...recordGhost(0), score: 5 };
+      const next = addGhost(ghosts, "CLASSIC", better);
+      expect(Object.keys(next)).toEqual(["CLASSIC"]);
+      expect(next.CLASSIC.score).toBe(5);
+    });
+
+    it("should drop the least recently played ghosts", () => {
+      let ghosts = {};
+      for (let day = 1; day <= MAX_GHOSTS + 2; day++) {
+        const date = `2026-03-${String(day).padStart(2, "0")}`;
+        ghosts = addGhost(ghosts, `DAILY:${day}`, recordGhost(0, date));
+      }
+      const keys = Object.keys(ghosts);
+      expect(keys).toHaveLength(MAX_GHOSTS);
+      expect(keys).not.toContain("DAILY:1");
+      expect(keys).not.toContain("DAILY:2");
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import type { GameMode } from "../types";
+import {
+  createReplayCursor,
+  seekReplay,
+  type ReplayCursor,
+  type ReplayData,
+} from "./replay";
+
+/**
+ * Ghost races - the player's best run of a mode (and seed, for seeded runs)
+ * is replayed alongside the live game, so the HUD can show where it was at
+ * the same elapsed time.
+ */
+
+/** Ghosts kept in storage (replays are large); the oldest are dropped */
+export const MAX_GHOSTS = 8;
+
+/**
+ * A finished run kept to race against.
+ */
+export interface GhostRun {
+  mode: GameMode;
+  seed: number;
+  score: number;
+  world: number;
+  level: number;
+  /** ISO date the run was played */
+  timestamp: string;
+  replay: ReplayData;
+}
+
+export interface GhostRace {
+  run: GhostRun;
+  /** The ghost's run, simulated up to the player's elapsed time */
+  cursor: ReplayCursor;
+  /** Whether the player is currently ahead of the ghost */
+  ahead: boolean;
+}
+
+/**
+ * Where the ghost of a run is stored: runs on a fixed seed race their own
+ * best, random-seed runs race the best of their mode.
+ * @param seed - The fixed seed, or undefined for random-seed runs
+ */
+export const getGhostKey = (mode: GameMode, seed?: number): string => {
+  return seed === undefined ? mode : `${mode}:${seed}`;
+};
+
+/**
+ * Whether a finished run beats the stored ghost and should replace it.
+ */
+export const isBetterRun = (
+  ghost: GhostRun | null,
+  score: number
+): boolean => {
+  return ghost === null || score > ghost.score;
+};
+
+/**
+ * Start racing a ghost from the beginning of its run.
+ */
+export const createGhostRace = (run: GhostRun): GhostRace => ({
+  run,
+  cursor: createReplayCursor(run.replay),
+  ahead: false,
+});
+
+/**
+ * What the HUD shows of the ghost.
+ */
+export interface GhostStatus {
+  score: number;
+  world: number;
+  ahead: boolean;
+}
+
+export const getGhostStatus = (race: GhostRace): GhostStatus => ({
+  score: race.cursor.state.score,
+  world: race.cursor.state.world,
+  ahead: race.ahead,
+});
+
+/**
+ * Move the ghost up to the player's elapsed time.
+ * @returns The updated race, whether its status changed, and whether the
+ *   player just overtook the ghost
+ */
+export const updateGhostRace = (
+  race: GhostRace,
+  time: number,
+  playerScore: number
+): { race: GhostRace; changed: boolean; overtook: boolean } => {
+  const cursor = seekReplay(race.run.replay, race.cursor, time);
+  const ahead = playerScore > cursor.state.score;
+  const next = { ...race, cursor, ahead };
+  const before = getGhostStatus(race);
+  const after = getGhostStatus(next);
+  return {
+    race: next,
+    changed:
+      before.score !== after.score ||
+      before.world !== after.world ||
+      before.ahead !== after.ahead,
+    overtook: ahead && !race.ahead,
+  };
+};
+
+/**
+ * Whether the ghost's active shape can be shown: only a run on the same seed
+ * spawns the same shapes as the player's.
+ */
+export const isGhostShapeVisible = (
+  race: GhostRace,
+  seed: number
+): boolean => {
+  return race.run.seed === seed && !race.cursor.state.isGameOver;
+};
+
+export type GhostRuns = Record<string, GhostRun>;
+
+/**
+ * Store a ghost under its key, dropping the least recently played ghosts
+ * beyond MAX_GHOSTS.
+ */
+export const addGhost = (
+  ghosts: GhostRuns,
+  key: string,
+  run: GhostRun
+): GhostRuns => {
+  const entries = Object.entries({ ...ghosts, [key]: run });
+  entries.sort(([, a], [, b]) => b.timestamp.localeCompare(a.timestamp));
+  return Object.fromEntries(entries.slice(0, MAX_GHOSTS));
+};
@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import {
+  LEADERBOARD_VERSION,
+  createLeaderboards,
+  getLeaderboard,
+  getProgression,
+  insertEntry,
+  migrateLeaderboards,
+  recordRun,
+  type LeaderboardEntry,
+  type LeaderboardRun,
+} from "./leaderboard";
+
+const NOW = "2026-03-01T12:00:00.000Z";
+
+const makeEntry = (value: number): LeaderboardEntry => ({
+  value,
+  score: value,
+  world: 1,
+  level: 1,
+  duration: 10,
+  timestamp: NOW,
+});
+
+const makeRun = (
+  overrides: Partial<LeaderboardRun> = {}
+): LeaderboardRun => ({
+  mode: "CLASSIC",
+  score: 12,
+  world: 2,
+  level: 3,
+  duration: 75,
+  timestamp: NOW,
+  ...overrides,
+});
+
+describe("leaderboard", () => {
+  describe("getProgression", () => {
+    it("should count levels across worlds", () => {
+      expect(getProgression(1, 1)).toBe(1);
+      expect(getProgression(2, 3)).toBe(8);
+    });
+  });
+
+  describe("insertEntry", () => {
+    it("should rank entries from highest to lowest", () => {
+      const board = [makeEntry(30), makeEntry(10)];
+      const result = insertEntry(board, makeEntry(20));
+      expect(result.rank).toBe(2);
+      expect(result.board.map((entry) => entry.value)).toEqual([30, 20, 10]);
+    });
+
+    it("should place a tie after the existing entry", () => {
+      const result = insertEntry([makeEntry(10)], makeEntry(10));
+      expect(result.rank).toBe(2);
+    });
+
+    it("should keep only the top entries", () => {
+      const board = [makeEntry(30), makeEntry(20)];
+      expect(insertEntry(board, makeEntry(5), 2)).toEqual({
+        board,
+        rank: null,
+      });
+      const result = insertEntry(board, makeEntry(25), 2);
+      expect(result.board.map((entry) => entry.value)).toEqual([30, 25]);
+    });
+  });
+
+  describe("recordRun", () => {
+    it("should rank the run on each metric of its mode only", () => {
+      const { leaderboards, ranks } = recordRun(
+        createLeaderboards(),
+        makeRun()
+      );
+      expect(ranks).toEqual({ score: 1, progression: 1, time: 1 });
+      expect(getLeaderboard(leaderboards, "CLASSIC", "score")[0].value).toBe(
+        12
+      );
+      expect(
+        getLeaderboard(leaderboards, "CLASSIC", "progression")[0].value
+      ).toBe(8);
+      expect(getLeaderboard(leaderboards, "CLASSIC", "time")[0].value).toBe(
+        75
+      );
+      expect(getLeaderboard(leaderboards, "ZEN", "score")).toEqual([]);
+    });
+
+    it("should rank metrics independently", () => {
+      const { leaderboards } = recordRun(createLeaderboards(), makeRun());
+      const result = recordRun(
+        leaderboards,
+        makeRun({ score: 50, world: 1, level: 1, duration: 20 })
+      );
+      expect(result.ranks).toEqual({ score: 1, progression: 2, time: 2 });
+    });
+  });
+
+  describe("migrateLeaderboards", () => {
+    it("should keep current leaderboards as they are", () => {
+      const { leaderboards } = recordRun(createLeaderboards(), makeRun());
+      const stored = JSON.parse(JSON.stringify(leaderboards));
+      expect(migrateLeaderboards(stored, null, NOW)).toEqual(leaderboards);
+    });
+
+    it("should start over from unknown data", () => {
+      expect(migrateLeaderboards({ boards: 3 }, null, NOW)).toEqual(
+        createLeaderboards()
+      );
+      expect(migrateLeaderboards(null, null, NOW).version).toBe(
+        LEADERBOARD_VERSION
+      );
+    });
+
+    it("should import legacy high scores as Classic progression", () => {
+      const legacy = [
+        { score: 10, date: "2025-12-24" },
+        { score: 13, date: "24/12/2025" },
+      ];
+      const leaderboards = migrateLeaderboards(null, legacy, NOW);
+      const board = getLeaderboard(leaderboards, "CLASSIC", "progression");
+      // 13 = world 2 level 3; 10 = world 1 level 5
+      expect(board.map((entry) => [entry.world, entry.level])).toEqual([
+        [2, 3],
+        [1, 5],
+      ]);
+      expect(board.map((entry) => entry.value)).toEqual([8, 5]);
+      expect(board[1].timestamp).toBe(new Date("2025-12-24").toISOString());
+      // An unparseable localised date falls back to the migration time
+      expect(board[0].timestamp).toBe(NOW);
+      expect(getLeaderboard(leaderboards, "CLASSIC", "score")).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import type { GameMode } from "../types";
+import { LEVELS_PER_WORLD } from "../constants/game";
+
+/**
+ * Local leaderboards - the top runs per mode, ranked separately by score,
+ * progression (levels cleared) and time survived, so a 60-second Time Attack
+ * run never competes with an endless Zen session.
+ *
+ * The persisted document carries a schema version; migrateLeaderboards
+ * upgrades anything older, including the pre-versioning high score list.
+ */
+
+export type LeaderboardMetric = "score" | "progression" | "time";
+
+export const LEADERBOARD_METRICS: LeaderboardMetric[] = [
+  "score",
+  "progression",
+  "time",
+];
+
+export const LEADERBOARD_METRIC_LABELS: Record<LeaderboardMetric, string> = {
+  score: "SCORE",
+  progression: "PROGRESSION",
+  time: "TIME",
+};
+
+/** Entries kept per board */
+export const LEADERBOARD_SIZE = 10;
+
+// Schema versions:
+// 1: per-mode, per-metric boards with ISO timestamps
+export const LEADERBOARD_VERSION = 1;
+
+export interface LeaderboardEntry {
+  /** The ranked value: score, levels reached or seconds survived */
+  value: number;
+  score: number;
+  world: number;
+  level: number;
+  /** Seconds survived */
+  duration: number;
+  /** When the run ended (ISO 8601) */
+  timestamp: string;
+}
+
+export type ModeLeaderboards = Record<LeaderboardMetric, LeaderboardEntry[]>;
+
+export interface Leaderboards {
+  version: number;
+  boards: Partial<Record<GameMode, ModeLeaderboards>>;
+}
+
+/**
+ * A finished run as the leaderboards see it.
+ */
+export interface LeaderboardRun {
+  mode: GameMode;
+  score: number;
+  world: number;
+  level: number;
+  duration: number;
+  timestamp: string;
+}
+
+export const createLeaderboards = (): Leaderboards => ({
+  version: LEADERBOARD_VERSION,
+  boards: {},
+});
+
+const createModeLeaderboards = (): ModeLeaderboards => ({
+  score: [],
+  progression: [],
+  time: [],
+});
+
+/**
+ * Levels reached across all worlds (world 1 level 1 = 1, world 2 level 1 =
+ * LEVELS_PER_WORLD + 1).
+ */
+export const getProgression = (world: number, level: number): number => {
+  return (world - 1) * LEVELS_PER_WORLD + level;
+};
+
+const getMetricValue = (
+  run: LeaderboardRun,
+  metric: LeaderboardMetric
+): number => {
+  switch (metric) {
+    case "score":
+      return run.score;
+    case "progression":
+      return getProgression(run.world, run.level);
+    case "time":
+      return run.duration;
+  }
+};
+
+/**
+ * Board for a mode and metric (empty if nothing was recorded yet).
+ */
+export const getLeaderboard = (
+  leaderboards: Leaderboards,
+  mode: GameMode,
+  metric: LeaderboardMetric
+): LeaderboardEntry[] => {
+  return leaderboards.boards[mode]?.[metric] ?? [];
+};
+
+/**
+ * Insert an entry, keeping the board sorted and at most `size` long.
+ * Ties go to the earlier run, so a record has to be beaten, not matched.
+ * @returns The new board and the entry's 1-based rank (null if it missed
+ *   the board)
+ */
+export const insertEntry = (
+  board: LeaderboardEntry[],
+  entry: LeaderboardEntry,
+  size: number = LEADERBOARD_SIZE
+): { board: LeaderboardEntry[]; rank: number | null } => {
+  const index = board.findIndex((existing) => entry.value > existing.value);
+  const position = index === -1 ? board.length : index;
+  if (position >= size) return { board, rank: null };
+
+  const next = [...board.slice(0, position), entry, ...board.slice(position)];
+  return { board: next.slice(0, size), rank: position + 1 };
+};
+
+/**
+ * Record a finished run on every board of its mode.
+ * @returns The updated leaderboards and the run's rank per metric
+ */
+export const recordRun = (
+  leaderboards: Leaderboards,
+  run: LeaderboardRun
+): {
+  leaderboards: Leaderboards;
+  ranks: Record<LeaderboardMetric, number | null>;
+} => {
+  const boards = leaderboards.boards[run.mode] ?? createModeLeaderboards();
+  const nextBoards = { ...boards };
+  const ranks = { score: null, progression: null, time: null } as Record<
+    LeaderboardMetric,
+    number | null
+  >;
+
+  LEADERBOARD_METRICS.forEach((metric) => {
+    const result = insertEntry(boards[metric], {
+      value: getMetricValue(run, metric),
+      score: run.score,
+      world: run.world,
+      level: run.level,
+      duration: run.duration,
+      timestamp: run.timestamp,
+    });
+    nextBoards[metric] = result.board;
+    ranks[metric] = result.rank;
+  });
+
+  return {
+    leaderboards: {
+      ...leaderboards,
+      boards: { ...leaderboards.boards, [run.mode]: nextBoards },
+    },
+    ranks,
+  };
+};
+
+/**
+ * Entry of the pre-versioning high score list: `score` was world * 5 + level
+ * and `date` a localised date string.
+ */
+interface LegacyHighScore {
+  score: number;
+  date: string;
+}
+
+const toIsoTimestamp = (date: string, fallback: string): string => {
+  const parsed = new Date(date);
+  return Number.isNaN(parsed.getTime()) ? fallback : parsed.toISOString();
+};
+
+/**
+ * Import the legacy high score list. It mixed every mode and only stored
+ * progression, so its entries land on the Classic progression board.
+ * @param now - ISO timestamp for entries whose date can't be parsed
+ */
+export const importLegacyHighScores = (
+  leaderboards: Leaderboards,
+  legacy: LegacyHighScore[],
+  now: string
+): Leaderboards => {
+  return legacy
+    .filter((entry) => Number.isFinite(entry.score) && entry.score > 0)
+    .reduce((current, entry) => {
+      // Undo world * 5 + level (levels run 1..LEVELS_PER_WORLD)
+      const world = Math.floor((entry.score - 1) / LEVELS_PER_WORLD);
+      const level = entry.score - world * LEVELS_PER_WORLD;
+      const boards = current.boards.CLASSIC ?? createModeLeaderboards();
+      const { board } = insertEntry(boards.progression, {
+        value: getProgression(world, level),
+        score: 0,
+        world,
+        level,
+        duration: 0,
+        timestamp: toIsoTimestamp(entry.date, now),
+      });
+      return {
+        ...current,
+        boards: {
+          ...current.boards,
+          CLASSIC: { ...boards, progression: board },
+        },
+      };
+    }, leaderboards);
+};
+
+/**
+ * Bring stored leaderboards up to the current schema.
+ * @param stored - Parsed leaderboards document, if any
+ * @param legacy - Parsed legacy high score list, if any
+ * @param now - ISO timestamp for legacy entries without a usable date
+ */
+export const migrateLeaderboards = (
+  stored: unknown,
+  legacy: unknown,
+  now: string
+): Leaderboards => {
+  let leaderboards = createLeaderboards();
+  const document = stored as Partial<Leaderboards> | null;
+  if (document && document.version === LEADERBOARD_VERSION) {
+    leaderboards = { ...leaderboards, boards: document.boards ?? {} };
+  }
+
+  if (Array.isArray(legacy)) {
+    leaderboards = importLegacyHighScores(leaderboards, legacy, now);
+  }
+  return leaderboards;
+};
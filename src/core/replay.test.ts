@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import { createInitialState, spawnActiveShape } from "./gameState";
+import { applyTap, applyUndo, stepFrame } from "./simulation";
+import {
+  createReplayRecorder,
+  createReplayCursor,
+  seekReplay,
+  stepReplay,
+  isReplayFinished,
+  getReplayDuration,
+} from "./replay";
+import type { GameMode, GameState } from "../types";
+
+/**
+ * Play a run the way GameCanvas does, tapping every 20 frames
+ * with irregular frame deltas, and record it.
+ */
+const playRecordedRun = (mode: GameMode, frameCount: number) => {
+  const recorder = createReplayRecorder(99, mode, 1000);
+  let state: GameState = spawnActiveShape(createInitialState(1000, mode, 99));
+
+  for (let i = 0; i < frameCount && !state.isGameOver; i++) {
+    if (mode === "ZEN" && i === 90) {
+      recorder.recordEvent("undo", state.elapsedTime);
+      state = applyUndo(state);
+    }
+    const dt = 0.012 + (i % 5) * 0.002;
+    state = stepFrame(state, dt).state;
+    recorder.recordFrame(dt);
+    if (i % 20 === 19 && !state.isGameOver) {
+      recorder.recordEvent("tap", state.elapsedTime);
+      state = applyTap(state).state;
+    }
+  }
+  return { replay: recorder.getReplay(), finalState: state };
+};
+
+describe("replay", () => {
+  describe("createReplayRecorder", () => {
+    it("should record frames and events with their frame index", () => {
+      const recorder = createReplayRecorder(1, "CLASSIC", 800);
+      recorder.recordFrame(0.016);
+      recorder.recordEvent("tap", 0.016);
+      const replay = recorder.getReplay();
+      expect(replay.seed).toBe(1);
+      expect(replay.viewportSize).toBe(800);
+      expect(replay.frames).toEqual([[0.016, 1]]);
+      expect(replay.events).toEqual([{ type: "tap", frame: 1, time: 0.016 }]);
+    });
+
+    it("should store runs of equal frame times once", () => {
+      const recorder = createReplayRecorder(1, "CLASSIC", 800);
+      [0.01, 0.01, 0.01, 0.004, 0.01].forEach(recorder.recordFrame);
+      expect(recorder.getReplay().frames).toEqual([
+        [0.01, 3],
+        [0.004, 1],
+        [0.01, 1],
+      ]);
+    });
+  });
+
+  describe("inputOffset", () => {
+    it("should be recorded and restored for playback", () => {
+      const recorder = createReplayRecorder(1, "CLASSIC", 800, 0.06);
+      const replay = recorder.getReplay();
+      expect(replay.inputOffset).toBe(0.06);
+      expect(createReplayCursor(replay).state.inputOffset).toBe(0.06);
+    });
+  });
+
+  describe("playback", () => {
+    it("should rebuild a run frame-for-frame", () => {
+      const { replay, finalState } = playRecordedRun("CLASSIC", 200);
+      expect(replay.events.length).toBeGreaterThan(0);
+
+      let cursor = createReplayCursor(replay);
+      while (!isReplayFinished(replay, cursor)) {
+        cursor = stepReplay(replay, cursor);
+      }
+      expect(cursor.state).toEqual(finalState);
+    });
+
+    it("should replay restart and undo events in ZEN", () => {
+      const { replay, finalState } = playRecordedRun("ZEN", 150);
+      expect(replay.events.some((e) => e.type === "undo")).toBe(true);
+
+      const cursor = seekReplay(replay, createReplayCursor(replay), Infinity);
+      expect(cursor.state).toEqual(finalState);
+    });
+  });
+
+  describe("seekReplay", () => {
+    it("should land on the same state when seeking backwards", () => {
+      const { replay } = playRecordedRun("CLASSIC", 200);
+      const start = createReplayCursor(replay);
+      const forward = seekReplay(replay, start, 1);
+      const end = seekReplay(replay, forward, Infinity);
+      const back = seekReplay(replay, end, 1);
+      expect(back.frame).toBe(forward.frame);
+      expect(back.state).toEqual(forward.state);
+    });
+  });
+
+  describe("getReplayDuration", () => {
+    it("should sum recorded frame deltas", () => {
+      const recorder = createReplayRecorder(1, "CLASSIC", 800);
+      recorder.recordFrame(0.5);
+      recorder.recordFrame(0.25);
+      expect(getReplayDuration(recorder.getReplay())).toBe(0.75);
+    });
+  });
+});
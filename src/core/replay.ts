@@ -0,0 +1,237 @@
+import type { GameMode, GameState } from "../types";
+import { createInitialState, spawnActiveShape } from "./gameState";
+import { applyRestart, applyTap, applyUndo, stepFrame } from "./simulation";
+
+/**
+ * Replay - records the inputs of a run and rebuilds it frame-for-frame.
+ * A run is fully determined by its seed, mode, viewport size, input offset,
+ * the dt of every simulated frame and the frame boundary at which each input
+ * was applied.
+ *
+ * Frame times are stored run-length encoded: the live loop simulates fixed
+ * steps, so nearly every frame is exactly SIMULATION_TIMESTEP and an hour of
+ * play is a handful of runs rather than 432,000 numbers.
+ */
+
+// 2: adds inputOffset
+// 3: shape registry (new shapes spawn from world 2)
+// 4: active shapes orbit their container from world 7
+// 5: ellipses, and active shapes stretched from world 2
+// 6: worlds 8-13 (reversed spin and gravity tilt; no more orbits after 7)
+// 7: frame times run-length encoded
+// 8: late taps judged where a moving active shape was
+// 9: concave containers' notch corners always measured against the child
+// 10: worlds 8-13 keep world 7's eclipse and orbit
+export const REPLAY_VERSION = 10;
+
+export type ReplayEventType = "tap" | "restart" | "undo";
+
+export interface ReplayEvent {
+  type: ReplayEventType;
+  /** Number of frames simulated before the event was applied */
+  frame: number;
+  /** Simulated game time (GameState.elapsedTime) when the event was applied */
+  time: number;
+}
+
+/**
+ * Consecutive frames simulated with the same delta time: [dt in seconds,
+ * number of frames].
+ */
+export type FrameRun = [dt: number, count: number];
+
+export interface ReplayData {
+  version: number;
+  seed: number;
+  mode: GameMode;
+  viewportSize: number;
+  /** Input latency compensation the run was played with (seconds) */
+  inputOffset: number;
+  /** Delta time of every simulated frame, as runs of equal frames */
+  frames: FrameRun[];
+  /** Inputs in the order they were applied */
+  events: ReplayEvent[];
+}
+
+/**
+ * Mutable recorder used by the live game loop (avoids per-frame allocations).
+ */
+export interface ReplayRecorder {
+  recordFrame: (dt: number) => void;
+  recordEvent: (type: ReplayEventType, time: number) => void;
+  getReplay: () => ReplayData;
+}
+
+/**
+ * Playback position within a replay.
+ */
+export interface ReplayCursor {
+  state: GameState;
+  /** Number of frames simulated so far */
+  frame: number;
+  /** Index of the next event to apply */
+  eventIndex: number;
+  /** Index of the frame run the next frame belongs to */
+  run: number;
+  /** Frames of that run simulated so far */
+  runFrame: number;
+}
+
+/**
+ * Create a recorder for a run started with the given parameters.
+ */
+export const createReplayRecorder = (
+  seed: number,
+  mode: GameMode,
+  viewportSize: number,
+  inputOffset: number = 0
+): ReplayRecorder => {
+  const frames: FrameRun[] = [];
+  const events: ReplayEvent[] = [];
+  let frameCount = 0;
+
+  return {
+    recordFrame: (dt) => {
+      const last = frames[frames.length - 1];
+      if (last && last[0] === dt) {
+        last[1]++;
+      } else {
+        frames.push([dt, 1]);
+      }
+      frameCount++;
+    },
+    recordEvent: (type, time) => {
+      events.push({ type, frame: frameCount, time });
+    },
+    getReplay: () => ({
+      version: REPLAY_VERSION,
+      seed,
+      mode,
+      viewportSize,
+      inputOffset,
+      frames: frames.map(([dt, count]): FrameRun => [dt, count]),
+      events: [...events],
+    }),
+  };
+};
+
+/**
+ * Apply a single recorded event through the simulation reducers.
+ */
+export const applyReplayEvent = (
+  state: GameState,
+  event: ReplayEvent
+): GameState => {
+  switch (event.type) {
+    case "tap":
+      return applyTap(state).state;
+    case "restart":
+      return applyRestart(state);
+    case "undo":
+      return applyUndo(state);
+  }
+};
+
+/**
+ * Apply every event recorded at the cursor's current frame boundary.
+ */
+const applyPendingEvents = (
+  replay: ReplayData,
+  cursor: ReplayCursor
+): ReplayCursor => {
+  let { state, eventIndex } = cursor;
+  while (
+    eventIndex < replay.events.length &&
+    replay.events[eventIndex].frame <= cursor.frame
+  ) {
+    state = applyReplayEvent(state, replay.events[eventIndex]);
+    eventIndex++;
+  }
+  return { ...cursor, state, eventIndex };
+};
+
+/**
+ * Create a cursor positioned at the start of the replay.
+ */
+export const createReplayCursor = (replay: ReplayData): ReplayCursor => {
+  const initialState = createInitialState(
+    replay.viewportSize,
+    replay.mode,
+    replay.seed,
+    replay.inputOffset
+  );
+  return applyPendingEvents(replay, {
+    state: spawnActiveShape(initialState),
+    frame: 0,
+    eventIndex: 0,
+    run: 0,
+    runFrame: 0,
+  });
+};
+
+/**
+ * Simulate the next recorded frame.
+ */
+export const stepReplay = (
+  replay: ReplayData,
+  cursor: ReplayCursor
+): ReplayCursor => {
+  if (isReplayFinished(replay, cursor)) return cursor;
+
+  const [dt, count] = replay.frames[cursor.run];
+  const result = stepFrame(cursor.state, dt);
+  const runFinished = cursor.runFrame + 1 >= count;
+  return applyPendingEvents(replay, {
+    ...cursor,
+    state: result.state,
+    frame: cursor.frame + 1,
+    run: runFinished ? cursor.run + 1 : cursor.run,
+    runFrame: runFinished ? 0 : cursor.runFrame + 1,
+  });
+};
+
+/**
+ * Move the cursor to the given simulated time.
+ * Seeking backwards re-simulates from the start.
+ * @param targetTime - Simulated time in seconds
+ */
+export const seekReplay = (
+  replay: ReplayData,
+  cursor: ReplayCursor,
+  targetTime: number
+): ReplayCursor => {
+  let next =
+    targetTime < cursor.state.elapsedTime ? createReplayCursor(replay) : cursor;
+
+  while (
+    !isReplayFinished(replay, next) &&
+    next.state.elapsedTime + replay.frames[next.run][0] <= targetTime
+  ) {
+    next = stepReplay(replay, next);
+  }
+  return next;
+};
+
+/**
+ * Whether every recorded frame has been simulated.
+ */
+export const isReplayFinished = (
+  replay: ReplayData,
+  cursor: ReplayCursor
+): boolean => {
+  return cursor.run >= replay.frames.length;
+};
+
+/**
+ * Number of frames the replay simulates.
+ */
+export const getFrameCount = (replay: ReplayData): number => {
+  return replay.frames.reduce((total, [, count]) => total + count, 0);
+};
+
+/**
+ * Total simulated duration of the replay in seconds.
+ */
+export const getReplayDuration = (replay: ReplayData): number => {
+  return replay.frames.reduce((total, [dt, count]) => total + dt * count, 0);
+};
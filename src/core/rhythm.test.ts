@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import {
+  createRhythmState,
+  getBeatDuration,
+  getBeatOffset,
+  getBeatsPerShape,
+  getGuaranteedSafeSize,
+  getRhythmSize,
+  scoreRhythmTap,
+} from "./rhythm";
+import { createInitialState, spawnActiveShape } from "./gameState";
+import { applyTap, stepFrame } from "./simulation";
+import { isContained } from "../utils/containment";
+import type { Shape } from "../utils/geometry";
+import {
+  RHYTHM_COMBO_STEP,
+  RHYTHM_MAX_BEATS_PER_SHAPE,
+  RHYTHM_MAX_MULTIPLIER,
+  RHYTHM_MIN_BEATS_PER_SHAPE,
+} from "../constants/game";
+
+const createShape = (type: Shape["type"], size: number): Shape => ({
+  type,
+  size,
+  rotation: 0,
+  color: "#fff",
+  opacity: 1,
+});
+
+describe("rhythm", () => {
+  describe("getBeatOffset", () => {
+    it("should measure the signed distance to the nearest beat", () => {
+      expect(getBeatDuration(120)).toBe(0.5);
+      expect(getBeatOffset(1.0, 120)).toBeCloseTo(0);
+      expect(getBeatOffset(1.1, 120)).toBeCloseTo(0.1);
+      expect(getBeatOffset(0.9, 120)).toBeCloseTo(-0.1);
+    });
+  });
+
+  describe("getBeatsPerShape", () => {
+    it("should tighten with score down to the minimum", () => {
+      expect(getBeatsPerShape(0)).toBe(RHYTHM_MAX_BEATS_PER_SHAPE);
+      expect(getBeatsPerShape(1000)).toBe(RHYTHM_MIN_BEATS_PER_SHAPE);
+    });
+  });
+
+  describe("getGuaranteedSafeSize", () => {
+    it("should fit the child at every relative rotation", () => {
+      const parent = createShape("square", 400);
+      const child = createShape("triangle", 0);
+      const size = getGuaranteedSafeSize(child, parent) * 0.99;
+      for (let i = 0; i < 36; i++) {
+        const rotation = (i / 36) * Math.PI * 2;
+        expect(isContained({ ...child, size, rotation }, parent, 0)).toBe(
+          true
+        );
+      }
+    });
+  });
+
+  describe("scoreRhythmTap", () => {
+    it("should build the multiplier with consecutive on-beat taps", () => {
+      let rhythm = createRhythmState(120);
+      for (let i = 1; i <= RHYTHM_COMBO_STEP; i++) {
+        rhythm = scoreRhythmTap(rhythm, i * 0.5).rhythm;
+      }
+      expect(rhythm.combo).toBe(RHYTHM_COMBO_STEP);
+      expect(rhythm.multiplier).toBe(2);
+    });
+
+    it("should reset the combo on an off-beat tap", () => {
+      let rhythm = createRhythmState(120);
+      rhythm = scoreRhythmTap(rhythm, 0.5).rhythm;
+      const result = scoreRhythmTap(rhythm, 0.75);
+      expect(result.onBeat).toBe(false);
+      expect(result.rhythm.combo).toBe(0);
+      expect(result.rhythm.multiplier).toBe(1);
+      expect(result.rhythm.points).toBe(2);
+    });
+
+    it("should cap the multiplier", () => {
+      let rhythm = createRhythmState(120);
+      for (let i = 1; i <= RHYTHM_COMBO_STEP * 10; i++) {
+        rhythm = scoreRhythmTap(rhythm, i * 0.5).rhythm;
+      }
+      expect(rhythm.multiplier).toBe(RHYTHM_MAX_MULTIPLIER);
+    });
+  });
+
+  describe("tempo-locked growth", () => {
+    it("should reach the target size exactly on the target beat", () => {
+      const state = spawnActiveShape(createInitialState(1000, "RHYTHM", 1));
+      const rhythm = state.rhythm!;
+      const beat = getBeatDuration(rhythm.bpm);
+
+      expect(rhythm.targetTime / beat).toBeCloseTo(
+        Math.round(rhythm.targetTime / beat)
+      );
+      expect(getRhythmSize(rhythm, rhythm.targetTime)).toBeCloseTo(
+        rhythm.targetSize
+      );
+    });
+
+    it("should stack safely and on-beat when tapping on the target beat", () => {
+      let state = spawnActiveShape(createInitialState(1000, "RHYTHM", 7));
+      const dt = 1 / 60;
+      while (state.elapsedTime + dt <= state.rhythm!.targetTime) {
+        state = stepFrame(state, dt).state;
+      }
+
+      const result = applyTap(state);
+      expect(result.stacked).toBe(true);
+      expect(result.onBeat).toBe(true);
+      expect(result.state.rhythm!.combo).toBe(1);
+    });
+  });
+});
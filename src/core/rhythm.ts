@@ -0,0 +1,130 @@
+import type { GameState, RhythmState } from "../types";
+import type { Shape } from "../utils/geometry";
+import { getMaxContainedSize } from "../utils/containment";
+import {
+  RHYTHM_BEAT_WINDOW,
+  RHYTHM_COMBO_STEP,
+  RHYTHM_MAX_BEATS_PER_SHAPE,
+  RHYTHM_MAX_MULTIPLIER,
+  RHYTHM_MIN_BEATS_PER_SHAPE,
+  RHYTHM_STACKS_PER_BEAT_STEP,
+  RHYTHM_TARGET_USAGE,
+} from "../constants/game";
+
+/**
+ * Rhythm Mode - a tempo clock drives growth so each active shape reaches its
+ * safe window exactly on a beat, and on-beat taps build a combo multiplier.
+ * Beat k falls at simulated time k * beatDuration; the audio engine schedules
+ * its metronome on the same grid.
+ */
+
+// Rotations sampled when looking for the rotation-independent safe size
+const ROTATION_SAMPLES = 72;
+
+export const getBeatDuration = (bpm: number): number => 60 / bpm;
+
+/**
+ * Signed offset in seconds from a time to the nearest beat
+ * (negative = early, positive = late).
+ */
+export const getBeatOffset = (time: number, bpm: number): number => {
+  const beat = getBeatDuration(bpm);
+  return time - Math.round(time / beat) * beat;
+};
+
+/**
+ * Number of beats an active shape takes to reach its target size.
+ */
+export const getBeatsPerShape = (score: number): number => {
+  return Math.max(
+    RHYTHM_MIN_BEATS_PER_SHAPE,
+    RHYTHM_MAX_BEATS_PER_SHAPE - Math.floor(score / RHYTHM_STACKS_PER_BEAT_STEP)
+  );
+};
+
+/**
+ * Largest size the child fits at any rotation relative to the parent, so the
+ * target beat stays safe however far the shapes rotate before it.
+ */
+export const getGuaranteedSafeSize = (child: Shape, parent: Shape): number => {
+  let min = Infinity;
+  for (let i = 0; i < ROTATION_SAMPLES; i++) {
+    const rotation = (i / ROTATION_SAMPLES) * Math.PI * 2;
+    min = Math.min(min, getMaxContainedSize({ ...child, rotation }, parent));
+  }
+  return min;
+};
+
+export const createRhythmState = (bpm: number): RhythmState => ({
+  bpm,
+  spawnTime: 0,
+  targetTime: 0,
+  startSize: 0,
+  targetSize: 0,
+  combo: 0,
+  multiplier: 1,
+  points: 0,
+});
+
+/**
+ * Lock the freshly spawned active shape's growth to the beat grid.
+ */
+export const planRhythmShape = (state: GameState): GameState => {
+  if (!state.rhythm || !state.activeShape) return state;
+
+  const container = state.shapes[state.shapes.length - 1];
+  const beat = getBeatDuration(state.rhythm.bpm);
+  const targetBeat =
+    Math.floor(state.elapsedTime / beat) + getBeatsPerShape(state.score);
+  const targetSize =
+    getGuaranteedSafeSize(state.activeShape, container) * RHYTHM_TARGET_USAGE;
+
+  return {
+    ...state,
+    rhythm: {
+      ...state.rhythm,
+      spawnTime: state.elapsedTime,
+      targetTime: targetBeat * beat,
+      startSize: state.activeShape.size,
+      targetSize,
+    },
+  };
+};
+
+/**
+ * Size of the tempo-locked active shape at a given time. Growth continues at
+ * the same rate past the target beat, so late taps eventually breach.
+ */
+export const getRhythmSize = (rhythm: RhythmState, time: number): number => {
+  const progress =
+    (time - rhythm.spawnTime) / (rhythm.targetTime - rhythm.spawnTime);
+  return rhythm.startSize + (rhythm.targetSize - rhythm.startSize) * progress;
+};
+
+/**
+ * Score a successful stack: on-beat taps extend the combo, others reset it.
+ * @param time - Simulated tap time in seconds
+ */
+export const scoreRhythmTap = (
+  rhythm: RhythmState,
+  time: number
+): { rhythm: RhythmState; onBeat: boolean; offset: number } => {
+  const offset = getBeatOffset(time, rhythm.bpm);
+  const onBeat = Math.abs(offset) <= RHYTHM_BEAT_WINDOW;
+  const combo = onBeat ? rhythm.combo + 1 : 0;
+  const multiplier = Math.min(
+    RHYTHM_MAX_MULTIPLIER,
+    1 + Math.floor(combo / RHYTHM_COMBO_STEP)
+  );
+
+  return {
+    rhythm: {
+      ...rhythm,
+      combo,
+      multiplier,
+      points: rhythm.points + multiplier,
+    },
+    onBeat,
+    offset,
+  };
+};
@@ -0,0 +1,104 @@
+import { describe, it, expect } from "vitest";
+import { createInitialState, spawnActiveShape } from "./gameState";
+import { stepFrame } from "./simulation";
+import {
+  getActiveShapeAt,
+  getJudgedState,
+  recordActiveShape,
+} from "./shapeHistory";
+import type { GameState } from "../types";
+
+const runFrames = (state: GameState, count: number, dt = 0.01) => {
+  let next = state;
+  for (let i = 0; i < count; i++) next = stepFrame(next, dt).state;
+  return next;
+};
+
+describe("shapeHistory", () => {
+  describe("recordActiveShape", () => {
+    it("should keep nothing without an input offset", () => {
+      const state = spawnActiveShape(createInitialState(1000, "CLASSIC", 1));
+      expect(recordActiveShape(state).activeShapeHistory).toEqual([]);
+    });
+
+    it("should only keep snapshots back to the input offset", () => {
+      const state = spawnActiveShape(
+        createInitialState(1000, "CLASSIC", 1, 0.05)
+      );
+      const history = runFrames(state, 20).activeShapeHistory;
+      // 0.05s at 0.01s steps, plus the snapshot to interpolate from
+      expect(history.length).toBeLessThanOrEqual(7);
+      expect(history[0].time).toBeLessThanOrEqual(0.15 + 1e-9);
+    });
+  });
+
+  describe("getActiveShapeAt", () => {
+    it("should interpolate between recorded steps", () => {
+      const state = runFrames(
+        spawnActiveShape(createInitialState(1000, "CLASSIC", 1, 0.1)),
+        10
+      );
+      const [a, b] = state.activeShapeHistory;
+      const shape = getActiveShapeAt(state, (a.time + b.time) / 2)!;
+      expect(shape.size).toBeCloseTo((a.shape.size + b.shape.size) / 2);
+    });
+
+    it("should interpolate where a moving shape was", () => {
+      const state = spawnActiveShape(
+        createInitialState(1000, "CLASSIC", 1, 0.1)
+      );
+      const moving = runFrames(
+        {
+          ...state,
+          activeShape: {
+            ...state.activeShape!,
+            position: { x: 0, y: 0 },
+            velocity: { x: 100, y: -50 },
+          },
+        },
+        20
+      );
+      const [a, b] = moving.activeShapeHistory;
+      const shape = getActiveShapeAt(moving, (a.time + b.time) / 2)!;
+      expect(shape.position!.x).toBeCloseTo(
+        (a.shape.position!.x + b.shape.position!.x) / 2
+      );
+      expect(shape.position!.y).toBeCloseTo(
+        (a.shape.position!.y + b.shape.position!.y) / 2
+      );
+
+      // Judged a tenth of a second back, it was 10 units behind
+      const judged = getJudgedState(moving).activeShape!;
+      expect(judged.position!.x).toBeCloseTo(
+        moving.activeShape!.position!.x - 10
+      );
+    });
+
+    it("should give the current shape for the present", () => {
+      const state = runFrames(
+        spawnActiveShape(createInitialState(1000, "CLASSIC", 1, 0.1)),
+        10
+      );
+      expect(getActiveShapeAt(state, state.elapsedTime)).toBe(
+        state.activeShape
+      );
+    });
+  });
+
+  describe("getJudgedState", () => {
+    it("should rewind the active shape by the input offset", () => {
+      const state = runFrames(
+        spawnActiveShape(createInitialState(1000, "CLASSIC", 1, 0.05)),
+        20
+      );
+      const judged = getJudgedState(state);
+      expect(judged.activeShape!.size).toBeLessThan(state.activeShape!.size);
+      expect(judged.score).toBe(state.score);
+    });
+
+    it("should leave the state alone without an input offset", () => {
+      const state = spawnActiveShape(createInitialState(1000, "CLASSIC", 1));
+      expect(getJudgedState(state)).toBe(state);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import type { ActiveShapeSnapshot, GameState } from "../types";
+import { getPosition, type Point, type Shape } from "../utils/geometry";
+
+/**
+ * Active shape history - the last moments of the active shape, kept so a tap
+ * can be judged on the shape the player actually saw. Display and touch
+ * latency mean a tap registers a little after the player reacted; with a
+ * calibrated input offset, the tap is judged at (tap time - offset).
+ *
+ * The history only spans the current active shape: it is cleared whenever a
+ * new shape spawns or restarts, so a late tap can never stack a shape that is
+ * already gone.
+ */
+
+/**
+ * Record the active shape as it is now (call once per simulation step).
+ * Snapshots older than the input offset (plus one, to interpolate from) are
+ * dropped; without an offset nothing is kept.
+ */
+export const recordActiveShape = (state: GameState): GameState => {
+  if (!state.activeShape || state.inputOffset <= 0) return state;
+
+  const oldest = state.elapsedTime - state.inputOffset;
+  const history = [
+    ...state.activeShapeHistory,
+    { time: state.elapsedTime, shape: state.activeShape },
+  ];
+  // Keep the newest snapshot at or before the oldest time still needed
+  let start = 0;
+  while (start + 1 < history.length && history[start + 1].time <= oldest) {
+    start++;
+  }
+
+  return { ...state, activeShapeHistory: history.slice(start) };
+};
+
+const lerp = (a: number, b: number, t: number): number => a + (b - a) * t;
+
+const lerpPoint = (a: Point, b: Point, t: number): Point => ({
+  x: lerp(a.x, b.x, t),
+  y: lerp(a.y, b.y, t),
+});
+
+/**
+ * An active shape part-way between two steps: size, rotation, position and
+ * stretch are blended, everything else comes from the later step.
+ * @param t - Position between the steps (0 = before, 1 = after)
+ */
+export const interpolateShape = (
+  before: Shape,
+  after: Shape,
+  t: number
+): Shape => {
+  const shape: Shape = {
+    ...after,
+    size: lerp(before.size, after.size, t),
+    rotation: lerp(before.rotation, after.rotation, t),
+  };
+  // Shapes that move or stretch are blended there too
+  if (before.position || after.position) {
+    shape.position = lerpPoint(getPosition(before), getPosition(after), t);
+  }
+  if (before.aspectRatio !== after.aspectRatio) {
+    shape.aspectRatio = lerp(
+      before.aspectRatio ?? 1,
+      after.aspectRatio ?? 1,
+      t
+    );
+  }
+  if (before.skew !== after.skew) {
+    shape.skew = lerp(before.skew ?? 0, after.skew ?? 0, t);
+  }
+  return shape;
+};
+
+/**
+ * The active shape as it was at a past simulated time, interpolated between
+ * recorded steps. Times before the shape's first snapshot give that snapshot;
+ * times at or after the last one give the current shape.
+ */
+export const getActiveShapeAt = (
+  state: GameState,
+  time: number
+): Shape | null => {
+  const history: ActiveShapeSnapshot[] = state.activeShapeHistory;
+  if (!state.activeShape || history.length === 0) return state.activeShape;
+  if (time >= history[history.length - 1].time) return state.activeShape;
+  if (time <= history[0].time) return history[0].shape;
+
+  let index = 0;
+  while (history[index + 1].time < time) index++;
+  const before = history[index];
+  const after = history[index + 1];
+  const t = (time - before.time) / (after.time - before.time);
+  return interpolateShape(before.shape, after.shape, t);
+};
+
+/**
+ * The state a tap is judged on: the active shape rewound by the input offset.
+ * Everything else (clock, stack, score) stays current.
+ */
+export const getJudgedState = (state: GameState): GameState => {
+  if (state.inputOffset <= 0) return state;
+  const activeShape = getActiveShapeAt(
+    state,
+    state.elapsedTime - state.inputOffset
+  );
+  return { ...state, activeShape };
+};
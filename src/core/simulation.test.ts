@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import {
+  checkContainment,
+  createInitialState,
+  pauseGame,
+  spawnActiveShape,
+} from "./gameState";
+import {
+  applyTap,
+  applyRestart,
+  applyUndo,
+  interpolateState,
+  stepFrame,
+} from "./simulation";
+import { SIMULATION_TIMESTEP } from "../constants/game";
+
+describe("simulation", () => {
+  describe("applyTap", () => {
+    it("should stack a contained shape and spawn the next one", () => {
+      const state = spawnActiveShape(createInitialState(1000, "CLASSIC", 1));
+      const result = applyTap(state);
+      expect(result.stacked).toBe(true);
+      expect(result.missed).toBe(false);
+      expect(result.state.score).toBe(1);
+      expect(result.state.activeShape).not.toBeNull();
+    });
+
+    it("should end the game when the shape is not contained", () => {
+      const state = spawnActiveShape(createInitialState(1000, "CLASSIC", 1));
+      state.activeShape!.size = 10000;
+      const result = applyTap(state);
+      expect(result.missed).toBe(true);
+      expect(result.gameOver).toBe(true);
+    });
+
+    it("should judge a late tap on the shape shown before it", () => {
+      let state = spawnActiveShape(
+        createInitialState(1000, "CLASSIC", 1, 0.1)
+      );
+      // Grow until the shape pokes out now, but didn't 0.1s ago
+      while (checkContainment(state)) {
+        state = stepFrame(state, SIMULATION_TIMESTEP).state;
+      }
+      expect(state.isGameOver).toBe(false);
+      const result = applyTap(state);
+      expect(result.stacked).toBe(true);
+      const stacked = result.state.shapes[result.state.shapes.length - 1];
+      expect(stacked.size).toBeLessThan(state.activeShape!.size);
+    });
+
+    it("should ignore taps once the game is over", () => {
+      const state = spawnActiveShape(createInitialState(1000, "CLASSIC", 1));
+      const over = { ...state, isGameOver: true };
+      expect(applyTap(over).state).toBe(over);
+    });
+  });
+
+  describe("applyUndo", () => {
+    it("should remove the last stack and keep an active shape", () => {
+      let state = spawnActiveShape(createInitialState(1000, "ZEN", 1));
+      state = applyTap(state).state;
+      const undone = applyUndo(state);
+      expect(undone.score).toBe(0);
+      expect(undone.activeShape).not.toBeNull();
+    });
+  });
+
+  describe("applyRestart", () => {
+    it("should respawn the active shape at its starting size", () => {
+      const state = spawnActiveShape(createInitialState(1000, "ZEN", 1));
+      state.activeShape!.size = 300;
+      expect(applyRestart(state).activeShape!.size).toBe(22.5);
+    });
+  });
+
+  describe("stepFrame", () => {
+    it("should advance the clock and grow the active shape", () => {
+      const state = spawnActiveShape(createInitialState(1000, "CLASSIC", 1));
+      const result = stepFrame(state, 0.1);
+      expect(result.state.elapsedTime).toBe(0.1);
+      expect(result.state.activeShape!.size).toBeGreaterThan(
+        state.activeShape!.size
+      );
+      expect(result.missed).toBe(false);
+    });
+
+    it("should report a miss when the shape outgrows its container", () => {
+      const state = spawnActiveShape(createInitialState(1000, "CLASSIC", 1));
+      state.activeShape!.size = 10000;
+      const result = stepFrame(state, 0.016);
+      expect(result.missed).toBe(true);
+      expect(result.gameOver).toBe(true);
+    });
+
+    it("should freeze a paused game", () => {
+      const state = pauseGame(
+        spawnActiveShape(createInitialState(1000, "TIME_ATTACK", 1))
+      );
+      const result = stepFrame(state, 5);
+      expect(result.state).toBe(state);
+      expect(applyTap(state).stacked).toBe(false);
+    });
+
+    it("should report a time out in TIME_ATTACK", () => {
+      const state = spawnActiveShape(
+        createInitialState(1000, "TIME_ATTACK", 1)
+      );
+      const result = stepFrame({ ...state, timeRemaining: 0.01 }, 0.1);
+      expect(result.timedOut).toBe(true);
+      expect(result.gameOver).toBe(true);
+    });
+  });
+
+  describe("interpolateState", () => {
+    it("should blend the active shape and zoom between two steps", () => {
+      const previous = spawnActiveShape(
+        createInitialState(1000, "CLASSIC", 1)
+      );
+      const current = stepFrame(
+        { ...previous, targetZoom: 2 },
+        SIMULATION_TIMESTEP
+      ).state;
+
+      const halfway = interpolateState(previous, current, 0.5);
+      expect(halfway.activeShape!.size).toBeCloseTo(
+        (previous.activeShape!.size + current.activeShape!.size) / 2
+      );
+      expect(halfway.zoom).toBeCloseTo((previous.zoom + current.zoom) / 2);
+      expect(halfway.elapsedTime).toBe(current.elapsedTime);
+
+      expect(interpolateState(previous, current, 1).activeShape!.size).toBe(
+        current.activeShape!.size
+      );
+    });
+
+    it("should blend where a moving, stretching shape is", () => {
+      const spawned = spawnActiveShape(createInitialState(1000, "CLASSIC", 1));
+      const previous = {
+        ...spawned,
+        activeShape: {
+          ...spawned.activeShape!,
+          position: { x: 10, y: 0 },
+          velocity: { x: 120, y: -60 },
+          aspectRatio: 1.2,
+        },
+      };
+      const current = stepFrame(previous, SIMULATION_TIMESTEP).state;
+      current.activeShape!.aspectRatio = 1.4;
+
+      const halfway = interpolateState(previous, current, 0.5).activeShape!;
+      expect(halfway.position!.x).toBeCloseTo(10.5);
+      expect(halfway.position!.y).toBeCloseTo(-0.25);
+      expect(halfway.aspectRatio).toBeCloseTo(1.3);
+    });
+
+    it("should not blend across a stack", () => {
+      const previous = spawnActiveShape(
+        createInitialState(1000, "CLASSIC", 1)
+      );
+      const current = applyTap(previous).state;
+      expect(interpolateState(previous, current, 0.5)).toBe(current);
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import type { GameState, StackGrade } from "../types";
+import {
+  advanceClock,
+  checkContainment,
+  handleMiss,
+  restartActiveShape,
+  spawnActiveShape,
+  stackActiveShape,
+  undoLastStack,
+  updateActiveShape,
+  updateShapeOpacities,
+  updateShapeRotations,
+  updateTimer,
+  updateZoom,
+} from "./gameState";
+import {
+  getJudgedState,
+  interpolateShape,
+  recordActiveShape,
+} from "./shapeHistory";
+
+/**
+ * Simulation - composes the gameState reducers into the per-frame and
+ * per-input transitions shared by the live game loop and replay playback.
+ * Everything here is pure: state in, state + outcome out.
+ */
+
+/**
+ * Outcome of a player tap.
+ */
+export interface TapResult {
+  state: GameState;
+  stacked: boolean;
+  missed: boolean;
+  /** True if the game ended as a result of this tap */
+  gameOver: boolean;
+  leveledUp: boolean;
+  worldUp: boolean;
+  newLevel: number;
+  isPerfect: boolean;
+  grade: StackGrade | null;
+  /** Rhythm Mode: the stack landed inside the beat window */
+  onBeat: boolean;
+}
+
+/**
+ * Outcome of a simulated frame.
+ */
+export interface FrameResult {
+  state: GameState;
+  /** The active shape breached its container during this frame */
+  missed: boolean;
+  /** True if the game ended during this frame */
+  gameOver: boolean;
+  /** The Time Attack clock ran out during this frame */
+  timedOut: boolean;
+}
+
+/**
+ * Apply a tap: stack the active shape if contained, otherwise miss.
+ * With an input offset the tap is judged on the active shape as it was
+ * inputOffset seconds ago (see shapeHistory), and that is the shape stacked.
+ * A successful stack immediately spawns the next active shape.
+ */
+export const applyTap = (state: GameState): TapResult => {
+  const idle: TapResult = {
+    state,
+    stacked: false,
+    missed: false,
+    gameOver: false,
+    leveledUp: false,
+    worldUp: false,
+    newLevel: state.level,
+    isPerfect: false,
+    grade: null,
+    onBeat: false,
+  };
+
+  if (state.isGameOver || state.isPaused || !state.activeShape) return idle;
+
+  const judged = getJudgedState(state);
+  if (!checkContainment(judged)) {
+    const missedState = handleMiss(state);
+    return {
+      ...idle,
+      state: missedState,
+      missed: true,
+      gameOver: missedState.isGameOver,
+    };
+  }
+
+  const result = stackActiveShape(
+    judged,
+    state.elapsedTime - state.inputOffset
+  );
+  return {
+    ...idle,
+    state: spawnActiveShape(result.state),
+    stacked: true,
+    leveledUp: result.leveledUp,
+    worldUp: result.worldUp,
+    newLevel: result.newLevel,
+    isPerfect: result.isPerfect,
+    grade: result.grade,
+    onBeat: result.onBeat,
+  };
+};
+
+/**
+ * Apply a Zen Mode restart of the active shape.
+ */
+export const applyRestart = (state: GameState): GameState => {
+  return restartActiveShape(state);
+};
+
+/**
+ * Apply a Zen Mode undo, spawning a fresh active shape if needed.
+ */
+export const applyUndo = (state: GameState): GameState => {
+  const undone = undoLastStack(state);
+  return undone.activeShape ? undone : spawnActiveShape(undone);
+};
+
+/**
+ * Advance the simulation by one frame.
+ * @param state - Current game state
+ * @param dt - Delta time in seconds
+ */
+export const stepFrame = (state: GameState, dt: number): FrameResult => {
+  if (state.isGameOver || state.isPaused) {
+    return { state, missed: false, gameOver: false, timedOut: false };
+  }
+
+  let next = advanceClock(state, dt);
+  next = updateActiveShape(next, dt);
+  next = updateZoom(next, dt);
+  next = updateShapeRotations(next, dt);
+  next = updateShapeOpacities(next, dt);
+  next = recordActiveShape(next);
+
+  if (next.mode === "TIME_ATTACK") {
+    next = updateTimer(next, dt);
+    if (next.isGameOver) {
+      return { state: next, missed: false, gameOver: true, timedOut: true };
+    }
+  }
+
+  // Auto-fail if the shape starts poking out. With an input offset the
+  // breach is only final once a tap judged before it can no longer arrive.
+  if (!checkContainment(getJudgedState(next))) {
+    const missedState = handleMiss(next);
+    return {
+      state: missedState,
+      missed: true,
+      gameOver: missedState.isGameOver,
+      timedOut: false,
+    };
+  }
+
+  return { state: next, missed: false, gameOver: false, timedOut: false };
+};
+
+const lerp = (a: number, b: number, t: number): number => a + (b - a) * t;
+
+/**
+ * Blend two consecutive simulation steps for rendering between them.
+ * Only the continuously animated values (sizes, rotations, opacities, zoom,
+ * and the active shape's position and stretch) are blended; everything else
+ * comes from the current step. If the steps aren't consecutive frames of the
+ * same stack (a tap, restart or undo happened in between) the current state
+ * is returned as is.
+ * @param alpha - Position between the steps (0 = previous, 1 = current)
+ */
+export const interpolateState = (
+  previous: GameState,
+  current: GameState,
+  alpha: number
+): GameState => {
+  if (
+    previous.shapes.length !== current.shapes.length ||
+    !previous.activeShape !== !current.activeShape ||
+    previous.score !== current.score
+  ) {
+    return current;
+  }
+
+  const shapes = current.shapes.map((shape, index) => ({
+    ...shape,
+    rotation: lerp(previous.shapes[index].rotation, shape.rotation, alpha),
+    opacity: lerp(previous.shapes[index].opacity, shape.opacity, alpha),
+  }));
+
+  const activeShape =
+    previous.activeShape && current.activeShape
+      ? interpolateShape(previous.activeShape, current.activeShape, alpha)
+      : current.activeShape;
+
+  return {
+    ...current,
+    shapes,
+    activeShape,
+    zoom: lerp(previous.zoom, current.zoom, alpha),
+  };
+};
@@ -0,0 +1,175 @@
+import { describe, it, expect } from "vitest";
+import { createInitialState, spawnActiveShape } from "./gameState";
+import {
+  applyRunEvent,
+  computeProfileStats,
+  createRunTracker,
+  getKillerHeatmap,
+  getScoreTrend,
+  getShapePair,
+} from "./stats";
+import type { RunRecord } from "../profile/types";
+import type { GameMode } from "../types";
+
+const makeRun = (
+  score: number,
+  timestamp: string,
+  mode: GameMode = "CLASSIC",
+  overrides: Partial<RunRecord> = {}
+): RunRecord => ({
+  mode,
+  seed: 1,
+  score,
+  world: 1,
+  level: 1,
+  duration: 30,
+  perfects: 0,
+  deathPair: { active: "square", container: "circle" },
+  timestamp,
+  ...overrides,
+});
+
+describe("stats", () => {
+  describe("getShapePair", () => {
+    it("should pair the active shape with the top of the stack", () => {
+      const state = spawnActiveShape(createInitialState(1000, "CLASSIC", 1));
+      expect(getShapePair(state)).toEqual({
+        active: state.activeShape!.type,
+        container: state.shapes[state.shapes.length - 1].type,
+      });
+      expect(getShapePair({ ...state, activeShape: null })).toBeNull();
+    });
+  });
+
+  describe("applyRunEvent", () => {
+    it("should build the finished run from the run's events", () => {
+      const pair = { active: "triangle", container: "square" } as const;
+      const now = new Date("2026-03-01T12:00:00.000Z");
+      let tracker = createRunTracker();
+      const perfect = { type: "perfect", score: 1, time: 1 } as const;
+      const miss = { type: "miss", score: 1, pair, time: 2 } as const;
+      tracker = applyRunEvent(tracker, perfect).tracker;
+      tracker = applyRunEvent(tracker, miss).tracker;
+      const { run } = applyRunEvent(
+        tracker,
+        {
+          type: "gameOver",
+          mode: "CLASSIC",
+          seed: 42,
+          score: 1,
+          world: 1,
+          level: 1,
+          time: 2,
+        },
+        now
+      );
+      expect(run).toEqual({
+        mode: "CLASSIC",
+        seed: 42,
+        score: 1,
+        world: 1,
+        level: 1,
+        duration: 2,
+        perfects: 1,
+        deathPair: pair,
+        timestamp: "2026-03-01T12:00:00.000Z",
+      });
+    });
+
+    it("should reset when a run starts", () => {
+      const tracker = { perfects: 4, lastMiss: null };
+      const result = applyRunEvent(tracker, {
+        type: "start",
+        mode: "ZEN",
+        time: 0,
+      });
+      expect(result.tracker).toEqual(createRunTracker());
+      expect(result.run).toBeNull();
+    });
+  });
+
+  describe("getScoreTrend", () => {
+    it("should average scores per day, oldest first", () => {
+      const runs = [
+        makeRun(10, "2026-03-02T10:00:00"),
+        makeRun(4, "2026-03-01T10:00:00"),
+        makeRun(20, "2026-03-02T11:00:00"),
+      ];
+      expect(getScoreTrend(runs)).toEqual([
+        { date: "2026-03-01", averageScore: 4, runs: 1 },
+        { date: "2026-03-02", averageScore: 15, runs: 2 },
+      ]);
+    });
+
+    it("should keep only the most recent days", () => {
+      const runs = [1, 2, 3].map((day) =>
+        makeRun(day, `2026-03-0${day}T10:00:00`)
+      );
+      const trend = getScoreTrend(runs, 2);
+      expect(trend.map((point) => point.date)).toEqual([
+        "2026-03-02",
+        "2026-03-03",
+      ]);
+    });
+  });
+
+  describe("getKillerHeatmap", () => {
+    it("should count runs per death pair", () => {
+      const runs = [
+        makeRun(1, "2026-03-01T10:00:00"),
+        makeRun(1, "2026-03-01T10:00:00"),
+        makeRun(1, "2026-03-01T10:00:00", "CLASSIC", {
+          deathPair: { active: "triangle", container: "circle" },
+        }),
+        makeRun(1, "2026-03-01T10:00:00", "TIME_ATTACK", { deathPair: null }),
+      ];
+      const heatmap = getKillerHeatmap(runs);
+      // Rows follow unlock order: square before triangle
+      expect(heatmap.active).toEqual(["square", "triangle"]);
+      expect(heatmap.container).toEqual(["circle"]);
+      expect(heatmap.counts).toEqual([[2], [1]]);
+      expect(heatmap.max).toBe(2);
+    });
+  });
+
+  describe("computeProfileStats", () => {
+    it("should total every run and keep the best per mode", () => {
+      const runs = [
+        makeRun(10, "2026-03-01T10:00:00", "CLASSIC", {
+          world: 2,
+          level: 1,
+          perfects: 3,
+        }),
+        makeRun(25, "2026-03-01T11:00:00", "CLASSIC", {
+          world: 1,
+          level: 5,
+          duration: 90,
+        }),
+        makeRun(7, "2026-03-01T12:00:00", "ZEN"),
+      ];
+      const stats = computeProfileStats(runs);
+      expect(stats.totals).toEqual({
+        runs: 3,
+        score: 42,
+        perfects: 3,
+        playTime: 150,
+      });
+      expect(stats.bests.CLASSIC).toEqual({
+        runs: 2,
+        score: 25,
+        world: 2,
+        level: 1,
+        duration: 90,
+      });
+      expect(stats.bests.ZEN?.score).toBe(7);
+      expect(stats.bests.DAILY).toBeUndefined();
+    });
+
+    it("should handle an empty profile", () => {
+      const stats = computeProfileStats([]);
+      expect(stats.totals.runs).toBe(0);
+      expect(stats.trend).toEqual([]);
+      expect(stats.killers.max).toBe(0);
+    });
+  });
+});
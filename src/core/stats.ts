@@ -0,0 +1,213 @@
+import type { GameEvent, GameMode, GameState, ShapePair } from "../types";
+import type { ShapeType } from "../utils/geometry";
+import type { RunRecord } from "../profile/types";
+import { SHAPE_TYPES } from "../shapes/registry";
+import { getDailyKey } from "./daily";
+
+/**
+ * Lifetime statistics - finished runs are built from the game event stream
+ * (like achievements) and summarised for the Stats screen.
+ */
+
+/** Days shown in the score trend */
+export const TREND_DAYS = 14;
+
+/**
+ * The active shape and its container, e.g. for the miss that ended a run.
+ */
+export const getShapePair = (state: GameState): ShapePair | null => {
+  const container = state.shapes[state.shapes.length - 1];
+  if (!state.activeShape || !container) return null;
+  return { active: state.activeShape.type, container: container.type };
+};
+
+/**
+ * What a run has collected so far that the game over event doesn't carry.
+ */
+export interface RunTracker {
+  perfects: number;
+  lastMiss: ShapePair | null;
+}
+
+export const createRunTracker = (): RunTracker => ({
+  perfects: 0,
+  lastMiss: null,
+});
+
+/**
+ * Feed one game event to the run tracker.
+ * @param now - Wall clock time, stamped on the finished run
+ * @returns The updated tracker, and the finished run on game over
+ */
+export const applyRunEvent = (
+  tracker: RunTracker,
+  event: GameEvent,
+  now: Date = new Date()
+): { tracker: RunTracker; run: RunRecord | null } => {
+  switch (event.type) {
+    case "start":
+      return { tracker: createRunTracker(), run: null };
+    case "perfect":
+      return {
+        tracker: { ...tracker, perfects: tracker.perfects + 1 },
+        run: null,
+      };
+    case "miss":
+      return { tracker: { ...tracker, lastMiss: event.pair }, run: null };
+    case "gameOver":
+      return {
+        tracker,
+        run: {
+          mode: event.mode,
+          seed: event.seed,
+          score: event.score,
+          world: event.world,
+          level: event.level,
+          duration: event.time,
+          perfects: tracker.perfects,
+          // A run that timed out wasn't ended by a miss
+          deathPair: tracker.lastMiss,
+          timestamp: now.toISOString(),
+        },
+      };
+    default:
+      return { tracker, run: null };
+  }
+};
+
+export interface ProfileTotals {
+  runs: number;
+  score: number;
+  perfects: number;
+  /** Seconds */
+  playTime: number;
+}
+
+export interface ModeBest {
+  runs: number;
+  score: number;
+  /** Furthest world and level reached */
+  world: number;
+  level: number;
+  /** Longest run in seconds */
+  duration: number;
+}
+
+export interface TrendPoint {
+  /** Date key ("YYYY-MM-DD", local time) */
+  date: string;
+  averageScore: number;
+  runs: number;
+}
+
+export interface KillerHeatmap {
+  /** Active shape types (rows) and container types (columns) */
+  active: ShapeType[];
+  container: ShapeType[];
+  /** counts[row][column]: runs ended by that pair */
+  counts: number[][];
+  max: number;
+}
+
+export interface ProfileStats {
+  totals: ProfileTotals;
+  bests: Partial<Record<GameMode, ModeBest>>;
+  trend: TrendPoint[];
+  killers: KillerHeatmap;
+}
+
+/**
+ * Average score per day over the last days played, oldest first.
+ */
+export const getScoreTrend = (
+  runs: RunRecord[],
+  days: number = TREND_DAYS
+): TrendPoint[] => {
+  const byDay = new Map<string, { total: number; runs: number }>();
+  runs.forEach((run) => {
+    const date = getDailyKey(new Date(run.timestamp));
+    const day = byDay.get(date) ?? { total: 0, runs: 0 };
+    byDay.set(date, { total: day.total + run.score, runs: day.runs + 1 });
+  });
+
+  return [...byDay.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .slice(-days)
+    .map(([date, day]) => ({
+      date,
+      averageScore: day.total / day.runs,
+      runs: day.runs,
+    }));
+};
+
+// Heatmap axes follow the order shapes unlock in
+const byUnlockOrder = (a: ShapeType, b: ShapeType): number => {
+  return SHAPE_TYPES.indexOf(a) - SHAPE_TYPES.indexOf(b);
+};
+
+/**
+ * How often each active/container pair ended a run. Only shapes that
+ * appear in a death pair get a row or column.
+ */
+export const getKillerHeatmap = (runs: RunRecord[]): KillerHeatmap => {
+  const pairs = runs
+    .map((run) => run.deathPair)
+    .filter((pair): pair is ShapePair => pair !== null);
+  const active = [...new Set(pairs.map((pair) => pair.active))].sort(
+    byUnlockOrder
+  );
+  const container = [...new Set(pairs.map((pair) => pair.container))].sort(
+    byUnlockOrder
+  );
+
+  const counts = active.map(() => container.map(() => 0));
+  pairs.forEach((pair) => {
+    counts[active.indexOf(pair.active)][container.indexOf(pair.container)]++;
+  });
+
+  return {
+    active,
+    container,
+    counts,
+    max: Math.max(0, ...counts.flat()),
+  };
+};
+
+/**
+ * Summarise every recorded run.
+ */
+export const computeProfileStats = (runs: RunRecord[]): ProfileStats => {
+  const totals: ProfileTotals = {
+    runs: runs.length,
+    score: 0,
+    perfects: 0,
+    playTime: 0,
+  };
+  const bests: Partial<Record<GameMode, ModeBest>> = {};
+
+  runs.forEach((run) => {
+    totals.score += run.score;
+    totals.perfects += run.perfects;
+    totals.playTime += run.duration;
+
+    const best = bests[run.mode];
+    const further =
+      !best ||
+      run.world > best.world ||
+      (run.world === best.world && run.level > best.level);
+    bests[run.mode] = {
+      runs: (best?.runs ?? 0) + 1,
+      score: Math.max(best?.score ?? 0, run.score),
+      world: further ? run.world : best.world,
+      level: further ? run.level : best.level,
+      duration: Math.max(best?.duration ?? 0, run.duration),
+    };
+  });
+
+  return {
+    totals,
+    bests,
+    trend: getScoreTrend(runs),
+    killers: getKillerHeatmap(runs),
+  };
+};
@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildReport,
+  buildScoreDistribution,
+  buildSurvivalCurve,
+  formatReportCsv,
+} from "./report";
+import type { GameRunResult } from "./runner";
+
+const result = (overrides: Partial<GameRunResult>): GameRunResult => ({
+  seed: 1,
+  mode: "CLASSIC",
+  score: 0,
+  world: 1,
+  level: 1,
+  duration: 10,
+  perfectCount: 0,
+  missCount: 0,
+  deathCause: "breach",
+  deathPair: { active: "square", container: "circle" },
+  ...overrides,
+});
+
+describe("headless report", () => {
+  describe("buildScoreDistribution", () => {
+    it("should compute summary statistics and a histogram", () => {
+      const scores = buildScoreDistribution(
+        [1, 2, 2, 3, 10].map((score) => result({ score }))
+      );
+      expect(scores.min).toBe(1);
+      expect(scores.max).toBe(10);
+      expect(scores.mean).toBe(3.6);
+      expect(scores.median).toBe(2);
+      expect(scores.p90).toBe(10);
+      expect(scores.histogram).toContainEqual({ score: 2, count: 2 });
+    });
+  });
+
+  describe("buildSurvivalCurve", () => {
+    it("should count games reaching each world and level", () => {
+      const survival = buildSurvivalCurve([
+        result({ world: 1, level: 1 }),
+        result({ world: 1, level: 3 }),
+        result({ world: 2, level: 1 }),
+      ]);
+      expect(survival[0]).toEqual({ world: 1, level: 1, reached: 3, rate: 1 });
+      expect(survival[2].reached).toBe(2);
+      expect(survival[5]).toEqual({
+        world: 2,
+        level: 1,
+        reached: 1,
+        rate: 1 / 3,
+      });
+    });
+  });
+
+  describe("buildReport", () => {
+    it("should group breach deaths by shape pair", () => {
+      const report = buildReport([
+        result({}),
+        result({}),
+        result({ deathPair: { active: "triangle", container: "square" } }),
+        result({ deathCause: "timeout", deathPair: null }),
+      ]);
+      expect(report.games).toBe(4);
+      expect(report.deathCauses.breach).toBe(3);
+      expect(report.deathsByShapePair[0]).toEqual({
+        active: "square",
+        container: "circle",
+        count: 2,
+        rate: 2 / 3,
+      });
+    });
+  });
+
+  describe("formatReportCsv", () => {
+    it("should emit one table per section", () => {
+      const csv = formatReportCsv(buildReport([result({ score: 4 })]));
+      const tables = csv.trim().split("\n\n");
+      expect(tables).toHaveLength(4);
+      expect(tables[1]).toBe("score,count\n4,1");
+      expect(tables[2]).toContain("square,circle,1,1");
+    });
+  });
+});
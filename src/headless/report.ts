@@ -0,0 +1,178 @@
+import { LEVELS_PER_WORLD } from "../constants/game";
+import type { DeathCause, GameRunResult } from "./runner";
+import type { ShapeType } from "../utils/geometry";
+
+/**
+ * Aggregates headless game results into a balancing report.
+ */
+
+export interface ScoreDistribution {
+  min: number;
+  max: number;
+  mean: number;
+  median: number;
+  p90: number;
+  histogram: { score: number; count: number }[];
+}
+
+export interface ShapePairDeaths {
+  active: ShapeType;
+  container: ShapeType;
+  count: number;
+  /** Share of all breach deaths */
+  rate: number;
+}
+
+export interface SurvivalPoint {
+  world: number;
+  level: number;
+  /** Number of games that reached this world/level */
+  reached: number;
+  /** Fraction of all games that reached this world/level */
+  rate: number;
+}
+
+export interface SimulationReport {
+  games: number;
+  scores: ScoreDistribution;
+  deathCauses: Record<DeathCause, number>;
+  deathsByShapePair: ShapePairDeaths[];
+  survival: SurvivalPoint[];
+}
+
+/**
+ * Nearest-rank percentile of an ascending list.
+ */
+const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil(p * sorted.length) - 1;
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank))];
+};
+
+/**
+ * Score summary statistics and histogram.
+ */
+export const buildScoreDistribution = (
+  results: GameRunResult[]
+): ScoreDistribution => {
+  const scores = results.map((r) => r.score).sort((a, b) => a - b);
+  const counts = new Map<number, number>();
+  scores.forEach((score) => counts.set(score, (counts.get(score) ?? 0) + 1));
+
+  return {
+    min: scores[0] ?? 0,
+    max: scores[scores.length - 1] ?? 0,
+    mean:
+      scores.length > 0
+        ? scores.reduce((total, s) => total + s, 0) / scores.length
+        : 0,
+    median: percentile(scores, 0.5),
+    p90: percentile(scores, 0.9),
+    histogram: [...counts.entries()].map(([score, count]) => ({
+      score,
+      count,
+    })),
+  };
+};
+
+/**
+ * Breach deaths grouped by active/container shape pair, most frequent first.
+ */
+export const buildDeathsByShapePair = (
+  results: GameRunResult[]
+): ShapePairDeaths[] => {
+  const counts = new Map<string, ShapePairDeaths>();
+  let total = 0;
+
+  results.forEach(({ deathPair }) => {
+    if (!deathPair) return;
+    total++;
+    const key = `${deathPair.active}>${deathPair.container}`;
+    const entry = counts.get(key) ?? { ...deathPair, count: 0, rate: 0 };
+    entry.count++;
+    counts.set(key, entry);
+  });
+
+  return [...counts.values()]
+    .map((entry) => ({ ...entry, rate: entry.count / total }))
+    .sort((a, b) => b.count - a.count);
+};
+
+/**
+ * Survival curve: how many games reached each world/level.
+ */
+export const buildSurvivalCurve = (
+  results: GameRunResult[]
+): SurvivalPoint[] => {
+  const progressions = results.map(
+    (r) => (r.world - 1) * LEVELS_PER_WORLD + (r.level - 1)
+  );
+  const furthest = Math.max(0, ...progressions);
+  const survival: SurvivalPoint[] = [];
+
+  for (let index = 0; index <= furthest; index++) {
+    const reached = progressions.filter((p) => p >= index).length;
+    survival.push({
+      world: Math.floor(index / LEVELS_PER_WORLD) + 1,
+      level: (index % LEVELS_PER_WORLD) + 1,
+      reached,
+      rate: results.length > 0 ? reached / results.length : 0,
+    });
+  }
+  return survival;
+};
+
+/**
+ * Build the full balancing report for a batch of games.
+ */
+export const buildReport = (results: GameRunResult[]): SimulationReport => {
+  const deathCauses: Record<DeathCause, number> = {
+    breach: 0,
+    timeout: 0,
+    "time-limit": 0,
+  };
+  results.forEach((r) => deathCauses[r.deathCause]++);
+
+  return {
+    games: results.length,
+    scores: buildScoreDistribution(results),
+    deathCauses,
+    deathsByShapePair: buildDeathsByShapePair(results),
+    survival: buildSurvivalCurve(results),
+  };
+};
+
+/**
+ * Format a report as CSV: one table per section, separated by blank lines.
+ */
+export const formatReportCsv = (report: SimulationReport): string => {
+  const { scores } = report;
+  const sections = [
+    [
+      "metric,value",
+      `games,${report.games}`,
+      `min,${scores.min}`,
+      `max,${scores.max}`,
+      `mean,${scores.mean}`,
+      `median,${scores.median}`,
+      `p90,${scores.p90}`,
+      ...Object.entries(report.deathCauses).map(
+        ([cause, count]) => `deaths_${cause},${count}`
+      ),
+    ],
+    ["score,count", ...scores.histogram.map((h) => `${h.score},${h.count}`)],
+    [
+      "active,container,count,rate",
+      ...report.deathsByShapePair.map(
+        (d) => `${d.active},${d.container},${d.count},${d.rate}`
+      ),
+    ],
+    [
+      "world,level,reached,rate",
+      ...report.survival.map(
+        (s) => `${s.world},${s.level},${s.reached},${s.rate}`
+      ),
+    ],
+  ];
+  return sections.map((lines) => lines.join("\n")).join("\n\n") + "\n";
+};
@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+import { runGame, runBatch } from "./runner";
+import {
+  createFixedDelayStrategy,
+  createSafeSizeStrategy,
+} from "./strategies";
+
+describe("headless runner", () => {
+  describe("runGame", () => {
+    it("should be deterministic for a seed and strategy", () => {
+      const strategy = createSafeSizeStrategy(0.8, 30);
+      const a = runGame({ seed: 3, strategy, maxTime: 60 });
+      const b = runGame({ seed: 3, strategy, maxTime: 60 });
+      expect(a).toEqual(b);
+    });
+
+    it("should stack shapes with a cautious strategy", () => {
+      const result = runGame({
+        seed: 1,
+        strategy: createSafeSizeStrategy(0.5),
+        maxTime: 20,
+      });
+      expect(result.score).toBeGreaterThan(0);
+    });
+
+    it("should record the shape pair of a breach death", () => {
+      // Never tapping lets the first shape outgrow the base circle
+      const result = runGame({
+        seed: 1,
+        strategy: createFixedDelayStrategy(1_000_000),
+        maxTime: 60,
+      });
+      expect(result.deathCause).toBe("breach");
+      expect(result.score).toBe(0);
+      expect(result.deathPair?.container).toBe("circle");
+    });
+
+    it("should stop TIME_ATTACK runs on timeout", () => {
+      const result = runGame({
+        seed: 2,
+        mode: "TIME_ATTACK",
+        strategy: createSafeSizeStrategy(0.9),
+        maxTime: 120,
+      });
+      expect(result.deathCause).toBe("timeout");
+      expect(result.deathPair).toBeNull();
+    });
+
+    it("should stop endless ZEN runs at the time limit", () => {
+      const result = runGame({
+        seed: 1,
+        mode: "ZEN",
+        strategy: createFixedDelayStrategy(1_000_000),
+        maxTime: 10,
+      });
+      expect(result.deathCause).toBe("time-limit");
+      expect(result.missCount).toBeGreaterThan(0);
+      expect(result.duration).toBeGreaterThanOrEqual(10);
+    });
+  });
+
+  describe("runBatch", () => {
+    it("should play one game per seed in the inclusive range", () => {
+      const results = runBatch({
+        seedFrom: 5,
+        seedTo: 7,
+        strategy: createFixedDelayStrategy(500),
+        maxTime: 10,
+      });
+      expect(results.map((r) => r.seed)).toEqual([5, 6, 7]);
+    });
+  });
+});
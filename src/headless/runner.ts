@@ -0,0 +1,139 @@
+import type { GameMode, ShapePair } from "../types";
+import { createInitialState, spawnActiveShape } from "../core/gameState";
+import { applyTap, stepFrame } from "../core/simulation";
+import { getShapePair } from "../core/stats";
+import { createSeededRandom } from "../utils/random";
+import type { TapStrategy } from "./strategies";
+import { SIMULATION_TIMESTEP } from "../constants/game";
+
+/**
+ * Headless runner - plays whole games through the core reducers with a fixed
+ * timestep and a pluggable tapping strategy. No React, no canvas.
+ */
+
+/** 800px viewport, the one REFERENCE_INITIAL_SIZE is based on */
+export const HEADLESS_VIEWPORT_SIZE = 800;
+/** Same step as the live game loop */
+export const HEADLESS_TIMESTEP = SIMULATION_TIMESTEP;
+// Cap on simulated seconds per game (ZEN never ends on its own)
+export const HEADLESS_MAX_TIME = 600;
+// Salt so the strategy's random stream is independent of the game's
+const STRATEGY_SEED_SALT = 0x9e3779b9;
+
+export type DeathCause = "breach" | "timeout" | "time-limit";
+
+export interface GameRunOptions {
+  seed: number;
+  strategy: TapStrategy;
+  mode?: GameMode;
+  /** Fixed timestep in seconds */
+  dt?: number;
+  /** Maximum simulated seconds before the run is stopped */
+  maxTime?: number;
+  viewportSize?: number;
+}
+
+export interface GameRunResult {
+  seed: number;
+  mode: GameMode;
+  score: number;
+  world: number;
+  level: number;
+  /** Simulated duration in seconds */
+  duration: number;
+  perfectCount: number;
+  /** Breaches that did not end the game (ZEN) */
+  missCount: number;
+  deathCause: DeathCause;
+  /** Shapes involved in the final breach, if the run ended on one */
+  deathPair: ShapePair | null;
+}
+
+export interface BatchOptions extends Omit<GameRunOptions, "seed"> {
+  /** First seed of the range (inclusive) */
+  seedFrom: number;
+  /** Last seed of the range (inclusive) */
+  seedTo: number;
+}
+
+/**
+ * Play a single game to completion.
+ */
+export const runGame = ({
+  seed,
+  strategy,
+  mode = "CLASSIC",
+  dt = HEADLESS_TIMESTEP,
+  maxTime = HEADLESS_MAX_TIME,
+  viewportSize = HEADLESS_VIEWPORT_SIZE,
+}: GameRunOptions): GameRunResult => {
+  const random = createSeededRandom((seed ^ STRATEGY_SEED_SALT) >>> 0).next;
+  let state = spawnActiveShape(createInitialState(viewportSize, mode, seed));
+  let plannedTap: number | null = null;
+  let perfectCount = 0;
+  let missCount = 0;
+  let deathCause: DeathCause = "time-limit";
+  let deathPair: ShapePair | null = null;
+
+  while (!state.isGameOver && state.elapsedTime < maxTime) {
+    if (plannedTap === null) {
+      plannedTap = strategy.planTap(state, random, dt);
+    }
+
+    if (state.elapsedTime >= plannedTap) {
+      const result = applyTap(state);
+      if (result.isPerfect) perfectCount++;
+      if (result.missed) {
+        missCount++;
+        deathPair = getShapePair(state);
+        if (result.gameOver) deathCause = "breach";
+      }
+      state = result.state;
+      plannedTap = null;
+      // Always simulate a frame after a tap: a player can't tap twice in one
+      // frame, and instant re-taps would otherwise never advance the clock.
+      if (state.isGameOver) break;
+    }
+
+    const frame = stepFrame(state, dt);
+    state = frame.state;
+    if (frame.timedOut) {
+      deathCause = "timeout";
+      deathPair = null;
+    } else if (frame.missed) {
+      missCount++;
+      deathPair = getShapePair(state);
+      if (frame.gameOver) deathCause = "breach";
+      // ZEN resets the shape, so the strategy has to plan again
+      plannedTap = null;
+    }
+  }
+
+  return {
+    seed,
+    mode,
+    score: state.score,
+    world: state.world,
+    level: state.level,
+    duration: state.elapsedTime,
+    perfectCount,
+    missCount: deathCause === "breach" ? missCount - 1 : missCount,
+    deathCause,
+    deathPair: deathCause === "breach" ? deathPair : null,
+  };
+};
+
+/**
+ * Play one game per seed in an inclusive seed range.
+ */
+export const runBatch = ({
+  seedFrom,
+  seedTo,
+  ...options
+}: BatchOptions): GameRunResult[] => {
+  const results: GameRunResult[] = [];
+  for (let seed = seedFrom; seed <= seedTo; seed++) {
+    results.push(runGame({ ...options, seed }));
+  }
+  return results;
+};
@@ -0,0 +1,79 @@
+import type { GameState } from "../types";
+import type { RandomSource } from "../utils/random";
+import { stepFrame } from "../core/simulation";
+
+/**
+ * Tapping strategies for headless simulation.
+ * A strategy plans, for each freshly spawned active shape, the simulated time
+ * at which the bot will tap.
+ */
+export interface TapStrategy {
+  name: string;
+  /**
+   * Plan the tap for the current active shape.
+   * @param state - State right after the active shape (re)spawned
+   * @param random - Strategy-owned random source (separate from the game PRNG)
+   * @param dt - Fixed timestep used by the runner, in seconds
+   * @returns Simulated time (GameState.elapsedTime) at which to tap
+   */
+  planTap: (state: GameState, random: RandomSource, dt: number) => number;
+}
+
+// How far ahead a strategy may look for the breach point, in seconds
+const LOOKAHEAD_HORIZON = 30;
+
+/**
+ * Draw a symmetric jitter in seconds from a range given in milliseconds.
+ */
+const drawJitter = (random: RandomSource, jitterMs: number): number => {
+  return ((random() * 2 - 1) * jitterMs) / 1000;
+};
+
+/**
+ * Tap when the active shape reaches a fraction of the largest size it reaches
+ * before breaching, plus or minus a random timing jitter.
+ * The breach point is found by simulating a copy of the state ahead, so boss
+ * pulses, rotation and growth patterns are all accounted for.
+ * @param targetRatio - Fraction of the max safe size to aim for (e.g. 0.9)
+ * @param jitterMs - Maximum timing error in either direction, in milliseconds
+ */
+export const createSafeSizeStrategy = (
+  targetRatio: number,
+  jitterMs: number = 0
+): TapStrategy => ({
+  name: `safe-size(${targetRatio},${jitterMs}ms)`,
+  planTap: (state, random, dt) => {
+    const trail: { time: number; size: number }[] = [];
+    let probe = state;
+    let maxSafeSize = 0;
+
+    while (probe.elapsedTime - state.elapsedTime < LOOKAHEAD_HORIZON) {
+      const frame = stepFrame(probe, dt);
+      if (frame.missed || frame.gameOver || !frame.state.activeShape) break;
+      probe = frame.state;
+      const size = frame.state.activeShape.size;
+      trail.push({ time: probe.elapsedTime, size });
+      maxSafeSize = Math.max(maxSafeSize, size);
+    }
+
+    const target = trail.find((p) => p.size >= maxSafeSize * targetRatio);
+    const tapTime = target?.time ?? state.elapsedTime;
+    return tapTime + drawJitter(random, jitterMs);
+  },
+});
+
+/**
+ * Tap a fixed delay after each spawn, plus or minus a random timing jitter.
+ * Models a player tapping to a rhythm without looking at the shapes.
+ * @param delayMs - Delay after spawn, in milliseconds
+ * @param jitterMs - Maximum timing error in either direction, in milliseconds
+ */
+export const createFixedDelayStrategy = (
+  delayMs: number,
+  jitterMs: number = 0
+): TapStrategy => ({
+  name: `fixed-delay(${delayMs}ms,${jitterMs}ms)`,
+  planTap: (state, random) => {
+    return state.elapsedTime + delayMs / 1000 + drawJitter(random, jitterMs);
+  },
+});
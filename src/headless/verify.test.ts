@@ -0,0 +1,222 @@
+import { describe, it, expect } from "vitest";
+import {
+  MAX_CLAIM_BYTES,
+  MAX_FRAME_RUNS,
+  MAX_REPLAY_EVENTS,
+  MIN_TAP_INTERVAL,
+  getRejectionReason,
+  handleVerificationRequest,
+  verifyRun,
+} from "./verify";
+import type { RunClaim } from "../leaderboard/types";
+import { createInitialState, spawnActiveShape } from "../core/gameState";
+import { applyTap, stepFrame } from "../core/simulation";
+import { createReplayRecorder, type FrameRun } from "../core/replay";
+import { createSafeSizeStrategy } from "./strategies";
+import { createSeededRandom } from "../utils/random";
+import { SIMULATION_TIMESTEP } from "../constants/game";
+
+/**
+ * Play and record a run the way GameCanvas does: the bot stacks shapes for
+ * a while, then stops tapping so the next shape breaches and ends the run.
+ */
+const playRun = (seed = 5, tapUntil = 8): RunClaim => {
+  const recorder = createReplayRecorder(seed, "CLASSIC", 800);
+  const strategy = createSafeSizeStrategy(0.7);
+  const random = createSeededRandom(seed).next;
+  let state = spawnActiveShape(createInitialState(800, "CLASSIC", seed));
+  let plannedTap: number | null = null;
+
+  while (!state.isGameOver) {
+    if (state.elapsedTime < tapUntil) {
+      plannedTap ??= strategy.planTap(state, random, SIMULATION_TIMESTEP);
+      if (state.elapsedTime >= plannedTap) {
+        recorder.recordEvent("tap", state.elapsedTime);
+        state = applyTap(state).state;
+        plannedTap = null;
+        if (state.isGameOver) break;
+      }
+    }
+    state = stepFrame(state, SIMULATION_TIMESTEP).state;
+    recorder.recordFrame(SIMULATION_TIMESTEP);
+  }
+
+  return {
+    mode: "CLASSIC",
+    seed,
+    score: state.score,
+    world: state.world,
+    level: state.level,
+    duration: state.elapsedTime,
+    replay: recorder.getReplay(),
+  };
+};
+
+/**
+ * Change the number of frames in the replay's last run.
+ */
+const withLastRun = (claim: RunClaim, extraFrames: number): FrameRun[] => {
+  const frames = [...claim.replay.frames];
+  const [dt, count] = frames[frames.length - 1];
+  frames[frames.length - 1] = [dt, count + extraFrames];
+  return frames;
+};
+
+describe("verify", () => {
+  const run = playRun();
+
+  it("should accept a genuine run", () => {
+    expect(run.score).toBeGreaterThan(0);
+    expect(verifyRun(run)).toEqual({ valid: true });
+    expect(getRejectionReason(run)).toBeNull();
+  });
+
+  it("should reject an edited score, world or level", () => {
+    expect(getRejectionReason({ ...run, score: run.score + 1 })).toBe(
+      "result does not match replay"
+    );
+    expect(getRejectionReason({ ...run, world: run.world + 1 })).toBe(
+      "result does not match replay"
+    );
+    expect(getRejectionReason({ ...run, level: run.level + 1 })).toBe(
+      "result does not match replay"
+    );
+  });
+
+  it("should reject an edited duration", () => {
+    expect(getRejectionReason({ ...run, duration: run.duration + 5 })).toBe(
+      "duration does not match replay"
+    );
+  });
+
+  it("should reject a claim for another seed", () => {
+    expect(getRejectionReason({ ...run, seed: run.seed + 1 })).toBe(
+      "replay seed mismatch"
+    );
+  });
+
+  it("should reject taps faster than humanly possible", () => {
+    const [first] = run.replay.events;
+    const events = [
+      first,
+      { ...first, time: first.time + MIN_TAP_INTERVAL / 2 },
+      ...run.replay.events.slice(1),
+    ];
+    expect(
+      getRejectionReason({ ...run, replay: { ...run.replay, events } })
+    ).toBe("taps faster than humanly possible");
+  });
+
+  it("should reject frames longer than a simulation step", () => {
+    const frames = [...run.replay.frames];
+    frames[0] = [SIMULATION_TIMESTEP * 2, frames[0][1]];
+    expect(
+      getRejectionReason({ ...run, replay: { ...run.replay, frames } })
+    ).toBe("impossible frame time");
+  });
+
+  it("should reject malformed frame runs", () => {
+    const runs = [[SIMULATION_TIMESTEP, 0], [SIMULATION_TIMESTEP, 1.5], []];
+    runs.forEach((bad) => {
+      const frames = [...run.replay.frames, bad as FrameRun];
+      expect(
+        getRejectionReason({ ...run, replay: { ...run.replay, frames } })
+      ).toBe("impossible frame time");
+    });
+  });
+
+  it("should reject runs too long to verify", () => {
+    const frames = [...run.replay.frames];
+    frames[0] = [SIMULATION_TIMESTEP, 1e9];
+    expect(
+      getRejectionReason({ ...run, replay: { ...run.replay, frames } })
+    ).toBe("run too long to verify");
+  });
+
+  it("should reject inputs whose times don't match their frames", () => {
+    const events = run.replay.events.map((event, index) =>
+      index === 0 ? { ...event, time: event.time + 0.01 } : event
+    );
+    expect(
+      getRejectionReason({ ...run, replay: { ...run.replay, events } })
+    ).toBe("input log out of sync");
+  });
+
+  it("should reject a run that never ended", () => {
+    const frames = withLastRun(run, -1);
+    expect(
+      getRejectionReason({ ...run, replay: { ...run.replay, frames } })
+    ).toBe("run did not end");
+  });
+
+  it("should reject inputs after game over", () => {
+    const replay = {
+      ...run.replay,
+      frames: withLastRun(run, 1),
+    };
+    expect(getRejectionReason({ ...run, replay })).toBe(
+      "inputs after game over"
+    );
+  });
+
+  it("should reject malformed replays", () => {
+    const claim = { ...run, replay: null } as unknown as RunClaim;
+    expect(getRejectionReason(claim)).toBe("missing replay");
+    expect(
+      getRejectionReason({ ...run, replay: { ...run.replay, version: 1 } })
+    ).toBe("unsupported replay version");
+  });
+
+  describe("MAX_CLAIM_BYTES", () => {
+    it("should fit the longest, busiest run verifyRun accepts", () => {
+      // A tap every MIN_TAP_INTERVAL, each splitting off a short step
+      const recorder = createReplayRecorder(5, "CLASSIC", 800);
+      let time = 0;
+      for (let tap = 0; tap < MAX_REPLAY_EVENTS; tap++) {
+        for (let step = 0; step < 5; step++) {
+          recorder.recordFrame(SIMULATION_TIMESTEP);
+        }
+        recorder.recordFrame(SIMULATION_TIMESTEP / 3);
+        time += SIMULATION_TIMESTEP * (5 + 1 / 3);
+        recorder.recordEvent("tap", time);
+      }
+      const replay = recorder.getReplay();
+      expect(replay.frames.length).toBeLessThanOrEqual(MAX_FRAME_RUNS);
+      const claim = { ...run, duration: time, replay };
+      expect(JSON.stringify(claim).length).toBeLessThan(MAX_CLAIM_BYTES);
+    });
+
+    it("should keep an hour of ordinary play small", () => {
+      // A tap every couple of seconds
+      const recorder = createReplayRecorder(5, "CLASSIC", 800);
+      for (let tap = 0; tap < 1800; tap++) {
+        for (let step = 0; step < 240; step++) {
+          recorder.recordFrame(SIMULATION_TIMESTEP);
+        }
+        recorder.recordFrame(SIMULATION_TIMESTEP / 3);
+        recorder.recordEvent("tap", tap * 2);
+      }
+      const replay = recorder.getReplay();
+      expect(JSON.stringify(replay).length).toBeLessThan(200 * 1024);
+    });
+  });
+
+  describe("handleVerificationRequest", () => {
+    it("should answer 200 for a genuine run", () => {
+      const response = handleVerificationRequest(JSON.stringify(run));
+      expect(response).toEqual({ status: 200, body: { valid: true } });
+    });
+
+    it("should answer 422 for a rejected run", () => {
+      const response = handleVerificationRequest(
+        JSON.stringify({ ...run, score: 9999 })
+      );
+      expect(response.status).toBe(422);
+    });
+
+    it("should answer 400 for a body that isn't a run", () => {
+      expect(handleVerificationRequest("{").status).toBe(400);
+      expect(handleVerificationRequest("null").status).toBe(400);
+    });
+  });
+});
@@ -0,0 +1,210 @@
+import type { RunClaim, VerificationResult } from "../leaderboard/types";
+import {
+  REPLAY_VERSION,
+  createReplayCursor,
+  getFrameCount,
+  stepReplay,
+  isReplayFinished,
+} from "../core/replay";
+import {
+  GAME_MODES,
+  MAX_INPUT_OFFSET,
+  SIMULATION_TIMESTEP,
+} from "../constants/game";
+
+/**
+ * Score verification - re-simulates a submitted run from its seed and input
+ * log and checks that it really ends with the claimed result. Runs headless
+ * (no DOM), so a leaderboard server can call it on every submission.
+ *
+ * Besides the outcome, the inputs themselves must be physically possible:
+ * frames no longer than a simulation step, and taps no faster than a person
+ * can tap.
+ */
+
+/** Fastest plausible gap between two taps (seconds; 20 taps per second) */
+export const MIN_TAP_INTERVAL = 0.05;
+/** Longest run verified (simulated seconds), to bound the server's work */
+export const MAX_VERIFIED_DURATION = 60 * 60;
+/** Most inputs in a verified run: one per tap interval for its duration */
+export const MAX_REPLAY_EVENTS = MAX_VERIFIED_DURATION / MIN_TAP_INTERVAL;
+/**
+ * Most frame runs in a verified run. The live loop simulates full steps,
+ * plus one partial step at each input, so every input adds two runs at most.
+ */
+export const MAX_FRAME_RUNS = 2 * MAX_REPLAY_EVENTS + 1;
+// Longest JSON of an input and of a frame run, with margin
+const MAX_EVENT_BYTES = 80;
+const MAX_FRAME_RUN_BYTES = 48;
+// The claim's other fields
+const MAX_CLAIM_OVERHEAD_BYTES = 4096;
+/**
+ * Largest JSON claim a run within the limits above can take, so a server
+ * can refuse anything bigger unread.
+ */
+export const MAX_CLAIM_BYTES =
+  MAX_REPLAY_EVENTS * MAX_EVENT_BYTES +
+  MAX_FRAME_RUNS * MAX_FRAME_RUN_BYTES +
+  MAX_CLAIM_OVERHEAD_BYTES;
+/** Allowed drift between claimed and simulated times (seconds) */
+const TIME_TOLERANCE = 1e-6;
+
+const reject = (reason: string): VerificationResult => ({
+  valid: false,
+  reason,
+});
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value);
+
+/**
+ * Structural checks on untrusted input, before anything is simulated.
+ */
+const checkInputs = (claim: RunClaim): string | null => {
+  const { replay } = claim;
+  if (!replay || !Array.isArray(replay.frames)) return "missing replay";
+  if (!Array.isArray(replay.events)) return "missing replay events";
+  if (replay.version !== REPLAY_VERSION) return "unsupported replay version";
+  if (!GAME_MODES.includes(claim.mode)) return "unknown mode";
+  if (replay.mode !== claim.mode) return "replay mode mismatch";
+  if (replay.seed !== claim.seed || !isNumber(claim.seed)) {
+    return "replay seed mismatch";
+  }
+  const result = [claim.score, claim.world, claim.level, claim.duration];
+  if (!result.every(isNumber)) return "malformed result";
+  if (!isNumber(replay.viewportSize) || replay.viewportSize <= 0) {
+    return "invalid viewport size";
+  }
+  if (
+    !isNumber(replay.inputOffset) ||
+    replay.inputOffset < 0 ||
+    replay.inputOffset > MAX_INPUT_OFFSET
+  ) {
+    return "invalid input offset";
+  }
+
+  if (
+    replay.events.length > MAX_REPLAY_EVENTS ||
+    replay.frames.length > MAX_FRAME_RUNS
+  ) {
+    return "run too long to verify";
+  }
+  // The live loop never simulates more than one step at a time
+  const badFrame = replay.frames.some(
+    (run) =>
+      !Array.isArray(run) ||
+      !Number.isInteger(run[1]) ||
+      run[1] < 1 ||
+      !isNumber(run[0]) ||
+      run[0] <= 0 ||
+      run[0] > SIMULATION_TIMESTEP + TIME_TOLERANCE
+  );
+  if (badFrame) return "impossible frame time";
+  const frameCount = getFrameCount(replay);
+  const maxFrames = MAX_VERIFIED_DURATION / SIMULATION_TIMESTEP;
+  if (frameCount > maxFrames) return "run too long to verify";
+
+  let previousFrame = 0;
+  let previousTap = -Infinity;
+  for (const event of replay.events) {
+    if (
+      !event ||
+      !["tap", "restart", "undo"].includes(event.type) ||
+      !Number.isInteger(event.frame) ||
+      event.frame < previousFrame ||
+      event.frame > frameCount ||
+      !isNumber(event.time)
+    ) {
+      return "malformed input log";
+    }
+    if (event.type === "tap") {
+      if (event.time - previousTap < MIN_TAP_INTERVAL) {
+        return "taps faster than humanly possible";
+      }
+      previousTap = event.time;
+    }
+    previousFrame = event.frame;
+  }
+  return null;
+};
+
+/**
+ * Re-simulate a run and confirm its claimed score, world, level and
+ * duration.
+ */
+export const verifyRun = (claim: RunClaim): VerificationResult => {
+  const inputError = checkInputs(claim);
+  if (inputError) return reject(inputError);
+
+  const { replay } = claim;
+  let cursor = createReplayCursor(replay);
+  // Inputs before the first frame happened at time 0
+  const early = replay.events.slice(0, cursor.eventIndex);
+  if (early.some((event) => Math.abs(event.time) > TIME_TOLERANCE)) {
+    return reject("input log out of sync");
+  }
+  let eventIndex = cursor.eventIndex;
+  while (!isReplayFinished(replay, cursor)) {
+    if (cursor.state.isGameOver) return reject("inputs after game over");
+    const previous = cursor;
+    cursor = stepReplay(replay, cursor);
+    // Each input must land at the time the recording says it did
+    for (; eventIndex < cursor.eventIndex; eventIndex++) {
+      const event = replay.events[eventIndex];
+      const dt = replay.frames[previous.run][0];
+      const time = previous.state.elapsedTime + dt;
+      if (Math.abs(event.time - time) > TIME_TOLERANCE) {
+        return reject("input log out of sync");
+      }
+    }
+  }
+
+  const { state } = cursor;
+  if (!state.isGameOver) return reject("run did not end");
+  if (
+    state.score !== claim.score ||
+    state.world !== claim.world ||
+    state.level !== claim.level
+  ) {
+    return reject("result does not match replay");
+  }
+  if (Math.abs(state.elapsedTime - claim.duration) > TIME_TOLERANCE) {
+    return reject("duration does not match replay");
+  }
+  return { valid: true };
+};
+
+/**
+ * Why a run would be rejected, or null if it checks out (a verification
+ * hook for MockLeaderboardService).
+ */
+export const getRejectionReason = (claim: RunClaim): string | null => {
+  const result = verifyRun(claim);
+  return result.valid ? null : result.reason;
+};
+
+export interface VerificationResponse {
+  status: number;
+  body: VerificationResult;
+}
+
+/**
+ * Handle a raw verification request body (a JSON RunClaim), independent of
+ * the HTTP server: 200 for a verified run, 422 for a rejected one and 400
+ * for a body that isn't JSON.
+ */
+export const handleVerificationRequest = (
+  body: string
+): VerificationResponse => {
+  let claim: RunClaim;
+  try {
+    claim = JSON.parse(body);
+  } catch {
+    return { status: 400, body: reject("invalid JSON") };
+  }
+  if (!claim || typeof claim !== "object") {
+    return { status: 400, body: reject("invalid claim") };
+  }
+  const result = verifyRun(claim);
+  return { status: result.valid ? 200 : 422, body: result };
+};
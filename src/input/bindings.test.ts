@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_INPUT_BINDINGS,
+  INPUT_ACTIONS,
+  formatKeyCode,
+  getGamepadActions,
+  getKeyAction,
+  rebindKey,
+} from "./bindings";
+
+describe("input bindings", () => {
+  it("should map default keys to actions", () => {
+    expect(getKeyAction(DEFAULT_INPUT_BINDINGS, "Space")).toBe("tap");
+    expect(getKeyAction(DEFAULT_INPUT_BINDINGS, "Enter")).toBe("tap");
+    expect(getKeyAction(DEFAULT_INPUT_BINDINGS, "KeyR")).toBe("restart");
+    expect(getKeyAction(DEFAULT_INPUT_BINDINGS, "KeyZ")).toBe("undo");
+    expect(getKeyAction(DEFAULT_INPUT_BINDINGS, "Escape")).toBe("pause");
+    expect(getKeyAction(DEFAULT_INPUT_BINDINGS, "KeyQ")).toBeNull();
+  });
+
+  it("should bind every key to at most one action", () => {
+    const keys = INPUT_ACTIONS.flatMap(
+      (action) => DEFAULT_INPUT_BINDINGS.keys[action]
+    );
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it("should only fire gamepad actions on the press edge", () => {
+    const pressed = [true, false, false, false];
+    expect(getGamepadActions(DEFAULT_INPUT_BINDINGS, [], pressed)).toEqual([
+      "tap",
+    ]);
+    expect(
+      getGamepadActions(DEFAULT_INPUT_BINDINGS, pressed, pressed)
+    ).toEqual([]);
+
+    const start: boolean[] = [];
+    start[9] = true;
+    expect(getGamepadActions(DEFAULT_INPUT_BINDINGS, [], start)).toEqual([
+      "pause",
+    ]);
+  });
+
+  it("should rebind a key and take it from its old action", () => {
+    const bindings = rebindKey(DEFAULT_INPUT_BINDINGS, "undo", "Space");
+
+    expect(getKeyAction(bindings, "Space")).toBe("undo");
+    expect(bindings.keys.tap).toEqual(["Enter"]);
+    // The secondary undo key is kept
+    expect(bindings.keys.undo).toEqual(["Space", "Backspace"]);
+    // Defaults are untouched
+    expect(DEFAULT_INPUT_BINDINGS.keys.tap).toEqual(["Space", "Enter"]);
+  });
+
+  it("should format key codes for display", () => {
+    expect(formatKeyCode("KeyR")).toBe("R");
+    expect(formatKeyCode("Digit1")).toBe("1");
+    expect(formatKeyCode("Space")).toBe("SPACE");
+  });
+});
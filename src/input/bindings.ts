@@ -0,0 +1,94 @@
+/**
+ * Input bindings - which keys and gamepad buttons trigger which action.
+ * Pure lookups so the DOM layer (inputManager) stays thin and the mapping can
+ * be saved, rebound and tested on its own.
+ */
+
+export type InputAction = "tap" | "restart" | "undo" | "pause";
+
+export const INPUT_ACTIONS: InputAction[] = ["tap", "restart", "undo", "pause"];
+
+export const INPUT_ACTION_LABELS: Record<InputAction, string> = {
+  tap: "Stack",
+  restart: "Restart shape (Zen)",
+  undo: "Undo (Zen)",
+  pause: "Pause / resume",
+};
+
+export interface InputBindings {
+  /** KeyboardEvent.code values per action */
+  keys: Record<InputAction, string[]>;
+  /** Standard-mapping gamepad button indices per action */
+  gamepadButtons: Record<InputAction, number[]>;
+}
+
+export const DEFAULT_INPUT_BINDINGS: InputBindings = {
+  keys: {
+    tap: ["Space", "Enter"],
+    restart: ["KeyR"],
+    undo: ["KeyZ", "Backspace"],
+    pause: ["Escape", "KeyP"],
+  },
+  gamepadButtons: {
+    // A / right trigger, Y, X, Start
+    tap: [0, 7],
+    restart: [3],
+    undo: [2],
+    pause: [9],
+  },
+};
+
+/**
+ * Action bound to a keyboard key, if any.
+ * @param code - KeyboardEvent.code (layout independent, e.g. "KeyR")
+ */
+export const getKeyAction = (
+  bindings: InputBindings,
+  code: string
+): InputAction | null => {
+  return (
+    INPUT_ACTIONS.find((action) => bindings.keys[action].includes(code)) ??
+    null
+  );
+};
+
+/**
+ * Actions triggered by gamepad buttons that went down since the last poll.
+ * @param previous - Pressed state of every button at the last poll
+ * @param pressed - Pressed state of every button now
+ */
+export const getGamepadActions = (
+  bindings: InputBindings,
+  previous: boolean[],
+  pressed: boolean[]
+): InputAction[] => {
+  return INPUT_ACTIONS.filter((action) =>
+    bindings.gamepadButtons[action].some(
+      (button) => pressed[button] && !previous[button]
+    )
+  );
+};
+
+/**
+ * Bind a key to an action as its primary key. The key is taken away from any
+ * other action so one key never triggers two actions.
+ */
+export const rebindKey = (
+  bindings: InputBindings,
+  action: InputAction,
+  code: string
+): InputBindings => {
+  const keys = { ...bindings.keys };
+  INPUT_ACTIONS.forEach((other) => {
+    keys[other] = keys[other].filter((key) => key !== code);
+  });
+  keys[action] = [code, ...keys[action].slice(1)];
+  return { ...bindings, keys };
+};
+
+/**
+ * Short label for a KeyboardEvent.code ("KeyR" -> "R", "Space" -> "SPACE").
+ */
+export const formatKeyCode = (code: string): string => {
+  return code.replace(/^(Key|Digit)/, "").toUpperCase();
+};
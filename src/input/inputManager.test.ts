@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { attachInput, type InputEvent } from "./inputManager";
+import { DEFAULT_INPUT_BINDINGS } from "./bindings";
+
+describe("inputManager", () => {
+  let target: HTMLElement;
+  let onInput: ReturnType<typeof vi.fn<(event: InputEvent) => void>>;
+  let detach: () => void;
+
+  beforeEach(() => {
+    target = document.createElement("div");
+    document.body.appendChild(target);
+    onInput = vi.fn<(event: InputEvent) => void>();
+    detach = attachInput(target, DEFAULT_INPUT_BINDINGS, onInput);
+  });
+
+  afterEach(() => {
+    detach();
+    target.remove();
+  });
+
+  const dispatchPointerDown = (pointerType: string, button = 0) => {
+    const event = new MouseEvent("pointerdown", { button, bubbles: true });
+    Object.defineProperty(event, "pointerType", { value: pointerType });
+    target.dispatchEvent(event);
+  };
+
+  it("should turn pointer presses into timestamped taps", () => {
+    dispatchPointerDown("mouse");
+
+    expect(onInput).toHaveBeenCalledWith({
+      action: "tap",
+      timestamp: expect.any(Number),
+      source: "pointer",
+    });
+  });
+
+  it("should ignore secondary mouse buttons", () => {
+    dispatchPointerDown("mouse", 2);
+    expect(onInput).not.toHaveBeenCalled();
+  });
+
+  it("should use touchstart only without pointer events", () => {
+    target.dispatchEvent(new Event("touchstart", { cancelable: true }));
+    expect(onInput).toHaveBeenCalledWith(
+      expect.objectContaining({ action: "tap", source: "touch" })
+    );
+
+    onInput.mockClear();
+    dispatchPointerDown("touch");
+    target.dispatchEvent(new Event("touchstart", { cancelable: true }));
+    expect(onInput).toHaveBeenCalledTimes(1);
+  });
+
+  it("should map bound keys and ignore repeats and text fields", () => {
+    window.dispatchEvent(new KeyboardEvent("keydown", { code: "Space" }));
+    window.dispatchEvent(new KeyboardEvent("keydown", { code: "KeyP" }));
+    window.dispatchEvent(
+      new KeyboardEvent("keydown", { code: "Space", repeat: true })
+    );
+    window.dispatchEvent(new KeyboardEvent("keydown", { code: "KeyQ" }));
+
+    const input = document.createElement("input");
+    document.body.appendChild(input);
+    input.dispatchEvent(
+      new KeyboardEvent("keydown", { code: "Space", bubbles: true })
+    );
+    input.remove();
+
+    expect(onInput.mock.calls.map(([event]) => event.action)).toEqual([
+      "tap",
+      "pause",
+    ]);
+  });
+
+  it("should stop listening once detached", () => {
+    detach();
+    dispatchPointerDown("mouse");
+    window.dispatchEvent(new KeyboardEvent("keydown", { code: "Space" }));
+    expect(onInput).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,101 @@
+import {
+  getGamepadActions,
+  getKeyAction,
+  type InputAction,
+  type InputBindings,
+} from "./bindings";
+
+/**
+ * Input manager - normalises pointer, touch, keyboard and gamepad input into
+ * actions stamped with high-resolution times. Timestamps share the clock of
+ * performance.now() and requestAnimationFrame, so the game loop can place an
+ * input exactly between its frames.
+ */
+
+export type InputSource = "pointer" | "touch" | "keyboard" | "gamepad";
+
+export interface InputEvent {
+  action: InputAction;
+  /** When the input happened (ms, performance.now() clock) */
+  timestamp: number;
+  source: InputSource;
+}
+
+const TEXT_INPUT_TAGS = ["INPUT", "TEXTAREA", "SELECT"];
+
+const isTextInput = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return TEXT_INPUT_TAGS.includes(target.tagName) || target.isContentEditable;
+};
+
+/**
+ * Start listening for input.
+ * Pointer and touch presses on the target are taps (every finger counts);
+ * keys are listened for on the whole window; connected gamepads are polled
+ * once per animation frame.
+ * @param target - Element that receives pointer/touch taps (the canvas)
+ * @returns A function that removes every listener
+ */
+export const attachInput = (
+  target: HTMLElement,
+  bindings: InputBindings,
+  onInput: (event: InputEvent) => void
+): (() => void) => {
+  // Browsers with pointer events fire pointerdown before touchstart for the
+  // same finger; once a touch pointer is seen, touchstart is only a fallback
+  let touchPointerSeen = false;
+
+  const handlePointerDown = (event: PointerEvent) => {
+    // Only the primary mouse button taps; touch and pen report button 0 too
+    if (event.button !== undefined && event.button > 0) return;
+    if (event.pointerType === "touch") touchPointerSeen = true;
+    onInput({ action: "tap", timestamp: event.timeStamp, source: "pointer" });
+  };
+
+  const handleTouchStart = (event: TouchEvent) => {
+    // Stops the delayed emulated click on older mobile browsers
+    event.preventDefault();
+    if (touchPointerSeen) return;
+    onInput({ action: "tap", timestamp: event.timeStamp, source: "touch" });
+  };
+
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (event.repeat || isTextInput(event.target)) return;
+    const action = getKeyAction(bindings, event.code);
+    if (!action) return;
+    // Keeps Space/Enter from also clicking a focused button or scrolling
+    event.preventDefault();
+    onInput({ action, timestamp: event.timeStamp, source: "keyboard" });
+  };
+
+  target.addEventListener("pointerdown", handlePointerDown);
+  target.addEventListener("touchstart", handleTouchStart, { passive: false });
+  window.addEventListener("keydown", handleKeyDown);
+
+  // Gamepads have no events for buttons; compare each poll with the last
+  const previousButtons = new Map<number, boolean[]>();
+  let pollId = 0;
+  const pollGamepads = () => {
+    for (const gamepad of navigator.getGamepads()) {
+      if (!gamepad) continue;
+      const pressed = gamepad.buttons.map((button) => button.pressed);
+      const previous = previousButtons.get(gamepad.index) ?? [];
+      previousButtons.set(gamepad.index, pressed);
+      // The pad's own timestamp is when this button state was sampled
+      const timestamp = gamepad.timestamp || performance.now();
+      getGamepadActions(bindings, previous, pressed).forEach((action) => {
+        onInput({ action, timestamp, source: "gamepad" });
+      });
+    }
+    pollId = requestAnimationFrame(pollGamepads);
+  };
+  const canPollGamepads = typeof navigator.getGamepads === "function";
+  if (canPollGamepads) pollId = requestAnimationFrame(pollGamepads);
+
+  return () => {
+    target.removeEventListener("pointerdown", handlePointerDown);
+    target.removeEventListener("touchstart", handleTouchStart);
+    window.removeEventListener("keydown", handleKeyDown);
+    if (canPollGamepads) cancelAnimationFrame(pollId);
+  };
+};
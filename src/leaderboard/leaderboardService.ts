@@ -0,0 +1,20 @@
+import type { ILeaderboardService } from "./types";
+import { MockLeaderboardService } from "./mockLeaderboardService";
+import { RestLeaderboardService } from "./restLeaderboardService";
+
+/**
+ * The service for a configured backend URL: none without one (the game only
+ * keeps local leaderboards), the in-memory mock for "mock" (accepting every
+ * run; the verifier stays out of the game bundle), REST otherwise.
+ */
+export const createLeaderboardService = (
+  url: string | undefined
+): ILeaderboardService | null => {
+  if (!url) return null;
+  if (url === "mock") return new MockLeaderboardService();
+  return new RestLeaderboardService(url);
+};
+
+export const leaderboardService = createLeaderboardService(
+  import.meta.env.VITE_LEADERBOARD_URL
+);
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import { MockLeaderboardService } from "./mockLeaderboardService";
+import { createReplayRecorder } from "../core/replay";
+import type { LeaderboardQuery, ScoreSubmission } from "./types";
+
+const submit = (
+  server: MockLeaderboardService,
+  playerId: string,
+  score: number,
+  overrides: Partial<ScoreSubmission> = {}
+) =>
+  server.submit({
+    playerId,
+    playerName: playerId.toUpperCase(),
+    mode: "CLASSIC",
+    seed: 1,
+    score,
+    world: 1,
+    level: 1,
+    duration: score * 2,
+    timestamp: "2026-03-01T12:00:00.000Z",
+    replay: createReplayRecorder(1, "CLASSIC", 800).getReplay(),
+    ...overrides,
+  });
+
+const query = (
+  overrides: Partial<LeaderboardQuery> = {}
+): LeaderboardQuery => ({
+  mode: "CLASSIC",
+  metric: "score",
+  scope: "global",
+  playerId: "ann",
+  limit: 10,
+  ...overrides,
+});
+
+describe("MockLeaderboardService", () => {
+  it("should rank each player's best run", async () => {
+    const server = new MockLeaderboardService();
+    await submit(server, "ann", 10);
+    await submit(server, "bob", 20);
+    expect(await submit(server, "ann", 15)).toEqual({
+      status: "accepted",
+      rank: 2,
+      total: 2,
+    });
+
+    const page = await server.getLeaderboard(query());
+    expect(page.entries.map((entry) => [entry.playerId, entry.value])).toEqual(
+      [
+        ["bob", 20],
+        ["ann", 15],
+      ]
+    );
+    expect(page.playerRank).toBe(2);
+  });
+
+  it("should keep modes apart", async () => {
+    const server = new MockLeaderboardService();
+    await submit(server, "ann", 10, { mode: "ZEN" });
+    const page = await server.getLeaderboard(query());
+    expect(page.entries).toEqual([]);
+    expect(page.playerRank).toBeNull();
+  });
+
+  it("should only show the player and their friends to them", async () => {
+    const server = new MockLeaderboardService();
+    server.setFriends("ann", ["bob"]);
+    await submit(server, "ann", 10);
+    await submit(server, "bob", 20);
+    await submit(server, "cat", 30);
+    const page = await server.getLeaderboard(query({ scope: "friends" }));
+    expect(page.entries.map((entry) => entry.playerId)).toEqual([
+      "bob",
+      "ann",
+    ]);
+    expect(page.total).toBe(2);
+  });
+
+  it("should reject runs that fail verification", async () => {
+    const server = new MockLeaderboardService((submission) =>
+      submission.score > 100 ? "too good" : null
+    );
+    expect(await submit(server, "ann", 500)).toEqual({
+      status: "rejected",
+      reason: "too good",
+    });
+    expect((await server.getLeaderboard(query())).total).toBe(0);
+  });
+
+  it("should fail while offline", async () => {
+    const server = new MockLeaderboardService();
+    server.online = false;
+    await expect(submit(server, "ann", 1)).rejects.toThrow();
+    await expect(server.getLeaderboard(query())).rejects.toThrow();
+  });
+});
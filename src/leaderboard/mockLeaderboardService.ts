@@ -0,0 +1,131 @@
+import type { GameMode } from "../types";
+import {
+  getProgression,
+  type LeaderboardMetric,
+} from "../core/leaderboard";
+import type {
+  ILeaderboardService,
+  LeaderboardPage,
+  LeaderboardQuery,
+  RemoteLeaderboardEntry,
+  ScoreSubmission,
+  SubmitResult,
+} from "./types";
+
+const getValue = (
+  submission: ScoreSubmission,
+  metric: LeaderboardMetric
+): number => {
+  switch (metric) {
+    case "score":
+      return submission.score;
+    case "progression":
+      return getProgression(submission.world, submission.level);
+    case "time":
+      return submission.duration;
+  }
+};
+
+/**
+ * In-memory leaderboard server, for tests and for playing without a backend
+ * (VITE_LEADERBOARD_URL=mock). Keeps each player's best run per mode and
+ * metric. Set `online` to false to simulate a network failure.
+ */
+export class MockLeaderboardService implements ILeaderboardService {
+  online = true;
+  /** Every submission received, accepted or not */
+  readonly submissions: ScoreSubmission[] = [];
+  private accepted: ScoreSubmission[] = [];
+  private friends = new Map<string, string[]>();
+  private verify: (submission: ScoreSubmission) => string | null;
+
+  /**
+   * @param verify - Returns why a submission is rejected, or null to accept
+   */
+  constructor(
+    verify: (submission: ScoreSubmission) => string | null = () => null
+  ) {
+    this.verify = verify;
+  }
+
+  /**
+   * Set whose runs show on a player's friends board.
+   */
+  setFriends(playerId: string, friendIds: string[]) {
+    this.friends.set(playerId, friendIds);
+  }
+
+  private checkOnline() {
+    if (!this.online) throw new Error("Leaderboard server unreachable");
+  }
+
+  /**
+   * Each player's best run on a board, ranked.
+   */
+  private getBoard(
+    mode: GameMode,
+    metric: LeaderboardMetric
+  ): RemoteLeaderboardEntry[] {
+    const best = new Map<string, ScoreSubmission>();
+    this.accepted
+      .filter((submission) => submission.mode === mode)
+      .forEach((submission) => {
+        const current = best.get(submission.playerId);
+        const value = getValue(submission, metric);
+        if (!current || value > getValue(current, metric)) {
+          best.set(submission.playerId, submission);
+        }
+      });
+
+    return [...best.values()]
+      .map((submission) => ({
+        rank: 0,
+        playerId: submission.playerId,
+        playerName: submission.playerName,
+        value: getValue(submission, metric),
+        world: submission.world,
+        level: submission.level,
+        timestamp: submission.timestamp,
+      }))
+      .sort((a, b) => b.value - a.value)
+      .map((entry, idx) => ({ ...entry, rank: idx + 1 }));
+  }
+
+  async submit(submission: ScoreSubmission): Promise<SubmitResult> {
+    this.checkOnline();
+    this.submissions.push(submission);
+    const reason = this.verify(submission);
+    if (reason) return { status: "rejected", reason };
+
+    this.accepted.push(submission);
+
+    const board = this.getBoard(submission.mode, "score");
+    const rank =
+      board.filter(
+        (entry) =>
+          entry.playerId !== submission.playerId &&
+          entry.value > submission.score
+      ).length + 1;
+    return { status: "accepted", rank, total: board.length };
+  }
+
+  async getLeaderboard(query: LeaderboardQuery): Promise<LeaderboardPage> {
+    this.checkOnline();
+    const friendIds = this.friends.get(query.playerId) ?? [];
+    const board = this.getBoard(query.mode, query.metric)
+      .filter(
+        (entry) =>
+          query.scope === "global" ||
+          entry.playerId === query.playerId ||
+          friendIds.includes(entry.playerId)
+      )
+      .map((entry, idx) => ({ ...entry, rank: idx + 1 }));
+
+    const own = board.find((entry) => entry.playerId === query.playerId);
+    return {
+      entries: board.slice(0, query.limit),
+      playerRank: own?.rank ?? null,
+      total: board.length,
+    };
+  }
+}
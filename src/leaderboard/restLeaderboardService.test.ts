@@ -0,0 +1,74 @@
+import { describe, it, expect, vi } from "vitest";
+import { RestLeaderboardService } from "./restLeaderboardService";
+import { createReplayRecorder } from "../core/replay";
+import type { ScoreSubmission } from "./types";
+
+const submission: ScoreSubmission = {
+  playerId: "ann",
+  playerName: "ANN",
+  mode: "CLASSIC",
+  seed: 1,
+  score: 10,
+  world: 1,
+  level: 3,
+  duration: 30,
+  timestamp: "2026-03-01T12:00:00.000Z",
+  replay: createReplayRecorder(1, "CLASSIC", 800).getReplay(),
+};
+
+const respond = (status: number, body: unknown) =>
+  vi.fn<typeof fetch>(
+    async () => new Response(JSON.stringify(body), { status })
+  );
+
+describe("RestLeaderboardService", () => {
+  it("should post submissions as JSON", async () => {
+    const fetchMock = respond(200, { rank: 4, total: 90 });
+    const service = new RestLeaderboardService("https://api.test/", fetchMock);
+    expect(await service.submit(submission)).toEqual({
+      status: "accepted",
+      rank: 4,
+      total: 90,
+    });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe("https://api.test/scores");
+    expect(init?.method).toBe("POST");
+    expect(JSON.parse(init?.body as string)).toEqual(submission);
+  });
+
+  it("should report a rejected run with the server's reason", async () => {
+    const service = new RestLeaderboardService(
+      "https://api.test",
+      respond(422, { reason: "replay mismatch" })
+    );
+    expect(await service.submit(submission)).toEqual({
+      status: "rejected",
+      reason: "replay mismatch",
+    });
+  });
+
+  it("should throw on server errors so the run is retried", async () => {
+    const service = new RestLeaderboardService(
+      "https://api.test",
+      respond(503, {})
+    );
+    await expect(service.submit(submission)).rejects.toThrow();
+  });
+
+  it("should query a board by mode, metric and scope", async () => {
+    const page = { entries: [], playerRank: null, total: 0 };
+    const fetchMock = respond(200, page);
+    const service = new RestLeaderboardService("https://api.test", fetchMock);
+    const result = await service.getLeaderboard({
+      mode: "ZEN",
+      metric: "time",
+      scope: "friends",
+      playerId: "ann",
+      limit: 5,
+    });
+    expect(result).toEqual(page);
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      "https://api.test/leaderboards/ZEN/time?scope=friends&player=ann&limit=5"
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import type {
+  ILeaderboardService,
+  LeaderboardPage,
+  LeaderboardQuery,
+  ScoreSubmission,
+  SubmitResult,
+} from "./types";
+
+/**
+ * Leaderboard service talking to a REST backend:
+ * - POST {baseUrl}/scores with a ScoreSubmission; 200 answers
+ *   { rank, total }, 4xx rejects the run with { reason }
+ * - GET {baseUrl}/leaderboards/{mode}/{metric}?scope=&player=&limit=
+ *   answers a LeaderboardPage
+ * Server errors (5xx) and network failures reject, so they can be retried.
+ */
+export class RestLeaderboardService implements ILeaderboardService {
+  private baseUrl: string;
+  private fetchImpl: typeof fetch;
+
+  constructor(baseUrl: string, fetchImpl: typeof fetch = fetch) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    // Unbound window.fetch throws "Illegal invocation" in some browsers
+    this.fetchImpl = fetchImpl === fetch ? fetch.bind(globalThis) : fetchImpl;
+  }
+
+  async submit(submission: ScoreSubmission): Promise<SubmitResult> {
+    const response = await this.fetchImpl(`${this.baseUrl}/scores`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(submission),
+    });
+    if (response.status >= 500) {
+      throw new Error(`Leaderboard server error ${response.status}`);
+    }
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      return {
+        status: "rejected",
+        reason: body.reason ?? `HTTP ${response.status}`,
+      };
+    }
+    const { rank, total } = await response.json();
+    return { status: "accepted", rank, total };
+  }
+
+  async getLeaderboard(query: LeaderboardQuery): Promise<LeaderboardPage> {
+    const params = new URLSearchParams({
+      scope: query.scope,
+      player: query.playerId,
+      limit: String(query.limit),
+    });
+    const response = await this.fetchImpl(
+      `${this.baseUrl}/leaderboards/${query.mode}/${query.metric}?${params}`
+    );
+    if (!response.ok) {
+      throw new Error(`Leaderboard request failed ${response.status}`);
+    }
+    return response.json();
+  }
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  MAX_PENDING_SUBMISSIONS,
+  RETRY_DELAYS,
+  SubmissionQueue,
+  type PendingSubmissionStorage,
+} from "./submissionQueue";
+import { MockLeaderboardService } from "./mockLeaderboardService";
+import { createReplayRecorder } from "../core/replay";
+import type { ScoreSubmission } from "./types";
+
+const makeSubmission = (score: number): ScoreSubmission => ({
+  playerId: "player-1",
+  playerName: "PLAYER 1",
+  mode: "CLASSIC",
+  seed: 1,
+  score,
+  world: 1,
+  level: 2,
+  duration: 20,
+  timestamp: "2026-03-01T12:00:00.000Z",
+  replay: createReplayRecorder(1, "CLASSIC", 800).getReplay(),
+});
+
+const createMemoryStorage = (initial: ScoreSubmission[] = []) => {
+  let saved = initial;
+  const storage: PendingSubmissionStorage = {
+    load: () => saved,
+    save: (submissions) => {
+      saved = submissions;
+    },
+  };
+  return { storage, getSaved: () => saved };
+};
+
+describe("SubmissionQueue", () => {
+  let server: MockLeaderboardService;
+
+  beforeEach(() => {
+    server = new MockLeaderboardService();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("should submit straight away when online", async () => {
+    const { storage } = createMemoryStorage();
+    const queue = new SubmissionQueue(server, storage);
+    const outcome = await queue.submit(makeSubmission(5));
+    expect(outcome).toEqual({ status: "accepted", rank: 1, total: 1 });
+    expect(queue.pendingCount).toBe(0);
+  });
+
+  it("should queue while offline and persist the queue", async () => {
+    server.online = false;
+    const { storage, getSaved } = createMemoryStorage();
+    const queue = new SubmissionQueue(server, storage);
+    expect(await queue.submit(makeSubmission(5))).toEqual({
+      status: "queued",
+    });
+    expect(queue.pendingCount).toBe(1);
+    expect(getSaved()).toHaveLength(1);
+    queue.stop();
+  });
+
+  it("should retry after a delay once back online", async () => {
+    vi.useFakeTimers();
+    server.online = false;
+    const { storage, getSaved } = createMemoryStorage();
+    const queue = new SubmissionQueue(server, storage);
+    await queue.submit(makeSubmission(5));
+
+    server.online = true;
+    await vi.advanceTimersByTimeAsync(RETRY_DELAYS[0] * 1000);
+    expect(queue.pendingCount).toBe(0);
+    expect(getSaved()).toEqual([]);
+    expect(server.submissions.map((s) => s.score)).toEqual([5]);
+  });
+
+  it("should send older pending runs first", async () => {
+    const { storage } = createMemoryStorage([makeSubmission(3)]);
+    const queue = new SubmissionQueue(server, storage);
+    await queue.submit(makeSubmission(8));
+    expect(server.submissions.map((s) => s.score)).toEqual([3, 8]);
+  });
+
+  it("should flush when the browser comes back online", async () => {
+    const { storage } = createMemoryStorage([makeSubmission(3)]);
+    server.online = false;
+    const queue = new SubmissionQueue(server, storage);
+    queue.start();
+    await queue.flush();
+
+    server.online = true;
+    window.dispatchEvent(new Event("online"));
+    await queue.flush();
+    expect(queue.pendingCount).toBe(0);
+    queue.stop();
+  });
+
+  it("should drop rejected runs instead of retrying them", async () => {
+    const strict = new MockLeaderboardService(() => "impossible score");
+    const { storage } = createMemoryStorage();
+    const queue = new SubmissionQueue(strict, storage);
+    expect(await queue.submit(makeSubmission(500))).toEqual({
+      status: "rejected",
+      reason: "impossible score",
+    });
+    expect(queue.pendingCount).toBe(0);
+  });
+
+  it("should keep only the newest pending runs", async () => {
+    server.online = false;
+    const { storage } = createMemoryStorage();
+    const queue = new SubmissionQueue(server, storage);
+    for (let i = 0; i < MAX_PENDING_SUBMISSIONS + 2; i++) {
+      await queue.submit(makeSubmission(i));
+    }
+    expect(queue.pendingCount).toBe(MAX_PENDING_SUBMISSIONS);
+    queue.stop();
+  });
+});
@@ -0,0 +1,129 @@
+import type {
+  ILeaderboardService,
+  ScoreSubmission,
+  SubmitResult,
+} from "./types";
+
+/** Seconds to wait before each retry; the last delay repeats */
+export const RETRY_DELAYS = [5, 15, 60, 300];
+/** Pending submissions kept (replays are large); the oldest are dropped */
+export const MAX_PENDING_SUBMISSIONS = 10;
+
+export type SubmitOutcome = SubmitResult | { status: "queued" };
+
+/**
+ * Where pending submissions survive a reload (see utils/storage).
+ */
+export interface PendingSubmissionStorage {
+  load(): ScoreSubmission[];
+  save(submissions: ScoreSubmission[]): void;
+}
+
+/**
+ * Offline queue in front of a leaderboard service. A submission that can't
+ * reach the server is kept and retried, oldest first, with increasing
+ * delays and whenever the browser comes back online. Answered submissions
+ * leave the queue, whether the server accepted or rejected them.
+ */
+export class SubmissionQueue {
+  private service: ILeaderboardService;
+  private storage: PendingSubmissionStorage;
+  private pending: ScoreSubmission[];
+  private attempt = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private flushing: Promise<void> | null = null;
+
+  constructor(
+    service: ILeaderboardService,
+    storage: PendingSubmissionStorage
+  ) {
+    this.service = service;
+    this.storage = storage;
+    this.pending = storage.load();
+  }
+
+  get pendingCount(): number {
+    return this.pending.length;
+  }
+
+  private handleOnline = () => {
+    this.flush();
+  };
+
+  /**
+   * Retry on reconnect, and send anything left over from a previous session.
+   */
+  start() {
+    window.addEventListener("online", this.handleOnline);
+    if (this.pending.length > 0) this.flush();
+  }
+
+  stop() {
+    window.removeEventListener("online", this.handleOnline);
+    if (this.retryTimer !== null) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+  }
+
+  private persist() {
+    this.storage.save(this.pending);
+  }
+
+  private scheduleRetry() {
+    if (this.retryTimer !== null) return;
+    const delay =
+      RETRY_DELAYS[Math.min(this.attempt, RETRY_DELAYS.length - 1)];
+    this.attempt++;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, delay * 1000);
+  }
+
+  /**
+   * Submit a run now, or queue it if the server can't be reached.
+   * Older pending runs are sent first.
+   */
+  async submit(submission: ScoreSubmission): Promise<SubmitOutcome> {
+    await this.flush();
+    if (this.pending.length === 0) {
+      try {
+        return await this.service.submit(submission);
+      } catch (e) {
+        console.error("Failed to submit score, queued for retry", e);
+      }
+    }
+    this.pending = [...this.pending, submission].slice(
+      -MAX_PENDING_SUBMISSIONS
+    );
+    this.persist();
+    this.scheduleRetry();
+    return { status: "queued" };
+  }
+
+  /**
+   * Send pending submissions, oldest first, until one fails to get through.
+   */
+  flush(): Promise<void> {
+    // One flush at a time, or a submission could be sent twice
+    if (!this.flushing) {
+      this.flushing = this.sendPending().finally(() => {
+        this.flushing = null;
+      });
+    }
+    return this.flushing;
+  }
+
+  private async sendPending() {
+    while (this.pending.length > 0) {
+      try {
+        await this.service.submit(this.pending[0]);
+      } catch {
+        this.scheduleRetry();
+        return;
+      }
+      this.pending = this.pending.slice(1);
+      this.persist();
+    }
+    this.attempt = 0;
+  }
+}
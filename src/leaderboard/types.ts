@@ -0,0 +1,99 @@
+import type { GameMode } from "../types";
+import type { ReplayData } from "../core/replay";
+import type { LeaderboardMetric } from "../core/leaderboard";
+
+/**
+ * What a run claims to have achieved, with the inputs to prove it.
+ */
+export interface RunClaim {
+  mode: GameMode;
+  seed: number;
+  score: number;
+  world: number;
+  level: number;
+  /** Seconds survived */
+  duration: number;
+  replay: ReplayData;
+}
+
+/**
+ * Outcome of re-simulating a claimed run (see headless/verify.ts, which
+ * only the verification server loads).
+ */
+export type VerificationResult =
+  | { valid: true }
+  | { valid: false; reason: string };
+
+/**
+ * A finished run sent to an online leaderboard. The replay (with its seed)
+ * lets the server re-simulate the run and verify the claimed result.
+ */
+export interface ScoreSubmission extends RunClaim {
+  playerId: string;
+  playerName: string;
+  /** When the run ended (ISO 8601) */
+  timestamp: string;
+}
+
+/**
+ * Server answer to a submission. Rejected runs (failed verification, bad
+ * data) are final; network failures are thrown instead so they can be
+ * retried.
+ */
+export type SubmitResult =
+  | {
+      status: "accepted";
+      /** Rank of the run on the mode's global score board (1-based) */
+      rank: number;
+      /** Players on that board */
+      total: number;
+    }
+  | { status: "rejected"; reason: string };
+
+export type LeaderboardScope = "global" | "friends";
+
+export interface LeaderboardQuery {
+  mode: GameMode;
+  metric: LeaderboardMetric;
+  scope: LeaderboardScope;
+  /** Whose friends (and whose rank) to look up */
+  playerId: string;
+  limit: number;
+}
+
+/**
+ * One player's best run on an online board.
+ */
+export interface RemoteLeaderboardEntry {
+  rank: number;
+  playerId: string;
+  playerName: string;
+  value: number;
+  world: number;
+  level: number;
+  timestamp: string;
+}
+
+export interface LeaderboardPage {
+  entries: RemoteLeaderboardEntry[];
+  /** The querying player's rank on the board, null if not on it */
+  playerRank: number | null;
+  total: number;
+}
+
+/**
+ * Online leaderboard service interface, injected like IAudioService so the
+ * game can run against a REST backend, an in-memory mock or nothing at all.
+ * Methods reject on network failure.
+ */
+export interface ILeaderboardService {
+  /**
+   * Submit a finished run.
+   */
+  submit(submission: ScoreSubmission): Promise<SubmitResult>;
+
+  /**
+   * Top of a board, plus the player's own rank.
+   */
+  getLeaderboard(query: LeaderboardQuery): Promise<LeaderboardPage>;
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  drawMechanicsBackground,
+  findMechanic,
+  getCollisionShape,
+  getMechanicsGrowthMultiplier,
+  getShapeView,
+} from "./index";
+import type { RenderContext } from "./types";
+import {
+  createInitialState,
+  spawnActiveShape,
+  stackActiveShape,
+} from "../core/gameState";
+import { WORLD_MECHANICS, getWorldMechanics } from "../constants/game";
+import type { Shape } from "../utils/geometry";
+
+const shape: Shape = {
+  type: "square",
+  size: 100,
+  rotation: 0.5,
+  color: "#3b82f6",
+  opacity: 1,
+};
+
+const stacked: RenderContext = {
+  time: 1,
+  zoom: 1,
+  isStacked: true,
+  isContainer: false,
+  stackIndex: 2,
+};
+
+describe("mechanics", () => {
+  describe("WORLD_MECHANICS", () => {
+    it("should add one twist per world on top of world 7", () => {
+      const world7 = getWorldMechanics(7);
+      expect(findMechanic(world7, "eclipse")).toBeDefined();
+      expect(findMechanic(world7, "orbit")).toBeDefined();
+      const twists = [8, 9, 10, 11, 12, 13].map((world) => {
+        const mechanics = getWorldMechanics(world);
+        expect(mechanics.slice(0, world7.length)).toEqual(world7);
+        expect(mechanics).toHaveLength(world7.length + 1);
+        return mechanics[world7.length].id;
+      });
+      expect(twists).toEqual([
+        "fog",
+        "mirror",
+        "reverseSpin",
+        "ghostContainer",
+        "gravity",
+        "strobe",
+      ]);
+    });
+
+    it("should keep the last world's mechanics beyond it", () => {
+      const last = Object.keys(WORLD_MECHANICS).length;
+      expect(getWorldMechanics(last + 5)).toBe(WORLD_MECHANICS[last]);
+    });
+  });
+
+  describe("getMechanicsGrowthMultiplier", () => {
+    it("should only accelerate growth from world 3", () => {
+      const state = { ...createInitialState(1000), score: 2 };
+      expect(getMechanicsGrowthMultiplier({ ...state, world: 2 })).toBe(1);
+      expect(getMechanicsGrowthMultiplier({ ...state, world: 3 })).toBe(1.5);
+    });
+  });
+
+  describe("getCollisionShape", () => {
+    const state = { ...createInitialState(1000), activeShape: shape };
+
+    it("should judge the active shape as is without gameplay twists", () => {
+      expect(getCollisionShape({ ...state, world: 9 })).toBe(shape);
+      expect(getCollisionShape({ ...state, activeShape: null })).toBeNull();
+    });
+
+    it("should judge the active shape where the twists put it", () => {
+      const reversed = getCollisionShape({ ...state, world: 10, score: 1 });
+      expect(reversed?.rotation).toBe(-0.5);
+      const sunk = getCollisionShape({ ...state, world: 12 });
+      expect(sunk?.position?.y).toBeGreaterThan(0);
+    });
+
+    it("should stack the shape as it was judged", () => {
+      let game = spawnActiveShape({
+        ...createInitialState(1000, "CLASSIC", 1),
+        world: 12,
+      });
+      const judged = getCollisionShape(game);
+      game = stackActiveShape(game).state;
+      expect(game.shapes[game.shapes.length - 1].position).toEqual(
+        judged?.position
+      );
+    });
+  });
+
+  describe("getShapeView", () => {
+    it("should draw world 1 shapes as they are", () => {
+      const view = getShapeView(shape, stacked, getWorldMechanics(1));
+      expect(view).toEqual({
+        shape,
+        hueShift: 0,
+        stroke: null,
+        flip: { x: 1, y: 1 },
+        outline: false,
+      });
+    });
+
+    it("should compose every module of the world", () => {
+      const view = getShapeView(shape, stacked, getWorldMechanics(5));
+      // Breathing, wave and colour shift all apply to stacked shapes
+      expect(view.shape.size).not.toBe(100);
+      expect(view.shape.position?.x).not.toBe(0);
+      expect(view.hueShift).toBe(30 + 2 * 30);
+    });
+
+    it("should leave the active shape steady", () => {
+      const active = { ...stacked, isStacked: false };
+      const view = getShapeView(shape, active, getWorldMechanics(5));
+      expect(view.shape).toBe(shape);
+    });
+  });
+
+  describe("drawMechanicsBackground", () => {
+    const createMockCanvas = () => ({
+      fillStyle: "",
+      fillRect: vi.fn(),
+      createRadialGradient: vi.fn().mockReturnValue({ addColorStop: vi.fn() }),
+    });
+    const frame = { width: 800, height: 600, time: 0, pulse: 0 };
+
+    it("should leave the background to the theme by default", () => {
+      const ctx = createMockCanvas();
+      expect(drawMechanicsBackground(ctx, frame, getWorldMechanics(5))).toBe(
+        false
+      );
+      expect(ctx.fillRect).not.toHaveBeenCalled();
+    });
+
+    it("should draw the eclipse's own background", () => {
+      const ctx = createMockCanvas();
+      const mechanics = getWorldMechanics(6);
+      expect(findMechanic(mechanics, "eclipse")).toBeDefined();
+      expect(drawMechanicsBackground(ctx, frame, mechanics)).toBe(true);
+      expect(ctx.fillRect).toHaveBeenCalledWith(0, 0, 800, 600);
+    });
+  });
+});
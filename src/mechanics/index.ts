@@ -0,0 +1,169 @@
+import type { GameState } from "../types";
+import type { Shape } from "../utils/geometry";
+import { getWorldMechanics, type WorldMechanics } from "../constants/game";
+import { gravity, growth, orbit, reverseSpin } from "./motion";
+import {
+  breathing,
+  colorShift,
+  eclipse,
+  fog,
+  ghostContainer,
+  mirror,
+  strobe,
+  wave,
+} from "./visual";
+import type {
+  BackgroundFrame,
+  Mechanic,
+  MechanicCanvas,
+  MechanicConfig,
+  MechanicConfigFor,
+  MechanicId,
+  OverlayFrame,
+  RenderContext,
+  ShapeView,
+  SpawnContext,
+} from "./types";
+
+/**
+ * Mechanics registry - every module by id. Each hook below runs the modules
+ * a world lists in order, so later modules see earlier ones' changes.
+ */
+const MECHANICS: { [Id in MechanicId]: Mechanic<MechanicConfigFor<Id>> } = {
+  breathing,
+  growth,
+  wave,
+  colorShift,
+  eclipse,
+  orbit,
+  fog,
+  mirror,
+  reverseSpin,
+  ghostContainer,
+  gravity,
+  strobe,
+};
+
+const getMechanic = (config: MechanicConfig): Mechanic => {
+  return MECHANICS[config.id] as Mechanic;
+};
+
+/**
+ * A mechanic's parameters if the world runs it.
+ */
+export const findMechanic = <Id extends MechanicId>(
+  mechanics: WorldMechanics,
+  id: Id
+): MechanicConfigFor<Id> | undefined => {
+  return mechanics.find(
+    (config): config is MechanicConfigFor<Id> => config.id === id
+  );
+};
+
+/**
+ * Adjust a freshly spawned active shape for its world.
+ */
+export const spawnWithMechanics = (
+  shape: Shape,
+  context: SpawnContext
+): Shape => {
+  return getWorldMechanics(context.state.world).reduce(
+    (current, config) =>
+      getMechanic(config).spawn?.(current, context, config) ?? current,
+    shape
+  );
+};
+
+/**
+ * Factor the world's mechanics apply to the active shape's growth speed.
+ */
+export const getMechanicsGrowthMultiplier = (state: GameState): number => {
+  return getWorldMechanics(state.world).reduce(
+    (multiplier, config) =>
+      multiplier * (getMechanic(config).growthMultiplier?.(state, config) ?? 1),
+    1
+  );
+};
+
+/**
+ * Advance the world's mechanics by one simulation step.
+ * @param dt - Delta time in seconds
+ */
+export const updateMechanics = (state: GameState, dt: number): GameState => {
+  return getWorldMechanics(state.world).reduce(
+    (current, config) =>
+      getMechanic(config).update?.(current, dt, config) ?? current,
+    state
+  );
+};
+
+/**
+ * The active shape as containment judges it: where it really is, and how
+ * it is stacked and drawn.
+ */
+export const getCollisionShape = (state: GameState): Shape | null => {
+  if (!state.activeShape) return null;
+  return getWorldMechanics(state.world).reduce(
+    (shape, config) =>
+      getMechanic(config).transformShapeForCollision?.(shape, state, config) ??
+      shape,
+    state.activeShape
+  );
+};
+
+/**
+ * How the world's mechanics draw a shape.
+ * @param outline - Trace the shape faintly instead of filling it (ghosts)
+ */
+export const getShapeView = (
+  shape: Shape,
+  context: RenderContext,
+  mechanics: WorldMechanics,
+  outline: boolean = false
+): ShapeView => {
+  const view: ShapeView = {
+    shape,
+    hueShift: 0,
+    stroke: null,
+    flip: { x: 1, y: 1 },
+    outline,
+  };
+  return mechanics.reduce(
+    (current, config) =>
+      getMechanic(config).transformShapeForRender?.(current, context, config) ??
+      current,
+    view
+  );
+};
+
+/**
+ * Draw the background of the first mechanic that has its own.
+ * @returns Whether one did; otherwise the theme's background is drawn
+ */
+export const drawMechanicsBackground = (
+  ctx: MechanicCanvas,
+  frame: BackgroundFrame,
+  mechanics: WorldMechanics
+): boolean => {
+  for (const config of mechanics) {
+    const drawBackground = getMechanic(config).drawBackground;
+    if (drawBackground) {
+      drawBackground(ctx, frame, config);
+      return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Draw every mechanic's overlay, in order.
+ */
+export const drawMechanicsOverlay = (
+  ctx: MechanicCanvas,
+  frame: OverlayFrame,
+  mechanics: WorldMechanics
+): void => {
+  mechanics.forEach((config) => {
+    getMechanic(config).drawOverlay?.(ctx, frame, config);
+  });
+};
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import { getGrowthMultiplier, gravity, orbit, reverseSpin } from "./motion";
+import type { MechanicConfigFor } from "./types";
+import { createInitialState, spawnActiveShape } from "../core/gameState";
+import type { Shape } from "../utils/geometry";
+
+const square: Shape = {
+  type: "square",
+  size: 100,
+  rotation: 0.5,
+  color: "#fff",
+  opacity: 1,
+};
+
+describe("motion mechanics", () => {
+  const state = createInitialState(1000, "CLASSIC", 1);
+
+  describe("growth", () => {
+    it("should speed up each stack within a level", () => {
+      expect(getGrowthMultiplier("accelerating", 0)).toBe(1);
+      expect(getGrowthMultiplier("accelerating", 2)).toBe(1.5);
+      expect(getGrowthMultiplier("wave", 0)).toBe(1);
+    });
+  });
+
+  describe("orbit", () => {
+    const config: MechanicConfigFor<"orbit"> = {
+      id: "orbit",
+      radius: 0.35,
+      speed: 0.8,
+    };
+
+    it("should turn the active shape's velocity at the orbit speed", () => {
+      const moving = { ...square, velocity: { x: 10, y: 0 } };
+      const next = orbit.update!({ ...state, activeShape: moving }, 1, config);
+      const velocity = next.activeShape?.velocity;
+      expect(velocity?.x).toBeCloseTo(10 * Math.cos(0.8));
+      expect(velocity?.y).toBeCloseTo(10 * Math.sin(0.8));
+    });
+
+    it("should leave shapes at rest alone", () => {
+      const resting = { ...state, activeShape: square };
+      expect(orbit.update!(resting, 1, config)).toBe(resting);
+    });
+  });
+
+  describe("reverseSpin", () => {
+    const config: MechanicConfigFor<"reverseSpin"> = {
+      id: "reverseSpin",
+      interval: 1,
+    };
+    const judge = (score: number) =>
+      reverseSpin.transformShapeForCollision!(
+        square,
+        { ...state, score },
+        config
+      );
+
+    it("should flip the spin with every stack", () => {
+      expect(judge(0).rotation).toBe(0.5);
+      expect(judge(1).rotation).toBe(-0.5);
+      expect(judge(2).rotation).toBe(0.5);
+    });
+
+    it("should only flip once every interval stacks", () => {
+      const shape = reverseSpin.transformShapeForCollision!(
+        square,
+        { ...state, score: 1 },
+        { ...config, interval: 2 }
+      );
+      expect(shape.rotation).toBe(0.5);
+    });
+  });
+
+  describe("gravity", () => {
+    const config: MechanicConfigFor<"gravity"> = {
+      id: "gravity",
+      sag: 0.12,
+      tilt: 0.6,
+      tiltSpeed: 0.7,
+    };
+
+    it("should sink the shape by a fraction of its size", () => {
+      const shape = gravity.transformShapeForCollision!(square, state, config);
+      expect(shape.position?.x).toBeCloseTo(0);
+      expect(shape.position?.y).toBeCloseTo(12);
+    });
+
+    it("should tilt the way down over time", () => {
+      // A quarter of the sway in, down is tilted fully to one side
+      const elapsedTime = Math.PI / 2 / config.tiltSpeed;
+      const shape = gravity.transformShapeForCollision!(
+        square,
+        { ...state, elapsedTime },
+        config
+      );
+      expect(shape.position?.x).toBeCloseTo(-12 * Math.sin(0.6));
+      expect(shape.position?.y).toBeCloseTo(12 * Math.cos(0.6));
+    });
+
+    it("should keep the shape centred in Rhythm Mode", () => {
+      const rhythm = spawnActiveShape(createInitialState(1000, "RHYTHM", 1));
+      const shape = gravity.transformShapeForCollision!(square, rhythm, config);
+      expect(shape).toBe(square);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import { getPosition, type Shape } from "../utils/geometry";
+import { rotatePoints } from "../shapes/vertices";
+import { createShape } from "../shapes";
+import { getMaxContainedSize } from "../utils/containment";
+import type { RandomSource } from "../utils/random";
+import { STACKS_PER_LEVEL } from "../constants/game";
+import type { Mechanic, MechanicConfigFor } from "./types";
+
+/**
+ * Gameplay mechanics: they change how the active shape grows, moves and is
+ * judged, so they are part of every replayed run.
+ */
+
+/**
+ * Growth speed multiplier for a growth pattern.
+ * @param stackPositionInLevel - Current stack position within the level (0 to STACKS_PER_LEVEL-1)
+ */
+export const getGrowthMultiplier = (
+  pattern: MechanicConfigFor<"growth">["pattern"],
+  stackPositionInLevel: number
+): number => {
+  switch (pattern) {
+    case "accelerating":
+      // Speed increases each stack within level: 1x, 1.25x, 1.5x (for STACKS_PER_LEVEL=3)
+      return 1 + stackPositionInLevel * 0.25;
+    case "wave":
+      // Sinusoidal pattern across level
+      return (
+        1 + Math.sin((stackPositionInLevel / STACKS_PER_LEVEL) * Math.PI) * 0.5
+      );
+  }
+};
+
+export const growth: Mechanic<MechanicConfigFor<"growth">> = {
+  growthMultiplier: (state, config) =>
+    getGrowthMultiplier(config.pattern, state.score % STACKS_PER_LEVEL),
+};
+
+/**
+ * Start a shape off its container's centre. It circles the centre at a
+ * fraction of the room the container has there, so the next shape always
+ * has space to grow wherever it is on its orbit.
+ * @param orbiting - Set it moving around the orbit; otherwise it only starts
+ *   off-centre (Rhythm Mode, whose target size must hold still)
+ */
+export const placeOnOrbit = (
+  shape: Shape,
+  container: Shape,
+  config: MechanicConfigFor<"orbit">,
+  random: RandomSource,
+  orbiting: boolean = true
+): Shape => {
+  const center = getPosition(container);
+  const room =
+    getMaxContainedSize(createShape({ position: center }), container) / 2;
+  const radius = room * config.radius;
+  const angle = random() * Math.PI * 2;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const speed = radius * config.speed;
+
+  return {
+    ...shape,
+    position: { x: center.x + cos * radius, y: center.y + sin * radius },
+    ...(orbiting && { velocity: { x: -sin * speed, y: cos * speed } }),
+  };
+};
+
+/**
+ * The shape moves by its velocity (see moveShape); turning the velocity at
+ * the orbit speed carries it around a circle.
+ */
+export const orbit: Mechanic<MechanicConfigFor<"orbit">> = {
+  spawn: (shape, { state, container, random }, config) =>
+    placeOnOrbit(shape, container, config, random, !state.rhythm),
+  update: (state, dt, config) => {
+    const shape = state.activeShape;
+    if (!shape?.velocity) return state;
+    const [velocity] = rotatePoints([shape.velocity], config.speed * dt);
+    return { ...state, activeShape: { ...shape, velocity } };
+  },
+};
+
+/**
+ * Negating the simulated rotation, which only ever grows, makes the shape
+ * spin the other way. The score decides it, so it holds for the whole life
+ * of each active shape.
+ */
+export const reverseSpin: Mechanic<MechanicConfigFor<"reverseSpin">> = {
+  transformShapeForCollision: (shape, state, config) => {
+    const reversals = Math.floor(state.score / config.interval);
+    if (reversals % 2 === 0) return shape;
+    return { ...shape, rotation: -shape.rotation };
+  },
+};
+
+/**
+ * The active shape's centre sinks by a fraction of its size, so it grows
+ * into the "floor" of its container. Rhythm Mode keeps it centred so its
+ * on-beat size stays safe.
+ */
+export const gravity: Mechanic<MechanicConfigFor<"gravity">> = {
+  transformShapeForCollision: (shape, state, config) => {
+    if (state.rhythm) return shape;
+    const angle =
+      Math.sin(state.elapsedTime * config.tiltSpeed) * config.tilt;
+    const sag = shape.size * config.sag;
+    const position = getPosition(shape);
+    return {
+      ...shape,
+      position: {
+        x: position.x - Math.sin(angle) * sag,
+        y: position.y + Math.cos(angle) * sag,
+      },
+    };
+  },
+};
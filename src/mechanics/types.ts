@@ -0,0 +1,192 @@
+import type { GameState } from "../types";
+import type { Point, Shape } from "../utils/geometry";
+import type { RandomSource } from "../utils/random";
+
+/**
+ * World mechanics - the twists each world adds, as composable modules.
+ * A module implements only the hooks it needs; WORLD_MECHANICS lists the
+ * modules each world runs and their parameters (see constants/game.ts).
+ */
+
+/**
+ * Parameters of each mechanic, by id.
+ */
+export interface MechanicParams {
+  /** Breathing: stacked shapes oscillate in size */
+  breathing: {
+    amplitude: number; // e.g., 0.03 = 3% size variation
+    speed: number; // radians/sec
+  };
+  /** Growth pattern for active shape speed within a level */
+  growth: { pattern: "accelerating" | "wave" };
+  /** Wave: horizontal displacement of stacked shapes only */
+  wave: {
+    amplitude: number; // pixels
+    speed: number; // radians/sec
+  };
+  /** Color shift: hue rotation for stacked shapes */
+  colorShift: { speed: number }; // degrees/sec
+  /** Eclipse: darker background and pulsing container visibility */
+  eclipse: { pulseSpeed: number }; // pulses per second (relative)
+  /** Orbit: the active shape spawns off-centre and circles its container */
+  orbit: {
+    radius: number; // fraction of the container's room around its centre
+    speed: number; // radians/sec
+  };
+  /** Fog of war: only the space around the active shape is visible */
+  fog: {
+    reveal: number; // visible radius, in active shape sizes
+    color: string;
+  };
+  /** Mirror: the whole scene is drawn reflected */
+  mirror: { axis: "horizontal" | "vertical" };
+  /** Reverse spin: every stack flips the active shape's spin */
+  reverseSpin: { interval: number }; // stacks between reversals
+  /** Ghost container: the container is only a faint, fading outline */
+  ghostContainer: { pulseSpeed: number }; // pulses per second
+  /** Gravity tilt: the active shape sinks towards a slowly swaying "down" */
+  gravity: {
+    sag: number; // how far the centre sinks, in active shape sizes
+    tilt: number; // largest swing of "down" either side, radians
+    tiltSpeed: number; // radians/sec
+  };
+  /** Strobe: the scene fades to black between flashes */
+  strobe: {
+    frequency: number; // flashes per second
+    darkness: number; // opacity of the dark phase
+  };
+}
+
+export type MechanicId = keyof MechanicParams;
+
+/**
+ * A mechanic as a world lists it: the module's id and its parameters.
+ */
+export type MechanicConfig = {
+  [Id in MechanicId]: { id: Id } & MechanicParams[Id];
+}[MechanicId];
+
+export type MechanicConfigFor<Id extends MechanicId> = Extract<
+  MechanicConfig,
+  { id: Id }
+>;
+
+/**
+ * Where a freshly spawned active shape is going.
+ */
+export interface SpawnContext {
+  state: GameState;
+  /** The shape it grows inside */
+  container: Shape;
+  /** The run's random source; draws here are part of the replayed run */
+  random: RandomSource;
+}
+
+/**
+ * How a shape is drawn. Render transforms only change this, never the
+ * simulated shape.
+ */
+export interface ShapeView {
+  shape: Shape;
+  /** Degrees the fill's hue is rotated by */
+  hueShift: number;
+  /** Outline drawn in place of the theme's stroke */
+  stroke: { color: string; width: number } | null;
+  /** Reflection applied around the shape's own centre (1 or -1 per axis) */
+  flip: Point;
+  /** Trace the shape faintly instead of filling it (ghosts) */
+  outline: boolean;
+}
+
+export interface RenderContext {
+  /** Time in seconds (for animations) */
+  time: number;
+  zoom: number;
+  /** A stacked shape (vs the active one) */
+  isStacked: boolean;
+  /** The container of the active shape */
+  isContainer: boolean;
+  /** Index of the shape in the stack (for phase offsets) */
+  stackIndex: number;
+}
+
+/**
+ * The part of the canvas API mechanics draw with (kept DOM-free so headless
+ * code can load the modules).
+ */
+export interface MechanicCanvas {
+  /** A colour string or a gradient from this canvas */
+  fillStyle: string | object;
+  fillRect(x: number, y: number, width: number, height: number): void;
+  createRadialGradient(
+    x0: number,
+    y0: number,
+    r0: number,
+    x1: number,
+    y1: number,
+    r1: number
+  ): { addColorStop(offset: number, color: string): void };
+}
+
+export interface BackgroundFrame {
+  width: number;
+  height: number;
+  /** Time in seconds (for animations) */
+  time: number;
+  /** Background pulse (0..1) */
+  pulse: number;
+}
+
+export interface OverlayFrame {
+  width: number;
+  height: number;
+  /** Time in seconds (for animations) */
+  time: number;
+  /** Canvas point world coordinates are drawn around */
+  centerX: number;
+  centerY: number;
+  zoom: number;
+  /** The active shape as drawn, if there is one */
+  active: Shape | null;
+}
+
+/**
+ * A world mechanic. Simulation hooks (spawn, growthMultiplier, update,
+ * transformShapeForCollision) are part of the replayed run and must only
+ * depend on the state; render hooks may use wall-clock time.
+ */
+export interface Mechanic<Config extends MechanicConfig = MechanicConfig> {
+  /** Adjust a freshly spawned or restarted active shape */
+  spawn?: (shape: Shape, context: SpawnContext, config: Config) => Shape;
+  /** Factor on the active shape's growth speed */
+  growthMultiplier?: (state: GameState, config: Config) => number;
+  /** Advance the mechanic by one simulation step, after the active shape */
+  update?: (state: GameState, dt: number, config: Config) => GameState;
+  /**
+   * The active shape as containment judges it. It is stacked as judged and
+   * drawn as judged, so this is where the shape really is.
+   */
+  transformShapeForCollision?: (
+    shape: Shape,
+    state: GameState,
+    config: Config
+  ) => Shape;
+  /** How a shape is drawn, on top of where it really is */
+  transformShapeForRender?: (
+    view: ShapeView,
+    context: RenderContext,
+    config: Config
+  ) => ShapeView;
+  /** Draw the world's own background in place of the theme's */
+  drawBackground?: (
+    ctx: MechanicCanvas,
+    frame: BackgroundFrame,
+    config: Config
+  ) => void;
+  /** Draw over the finished scene (shapes and ghost, before particles) */
+  drawOverlay?: (
+    ctx: MechanicCanvas,
+    frame: OverlayFrame,
+    config: Config
+  ) => void;
+}
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi } from "vitest";
+import { fog, ghostContainer, mirror, strobe } from "./visual";
+import type {
+  MechanicCanvas,
+  MechanicConfigFor,
+  RenderContext,
+  ShapeView,
+} from "./types";
+import type { Shape } from "../utils/geometry";
+
+const createMockCanvas = () => {
+  const gradient = { addColorStop: vi.fn() };
+  return {
+    fillStyle: "",
+    fillRect: vi.fn(),
+    createRadialGradient: vi.fn().mockReturnValue(gradient),
+    gradient,
+  } satisfies MechanicCanvas & { gradient: unknown };
+};
+
+const shape: Shape = {
+  type: "triangle",
+  size: 100,
+  rotation: 0.5,
+  color: "#fff",
+  opacity: 1,
+  position: { x: 20, y: 10 },
+};
+
+const view: ShapeView = {
+  shape,
+  hueShift: 0,
+  stroke: null,
+  flip: { x: 1, y: 1 },
+  outline: false,
+};
+
+const context: RenderContext = {
+  time: 0,
+  zoom: 1,
+  isStacked: true,
+  isContainer: false,
+  stackIndex: 0,
+};
+
+const frame = {
+  width: 800,
+  height: 600,
+  time: 0,
+  centerX: 400,
+  centerY: 300,
+  zoom: 2,
+  active: shape,
+};
+
+describe("visual mechanics", () => {
+  describe("mirror", () => {
+    const config: MechanicConfigFor<"mirror"> = {
+      id: "mirror",
+      axis: "horizontal",
+    };
+
+    it("should reflect shapes and their place around the centre", () => {
+      const mirrored = mirror.transformShapeForRender!(view, context, config);
+      expect(mirrored.shape.position).toEqual({ x: -20, y: 10 });
+      expect(mirrored.shape.rotation).toBe(-0.5);
+      expect(mirrored.flip).toEqual({ x: -1, y: 1 });
+    });
+
+    it("should undo itself when applied twice", () => {
+      const once = mirror.transformShapeForRender!(view, context, config);
+      const twice = mirror.transformShapeForRender!(once, context, config);
+      expect(twice.shape).toEqual(shape);
+      expect(twice.flip).toEqual({ x: 1, y: 1 });
+    });
+
+    it("should reflect top to bottom on the vertical axis", () => {
+      const flipped = mirror.transformShapeForRender!(view, context, {
+        ...config,
+        axis: "vertical",
+      });
+      expect(flipped.shape.position).toEqual({ x: 20, y: -10 });
+      expect(flipped.flip).toEqual({ x: 1, y: -1 });
+    });
+  });
+
+  describe("ghostContainer", () => {
+    const config: MechanicConfigFor<"ghostContainer"> = {
+      id: "ghostContainer",
+      pulseSpeed: 0.4,
+    };
+
+    it("should only outline the container", () => {
+      const { transformShapeForRender } = ghostContainer;
+      expect(transformShapeForRender!(view, context, config)).toBe(view);
+      const container = { ...context, isContainer: true };
+      const ghost = transformShapeForRender!(view, container, config);
+      expect(ghost.outline).toBe(true);
+    });
+
+    it("should fade the outline without losing it", () => {
+      // Three quarters of a pulse in, the pulse is at its lowest
+      const time = 0.75 / config.pulseSpeed;
+      const ghost = ghostContainer.transformShapeForRender!(
+        view,
+        { ...context, time, isContainer: true },
+        config
+      );
+      expect(ghost.shape.opacity).toBeCloseTo(0.25);
+    });
+  });
+
+  describe("fog", () => {
+    const config: MechanicConfigFor<"fog"> = {
+      id: "fog",
+      reveal: 0.8,
+      color: "rgba(8, 8, 16, 0.94)",
+    };
+
+    it("should clear the fog around the active shape", () => {
+      const ctx = createMockCanvas();
+      fog.drawOverlay!(ctx, frame, config);
+      // 100 units at zoom 2, centred on (400 + 40, 300 + 20)
+      expect(ctx.createRadialGradient).toHaveBeenCalledWith(
+        440,
+        320,
+        96,
+        440,
+        320,
+        160
+      );
+      expect(ctx.gradient.addColorStop).toHaveBeenLastCalledWith(
+        1,
+        config.color
+      );
+      expect(ctx.fillRect).toHaveBeenCalledWith(0, 0, 800, 600);
+    });
+
+    it("should draw nothing without an active shape", () => {
+      const ctx = createMockCanvas();
+      fog.drawOverlay!(ctx, { ...frame, active: null }, config);
+      expect(ctx.fillRect).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("strobe", () => {
+    const config: MechanicConfigFor<"strobe"> = {
+      id: "strobe",
+      frequency: 1,
+      darkness: 0.9,
+    };
+
+    it("should leave the scene visible at the flash", () => {
+      const ctx = createMockCanvas();
+      const time = 0.25 / config.frequency;
+      strobe.drawOverlay!(ctx, { ...frame, time }, config);
+      expect(ctx.fillRect).not.toHaveBeenCalled();
+    });
+
+    it("should darken the scene between flashes", () => {
+      const ctx = createMockCanvas();
+      const time = 0.75 / config.frequency;
+      strobe.drawOverlay!(ctx, { ...frame, time }, config);
+      expect(ctx.fillStyle).toBe("rgba(0, 0, 0, 0.9)");
+      expect(ctx.fillRect).toHaveBeenCalledWith(0, 0, 800, 600);
+    });
+  });
+});
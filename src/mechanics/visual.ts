@@ -0,0 +1,162 @@
+import { getPosition } from "../utils/geometry";
+import type { Mechanic, MechanicConfigFor } from "./types";
+
+/**
+ * Visual mechanics: they only change how the scene is drawn, never the
+ * simulated run.
+ */
+
+export const breathing: Mechanic<MechanicConfigFor<"breathing">> = {
+  transformShapeForRender: (view, { time, isStacked, stackIndex }, config) => {
+    if (!isStacked) return view;
+    const sizeMultiplier =
+      1 + Math.sin(time * config.speed + stackIndex * 0.3) * config.amplitude;
+    const size = view.shape.size * sizeMultiplier;
+    return { ...view, shape: { ...view.shape, size } };
+  },
+};
+
+/**
+ * The active shape stays still for fair gameplay; the sway is in pixels, so
+ * it looks the same at every zoom.
+ */
+export const wave: Mechanic<MechanicConfigFor<"wave">> = {
+  transformShapeForRender: (view, context, config) => {
+    if (!context.isStacked) return view;
+    const offset =
+      Math.sin(context.time * config.speed + context.stackIndex * 0.5) *
+      config.amplitude;
+    const position = getPosition(view.shape);
+    return {
+      ...view,
+      shape: {
+        ...view.shape,
+        position: { x: position.x + offset / context.zoom, y: position.y },
+      },
+    };
+  },
+};
+
+export const colorShift: Mechanic<MechanicConfigFor<"colorShift">> = {
+  transformShapeForRender: (view, { time, isStacked, stackIndex }, config) => {
+    if (!isStacked) return view;
+    const hueShift = time * config.speed + stackIndex * 30;
+    return { ...view, hueShift: view.hueShift + hueShift };
+  },
+};
+
+/**
+ * Stacked shapes are almost invisible; the container shows itself through
+ * a pulsing outline.
+ */
+export const eclipse: Mechanic<MechanicConfigFor<"eclipse">> = {
+  transformShapeForRender: (view, { time, isStacked, isContainer }, config) => {
+    if (!isStacked) return view;
+    const shape = { ...view.shape, opacity: isContainer ? 0.05 : 0.02 };
+    if (!isContainer) return { ...view, shape };
+    const pulse = (Math.sin(time * Math.PI * 2 * config.pulseSpeed) + 1) / 2;
+    return {
+      ...view,
+      shape,
+      stroke: { color: `rgba(255, 255, 255, ${0.1 + pulse * 0.5})`, width: 4 },
+    };
+  },
+  drawBackground: (ctx, { width, height, pulse }) => {
+    // Pitch black background
+    ctx.fillStyle = "#100e0eff";
+    ctx.fillRect(0, 0, width, height);
+
+    // Very subtle center glow
+    const grad = ctx.createRadialGradient(
+      width / 2,
+      height / 2,
+      0,
+      width / 2,
+      height / 2,
+      width * 0.5
+    );
+    grad.addColorStop(0, `rgba(255, 255, 255, ${0.01 + pulse * 0.005})`);
+    grad.addColorStop(1, "rgba(0, 0, 0, 0)");
+    ctx.fillStyle = grad;
+    ctx.fillRect(0, 0, width, height);
+  },
+};
+
+/**
+ * Everything beyond a radius around the active shape is hidden, so the
+ * container's edge only shows once the shape is close to it.
+ */
+export const fog: Mechanic<MechanicConfigFor<"fog">> = {
+  drawOverlay: (ctx, frame, config) => {
+    const { width, height, centerX, centerY, zoom, active } = frame;
+    if (!active) return;
+    const position = getPosition(active);
+    const x = centerX + position.x * zoom;
+    const y = centerY + position.y * zoom;
+    const radius = active.size * zoom * config.reveal;
+
+    // Clear around the shape, thickening to solid fog at the radius
+    const grad = ctx.createRadialGradient(x, y, radius * 0.6, x, y, radius);
+    grad.addColorStop(0, "rgba(0, 0, 0, 0)");
+    grad.addColorStop(1, config.color);
+    ctx.fillStyle = grad;
+    ctx.fillRect(0, 0, width, height);
+  },
+};
+
+/**
+ * Reflecting every shape, and its place around the centre, mirrors the
+ * scene: the active shape seems to spin and drift the other way.
+ */
+export const mirror: Mechanic<MechanicConfigFor<"mirror">> = {
+  transformShapeForRender: (view, _context, config) => {
+    const horizontal = config.axis === "horizontal";
+    const position = getPosition(view.shape);
+    return {
+      ...view,
+      shape: {
+        ...view.shape,
+        rotation: -view.shape.rotation,
+        position: horizontal
+          ? { x: -position.x, y: position.y }
+          : { x: position.x, y: -position.y },
+      },
+      flip: horizontal
+        ? { x: -view.flip.x, y: view.flip.y }
+        : { x: view.flip.x, y: -view.flip.y },
+    };
+  },
+};
+
+/**
+ * The container is traced like a ghost run, fading in and out but never
+ * quite gone.
+ */
+export const ghostContainer: Mechanic<
+  MechanicConfigFor<"ghostContainer">
+> = {
+  transformShapeForRender: (view, { time, isContainer }, config) => {
+    if (!isContainer) return view;
+    const pulse = (Math.sin(time * Math.PI * 2 * config.pulseSpeed) + 1) / 2;
+    const opacity = view.shape.opacity * (0.25 + pulse * 0.75);
+    return {
+      ...view,
+      shape: { ...view.shape, opacity },
+      outline: true,
+    };
+  },
+};
+
+/**
+ * A soft fade rather than a hard flash, kept well under three flashes a
+ * second.
+ */
+export const strobe: Mechanic<MechanicConfigFor<"strobe">> = {
+  drawOverlay: (ctx, { width, height, time }, config) => {
+    const light = Math.max(0, Math.sin(time * Math.PI * 2 * config.frequency));
+    const alpha = config.darkness * (1 - light);
+    if (alpha <= 0) return;
+    ctx.fillStyle = `rgba(0, 0, 0, ${alpha})`;
+    ctx.fillRect(0, 0, width, height);
+  },
+};
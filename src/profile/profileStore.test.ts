@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  IndexedDbProfileStore,
+  LocalStorageProfileStore,
+  createProfileStore,
+} from "./profileStore";
+import type { RunRecord } from "./types";
+
+const run: RunRecord = {
+  mode: "CLASSIC",
+  seed: 7,
+  score: 12,
+  world: 1,
+  level: 4,
+  duration: 41.5,
+  perfects: 2,
+  deathPair: { active: "square", container: "circle" },
+  timestamp: "2026-03-01T12:00:00.000Z",
+};
+
+describe("profileStore", () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe("LocalStorageProfileStore", () => {
+    it("should keep every run in order", async () => {
+      const store = new LocalStorageProfileStore();
+      await store.addRun(run);
+      await store.addRun({ ...run, score: 3 });
+      const runs = await store.getRuns();
+      expect(runs.map((saved) => saved.score)).toEqual([12, 3]);
+      expect(runs[0]).toEqual(run);
+    });
+
+    it("should clear the history", async () => {
+      const store = new LocalStorageProfileStore();
+      await store.addRun(run);
+      await store.clear();
+      expect(await store.getRuns()).toEqual([]);
+    });
+  });
+
+  describe("IndexedDbProfileStore", () => {
+    it("should fall back when the database can't be opened", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      vi.stubGlobal("indexedDB", {
+        open: () => {
+          const req = {
+            error: new Error("blocked"),
+          } as unknown as IDBOpenDBRequest;
+          setTimeout(() => req.onerror?.(new Event("error")));
+          return req;
+        },
+      });
+      const fallback = new LocalStorageProfileStore();
+      const store = new IndexedDbProfileStore(fallback);
+      await store.addRun(run);
+      expect(await store.getRuns()).toEqual([run]);
+      expect(await fallback.getRuns()).toEqual([run]);
+    });
+
+    it("should fall back when opening throws", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      vi.stubGlobal("indexedDB", {
+        open: () => {
+          throw new DOMException("storage disabled", "SecurityError");
+        },
+      });
+      const store = new IndexedDbProfileStore();
+      await store.addRun(run);
+      expect(await store.getRuns()).toEqual([run]);
+    });
+
+    it("should fall back when another tab blocks the database", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      vi.stubGlobal("indexedDB", {
+        open: () => {
+          const req = {} as IDBOpenDBRequest;
+          setTimeout(() =>
+            req.onblocked?.(new Event("blocked") as IDBVersionChangeEvent)
+          );
+          return req;
+        },
+      });
+      const store = new IndexedDbProfileStore();
+      await store.addRun(run);
+      expect(await store.getRuns()).toEqual([run]);
+    });
+  });
+
+  describe("createProfileStore", () => {
+    it("should use localStorage without IndexedDB", () => {
+      vi.stubGlobal("indexedDB", undefined);
+      expect(createProfileStore()).toBeInstanceOf(LocalStorageProfileStore);
+    });
+  });
+});
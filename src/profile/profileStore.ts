@@ -0,0 +1,135 @@
+import type { IProfileStore, RunRecord } from "./types";
+
+const DB_NAME = "shape-stack-profile";
+const DB_VERSION = 1;
+const RUNS_STORE = "runs";
+
+const RUNS_KEY = "shape-stack-runs";
+
+/**
+ * Profile store backed by localStorage. Used where IndexedDB is missing or
+ * refuses to open (some private browsing modes).
+ */
+export class LocalStorageProfileStore implements IProfileStore {
+  async addRun(run: RunRecord): Promise<void> {
+    const runs = await this.getRuns();
+    try {
+      localStorage.setItem(RUNS_KEY, JSON.stringify([...runs, run]));
+    } catch (e) {
+      console.error("Failed to save run", e);
+    }
+  }
+
+  async getRuns(): Promise<RunRecord[]> {
+    try {
+      const runs = localStorage.getItem(RUNS_KEY);
+      return runs ? JSON.parse(runs) : [];
+    } catch (e) {
+      console.error("Failed to load runs", e);
+      return [];
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      localStorage.removeItem(RUNS_KEY);
+    } catch (e) {
+      console.error("Failed to clear runs", e);
+    }
+  }
+}
+
+/**
+ * Wrap an IndexedDB request in a promise.
+ */
+const request = <T>(req: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+};
+
+/**
+ * Profile store backed by IndexedDB: one auto-numbered record per run, so
+ * the whole history is kept without rewriting it on every run.
+ * Falls back to another store if the database can't be opened.
+ */
+export class IndexedDbProfileStore implements IProfileStore {
+  private db: Promise<IDBDatabase | null> | null = null;
+  private fallback: IProfileStore;
+
+  constructor(fallback: IProfileStore = new LocalStorageProfileStore()) {
+    this.fallback = fallback;
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.db) {
+      this.db = new Promise<IDBDatabase>((resolve, reject) => {
+        // Throws outright where storage is disabled (SecurityError)
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = () => {
+          req.result.createObjectStore(RUNS_STORE, { autoIncrement: true });
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+        // Another tab holds an older version open; don't wait on it
+        req.onblocked = () => reject(new Error("Profile database blocked"));
+      }).catch((e) => {
+        console.error("Failed to open profile database", e);
+        return null;
+      });
+    }
+    return this.db;
+  }
+
+  private async transact<T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T | null> {
+    const db = await this.open();
+    if (!db) return null;
+    const store = db.transaction(RUNS_STORE, mode).objectStore(RUNS_STORE);
+    return request(run(store));
+  }
+
+  async addRun(run: RunRecord): Promise<void> {
+    if ((await this.open()) === null) return this.fallback.addRun(run);
+    try {
+      await this.transact("readwrite", (store) => store.add(run));
+    } catch (e) {
+      console.error("Failed to save run", e);
+    }
+  }
+
+  async getRuns(): Promise<RunRecord[]> {
+    if ((await this.open()) === null) return this.fallback.getRuns();
+    try {
+      // Keys increase with every run, so key order is oldest first
+      const runs = await this.transact("readonly", (store) => store.getAll());
+      return (runs as RunRecord[] | null) ?? [];
+    } catch (e) {
+      console.error("Failed to load runs", e);
+      return [];
+    }
+  }
+
+  async clear(): Promise<void> {
+    if ((await this.open()) === null) return this.fallback.clear();
+    try {
+      await this.transact("readwrite", (store) => store.clear());
+    } catch (e) {
+      console.error("Failed to clear runs", e);
+    }
+  }
+}
+
+/**
+ * The best store this browser supports.
+ */
+export const createProfileStore = (): IProfileStore => {
+  return typeof indexedDB === "undefined"
+    ? new LocalStorageProfileStore()
+    : new IndexedDbProfileStore();
+};
+
+export const profileStore: IProfileStore = createProfileStore();
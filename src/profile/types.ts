@@ -0,0 +1,41 @@
+import type { GameMode, ShapePair } from "../types";
+
+/**
+ * One finished run, as kept in the player profile.
+ */
+export interface RunRecord {
+  mode: GameMode;
+  seed: number;
+  score: number;
+  world: number;
+  level: number;
+  /** Simulated seconds played */
+  duration: number;
+  /** Perfect stacks in the run */
+  perfects: number;
+  /** Shapes involved in the final miss; null if the run timed out */
+  deathPair: ShapePair | null;
+  /** When the run ended (ISO 8601) */
+  timestamp: string;
+}
+
+/**
+ * Profile store interface - where finished runs are persisted.
+ * Asynchronous because the main implementation is IndexedDB.
+ */
+export interface IProfileStore {
+  /**
+   * Record a finished run.
+   */
+  addRun(run: RunRecord): Promise<void>;
+
+  /**
+   * Every recorded run, oldest first.
+   */
+  getRuns(): Promise<RunRecord[]>;
+
+  /**
+   * Forget every recorded run.
+   */
+  clear(): Promise<void>;
+}
@@ -0,0 +1,141 @@
+import { describe, it, expect } from "vitest";
+import {
+  EFFECTS_POOL_SIZE,
+  LEVEL_UP_RING_COUNT,
+  PERFECT_SHARD_COUNT,
+  SHATTER_FRAGMENT_COUNT,
+  addCameraShake,
+  createEffectsState,
+  emitLevelUpRipple,
+  emitPerfectShards,
+  emitShatter,
+  getActiveParticles,
+  getShakeOffset,
+  hasActiveEffects,
+  updateEffects,
+} from "./effects";
+import type { Shape } from "../utils/geometry";
+
+const square: Shape = {
+  type: "square",
+  size: 100,
+  rotation: 0,
+  color: "#3b82f6",
+  opacity: 1,
+};
+
+describe("effects", () => {
+  it("should start with an empty pool and no shake", () => {
+    const effects = createEffectsState();
+    expect(effects.particles).toHaveLength(EFFECTS_POOL_SIZE);
+    expect(getActiveParticles(effects)).toHaveLength(0);
+    expect(getShakeOffset(effects)).toEqual({ x: 0, y: 0 });
+    expect(hasActiveEffects(effects)).toBe(false);
+  });
+
+  it("should emit perfect shards on the outline at the given zoom", () => {
+    const effects = emitPerfectShards(createEffectsState(), square, 2);
+    const shards = getActiveParticles(effects);
+
+    expect(shards).toHaveLength(PERFECT_SHARD_COUNT);
+    shards.forEach((shard) => {
+      expect(shard.kind).toBe("shard");
+      expect(shard.color).toBe(square.color);
+      // On the square's edge (half size 50, zoomed x2)
+      const edge = Math.max(Math.abs(shard.x), Math.abs(shard.y));
+      expect(edge).toBeCloseTo(100);
+      // Flying outwards
+      expect(shard.x * shard.vx + shard.y * shard.vy).toBeGreaterThan(0);
+    });
+  });
+
+  it("should shatter a circle into fragments on its circumference", () => {
+    const circle: Shape = { ...square, type: "circle" };
+    const fragments = getActiveParticles(
+      emitShatter(createEffectsState(), circle, 1),
+    );
+
+    expect(fragments).toHaveLength(SHATTER_FRAGMENT_COUNT);
+    fragments.forEach((fragment) => {
+      expect(fragment.kind).toBe("fragment");
+      expect(Math.hypot(fragment.x, fragment.y)).toBeCloseTo(50);
+    });
+  });
+
+  it("should emit expanding ripple rings", () => {
+    let effects = emitLevelUpRipple(createEffectsState(), 80, "#fff");
+    const [first] = getActiveParticles(effects);
+    expect(getActiveParticles(effects)).toHaveLength(LEVEL_UP_RING_COUNT);
+    expect(first.size).toBe(80);
+
+    effects = updateEffects(effects, 0.1);
+    expect(getActiveParticles(effects)[0].size).toBeGreaterThan(80);
+  });
+
+  it("should not mutate the input state", () => {
+    const effects = createEffectsState();
+    const emitted = emitShatter(effects, square, 1);
+    updateEffects(emitted, 0.1);
+
+    expect(getActiveParticles(effects)).toHaveLength(0);
+    expect(getActiveParticles(emitted)[0].life).toBe(
+      getActiveParticles(emitted)[0].maxLife,
+    );
+  });
+
+  it("should be deterministic for a seed", () => {
+    const a = emitShatter(createEffectsState(7), square, 1);
+    const b = emitShatter(createEffectsState(7), square, 1);
+    expect(a).toEqual(b);
+  });
+
+  it("should move particles and pull fragments down", () => {
+    const effects = emitShatter(createEffectsState(), square, 1);
+    const before = getActiveParticles(effects)[0];
+    const after = getActiveParticles(updateEffects(effects, 0.1))[0];
+
+    expect(after.x).toBeCloseTo(before.x + before.vx * 0.1);
+    expect(after.vy).toBeCloseTo(before.vy + before.gravity * 0.1);
+    expect(after.life).toBeCloseTo(before.life - 0.1);
+  });
+
+  it("should free slots when particles die", () => {
+    let effects = emitPerfectShards(createEffectsState(), square, 1);
+    effects = updateEffects(effects, 1);
+    expect(getActiveParticles(effects)).toHaveLength(0);
+    expect(effects.particles).toHaveLength(EFFECTS_POOL_SIZE);
+  });
+
+  it("should recycle the oldest slots when the pool is full", () => {
+    let effects = createEffectsState();
+    const bursts = Math.ceil(EFFECTS_POOL_SIZE / SHATTER_FRAGMENT_COUNT) + 1;
+    for (let i = 0; i < bursts; i++) {
+      effects = emitShatter(effects, square, 1);
+    }
+
+    expect(effects.particles).toHaveLength(EFFECTS_POOL_SIZE);
+    expect(getActiveParticles(effects)).toHaveLength(EFFECTS_POOL_SIZE);
+    expect(effects.nextSlot).toBe(
+      (bursts * SHATTER_FRAGMENT_COUNT) % EFFECTS_POOL_SIZE,
+    );
+  });
+
+  it("should decay the camera shake to rest", () => {
+    let effects = addCameraShake(createEffectsState(), 10);
+    effects = updateEffects(effects, 0.05);
+    const offset = getShakeOffset(effects);
+
+    expect(effects.shake.magnitude).toBeLessThan(10);
+    expect(Math.hypot(offset.x, offset.y)).toBeGreaterThan(0);
+
+    effects = updateEffects(effects, 2);
+    expect(effects.shake.magnitude).toBe(0);
+    expect(hasActiveEffects(effects)).toBe(false);
+  });
+
+  it("should cap stacked shakes", () => {
+    let effects = createEffectsState();
+    for (let i = 0; i < 10; i++) effects = addCameraShake(effects, 18);
+    expect(effects.shake.magnitude).toBe(30);
+  });
+});
@@ -0,0 +1,345 @@
+import { getPosition, type Point, type Shape } from "../utils/geometry";
+import {
+  getEllipsePoint,
+  getOutline,
+  type Outline,
+} from "../utils/containment";
+import { nextRandom } from "../utils/random";
+
+/**
+ * Effects - particles and camera shake layered over the game ("juice").
+ * Purely cosmetic: effects never feed back into GameState, so seeded runs and
+ * replays are unaffected. Like gameState.ts, every function is pure:
+ * effects state in, new effects state out.
+ *
+ * Particles live in screen pixels relative to the canvas center, captured at
+ * the zoom of the moment they were emitted, so they keep their speed and size
+ * while the stack zooms in behind them.
+ */
+
+export type ParticleKind = "shard" | "ring" | "fragment";
+
+export interface Particle {
+  kind: ParticleKind;
+  x: number;
+  y: number;
+  /** Velocity in pixels per second */
+  vx: number;
+  vy: number;
+  rotation: number;
+  /** Angular velocity in radians per second */
+  spin: number;
+  /** Shard/fragment edge length, or ring radius, in pixels */
+  size: number;
+  /** Ring radius growth in pixels per second */
+  growth: number;
+  /** Downward acceleration in pixels per second squared */
+  gravity: number;
+  color: string;
+  /** Seconds left to live, and the lifetime it started with */
+  life: number;
+  maxLife: number;
+}
+
+export interface CameraShake {
+  /** Current offset amplitude in pixels */
+  magnitude: number;
+  /** Seconds since effects started (drives the shake pattern) */
+  time: number;
+}
+
+export interface EffectsState {
+  /**
+   * Fixed-size particle pool; null slots are free. Emitting writes into the
+   * slot after the last one used, recycling the oldest particle when full.
+   */
+  particles: (Particle | null)[];
+  nextSlot: number;
+  shake: CameraShake;
+  /** PRNG state for particle spread (mulberry32, see utils/random) */
+  rngState: number;
+}
+
+export const EFFECTS_POOL_SIZE = 256;
+
+export const PERFECT_SHARD_COUNT = 24;
+export const SHATTER_FRAGMENT_COUNT = 36;
+export const LEVEL_UP_RING_COUNT = 3;
+
+/** Shake amplitude added on a miss, and on a game-ending miss */
+export const MISS_SHAKE = 8;
+export const GAME_OVER_SHAKE = 18;
+const MAX_SHAKE = 30;
+/** Exponential shake decay rate per second */
+const SHAKE_DECAY = 6;
+/** Below this amplitude (pixels) the shake stops */
+const SHAKE_THRESHOLD = 0.1;
+
+const FRAGMENT_GRAVITY = 600;
+const RING_SPACING = 0.12;
+
+/**
+ * Seconds the game over shatter plays before the game over screen appears.
+ */
+export const GAME_OVER_EFFECT_DURATION = 0.8;
+
+export const createEffectsState = (seed: number = 1): EffectsState => ({
+  particles: new Array<Particle | null>(EFFECTS_POOL_SIZE).fill(null),
+  nextSlot: 0,
+  shake: { magnitude: 0, time: 0 },
+  rngState: seed >>> 0,
+});
+
+/**
+ * Emit particles built from uniform random values.
+ * @param build - Builds the i-th particle; random() returns a value in [0, 1)
+ */
+const emit = (
+  effects: EffectsState,
+  count: number,
+  build: (i: number, random: () => number) => Particle,
+): EffectsState => {
+  const particles = effects.particles.slice();
+  let rngState = effects.rngState;
+  let slot = effects.nextSlot;
+
+  const random = () => {
+    const result = nextRandom(rngState);
+    rngState = result.state;
+    return result.value;
+  };
+
+  for (let i = 0; i < count; i++) {
+    particles[slot] = build(i, random);
+    slot = (slot + 1) % particles.length;
+  }
+
+  return { ...effects, particles, nextSlot: slot, rngState };
+};
+
+/**
+ * Point at a fraction (0..1) of the way around an outline.
+ */
+const getOutlinePoint = (outline: Outline, t: number): Point => {
+  if (outline.kind === "circle") {
+    const angle = t * Math.PI * 2;
+    return {
+      x: outline.center.x + Math.cos(angle) * outline.radius,
+      y: outline.center.y + Math.sin(angle) * outline.radius,
+    };
+  }
+  if (outline.kind === "ellipse") {
+    return getEllipsePoint(outline.center, outline.axes, t * Math.PI * 2);
+  }
+
+  const { vertices } = outline;
+  const lengths = vertices.map((a, i) => {
+    const b = vertices[(i + 1) % vertices.length];
+    return Math.hypot(b.x - a.x, b.y - a.y);
+  });
+  const perimeter = lengths.reduce((sum, length) => sum + length, 0);
+
+  let distance = t * perimeter;
+  for (let i = 0; i < vertices.length; i++) {
+    if (distance <= lengths[i] || i === vertices.length - 1) {
+      const a = vertices[i];
+      const b = vertices[(i + 1) % vertices.length];
+      const f = lengths[i] > 0 ? Math.min(1, distance / lengths[i]) : 0;
+      return { x: a.x + (b.x - a.x) * f, y: a.y + (b.y - a.y) * f };
+    }
+    distance -= lengths[i];
+  }
+  return vertices[0];
+};
+
+/**
+ * Unit vector pointing from a shape's center through a point.
+ */
+const getOutward = (point: Point, center: Point): Point => {
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  const length = Math.hypot(dx, dy);
+  return length > 0 ? { x: dx / length, y: dy / length } : { x: 0, y: -1 };
+};
+
+/**
+ * Perfect stack: small shards flying off the outline of the stacked shape.
+ * @param zoom - Zoom the shape is currently drawn at
+ */
+export const emitPerfectShards = (
+  effects: EffectsState,
+  shape: Shape,
+  zoom: number,
+): EffectsState => {
+  const outline = getOutline(shape);
+  return emit(effects, PERFECT_SHARD_COUNT, (i, random) => {
+    const t = (i + random()) / PERFECT_SHARD_COUNT;
+    const point = getOutlinePoint(outline, t);
+    const outward = getOutward(point, getPosition(shape));
+    const speed = 60 + random() * 100;
+    const life = 0.5 + random() * 0.4;
+    return {
+      kind: "shard",
+      x: point.x * zoom,
+      y: point.y * zoom,
+      vx: outward.x * speed,
+      vy: outward.y * speed,
+      rotation: random() * Math.PI * 2,
+      spin: (random() - 0.5) * 12,
+      size: 3 + random() * 4,
+      growth: 0,
+      gravity: 0,
+      color: shape.color,
+      life,
+      maxLife: life,
+    };
+  });
+};
+
+/**
+ * Level up: concentric rings rippling out from the container's edge.
+ * Later rings start smaller and live longer, so they trail the first.
+ * @param radius - Starting radius in pixels
+ */
+export const emitLevelUpRipple = (
+  effects: EffectsState,
+  radius: number,
+  color: string,
+): EffectsState => {
+  return emit(effects, LEVEL_UP_RING_COUNT, (i) => {
+    const life = 0.9 + i * RING_SPACING;
+    return {
+      kind: "ring",
+      x: 0,
+      y: 0,
+      vx: 0,
+      vy: 0,
+      rotation: 0,
+      spin: 0,
+      size: radius * (1 - i * 0.15),
+      growth: 220 + i * 40,
+      gravity: 0,
+      color,
+      life,
+      maxLife: life,
+    };
+  });
+};
+
+/**
+ * Miss: the container breaks into fragments that burst out and fall.
+ * @param zoom - Zoom the shape is currently drawn at
+ */
+export const emitShatter = (
+  effects: EffectsState,
+  shape: Shape,
+  zoom: number,
+): EffectsState => {
+  const outline = getOutline(shape);
+  return emit(effects, SHATTER_FRAGMENT_COUNT, (i, random) => {
+    const t = (i + random()) / SHATTER_FRAGMENT_COUNT;
+    const point = getOutlinePoint(outline, t);
+    const outward = getOutward(point, getPosition(shape));
+    const speed = 120 + random() * 240;
+    const life = 0.6 + random() * 0.5;
+    return {
+      kind: "fragment",
+      x: point.x * zoom,
+      y: point.y * zoom,
+      vx: outward.x * speed,
+      vy: outward.y * speed - 80,
+      rotation: random() * Math.PI * 2,
+      spin: (random() - 0.5) * 16,
+      size: 6 + random() * 10,
+      growth: 0,
+      gravity: FRAGMENT_GRAVITY,
+      color: shape.color,
+      life,
+      maxLife: life,
+    };
+  });
+};
+
+/**
+ * Kick the camera. Shakes add up to a cap and decay exponentially.
+ * @param magnitude - Offset amplitude in pixels
+ */
+export const addCameraShake = (
+  effects: EffectsState,
+  magnitude: number,
+): EffectsState => {
+  return {
+    ...effects,
+    shake: {
+      ...effects.shake,
+      magnitude: Math.min(MAX_SHAKE, effects.shake.magnitude + magnitude),
+    },
+  };
+};
+
+/**
+ * Advance every particle and the camera shake.
+ * @param dt - Delta time in seconds
+ */
+export const updateEffects = (
+  effects: EffectsState,
+  dt: number,
+): EffectsState => {
+  const particles = effects.particles.map((particle) => {
+    if (!particle) return null;
+    const life = particle.life - dt;
+    if (life <= 0) return null;
+    const vy = particle.vy + particle.gravity * dt;
+    return {
+      ...particle,
+      x: particle.x + particle.vx * dt,
+      y: particle.y + vy * dt,
+      vy,
+      rotation: particle.rotation + particle.spin * dt,
+      size: particle.size + particle.growth * dt,
+      life,
+    };
+  });
+
+  const decayed = effects.shake.magnitude * Math.exp(-SHAKE_DECAY * dt);
+  return {
+    ...effects,
+    particles,
+    shake: {
+      magnitude: decayed < SHAKE_THRESHOLD ? 0 : decayed,
+      time: effects.shake.time + dt,
+    },
+  };
+};
+
+/**
+ * Camera offset in pixels to add to the canvas center this frame.
+ * Two incommensurate frequencies keep the shake from looking periodic.
+ */
+export const getShakeOffset = (effects: EffectsState): Point => {
+  const { magnitude, time } = effects.shake;
+  if (magnitude === 0) return { x: 0, y: 0 };
+  return {
+    x: Math.sin(time * 53) * magnitude,
+    y: Math.cos(time * 41) * magnitude,
+  };
+};
+
+/**
+ * Live particles, oldest slot first.
+ */
+export const getActiveParticles = (effects: EffectsState): Particle[] => {
+  return effects.particles.filter(
+    (particle): particle is Particle => particle !== null,
+  );
+};
+
+/**
+ * Whether anything is still animating.
+ */
+export const hasActiveEffects = (effects: EffectsState): boolean => {
+  return (
+    effects.shake.magnitude > 0 ||
+    effects.particles.some((particle) => particle !== null)
+  );
+};
@@ -5,9 +5,25 @@ import {
   drawBackground,
   clearCanvas,
   drawShapeStack,
+  drawGameState,
 } from "./shapeRenderer";
 import type { Shape } from "../utils/geometry";
 import { getWorldMechanics } from "../constants/game";
+import { SHAPE_TYPES } from "../shapes/registry";
+import { createInitialState, spawnActiveShape } from "../core/gameState";
+import {
+  CYBERPUNK_THEME,
+  NATURE_THEME,
+  VAPORWAVE_THEME,
+} from "./themes";
+import {
+  addCameraShake,
+  createEffectsState,
+  emitLevelUpRipple,
+  emitShatter,
+  getShakeOffset,
+  updateEffects,
+} from "./effects";
 
 // Mock CanvasRenderingContext2D
 const createMockContext = () => {
@@ -15,6 +31,8 @@ const createMockContext = () => {
     save: vi.fn(),
     restore: vi.fn(),
     translate: vi.fn(),
+    transform: vi.fn(),
+    scale: vi.fn(),
     rotate: vi.fn(),
     beginPath: vi.fn(),
     moveTo: vi.fn(),
@@ -26,6 +44,11 @@ const createMockContext = () => {
     stroke: vi.fn(),
     fillRect: vi.fn(),
     clearRect: vi.fn(),
+    clip: vi.fn(),
+    ellipse: vi.fn(),
+    createLinearGradient: vi.fn().mockReturnValue({
+      addColorStop: vi.fn(),
+    }),
     createRadialGradient: vi.fn().mockReturnValue({
       addColorStop: vi.fn(),
     }),
@@ -92,6 +115,61 @@ describe("shapeRenderer", () => {
       expect(ctx.translate).toHaveBeenCalledWith(400, 300);
     });
 
+    it("should offset shapes by their own zoomed position", () => {
+      const ctx = createMockContext();
+      const shape: Shape = {
+        type: "square",
+        size: 100,
+        rotation: 0,
+        color: "#00ff00",
+        opacity: 1,
+        position: { x: 20, y: -10 },
+      };
+
+      drawShape(ctx, shape, 400, 300, 2, defaultMechanics);
+
+      expect(ctx.translate).toHaveBeenCalledWith(440, 280);
+    });
+
+    it("should stretch and skew the path, but not the stroke", () => {
+      const ctx = createMockContext();
+      const shape: Shape = {
+        type: "square",
+        size: 100,
+        rotation: 0,
+        color: "#00ff00",
+        opacity: 1,
+        aspectRatio: 2,
+        skew: 0.5,
+      };
+
+      drawShape(ctx, shape, 0, 0, 1, defaultMechanics);
+
+      expect(ctx.transform).toHaveBeenCalledWith(1, 0, 0.25, 0.5, 0, 0);
+      // The transform is undone before the path is stroked
+      const transformed = vi.mocked(ctx.transform).mock.invocationCallOrder;
+      const restored = vi.mocked(ctx.restore).mock.invocationCallOrder;
+      const stroked = vi.mocked(ctx.stroke).mock.invocationCallOrder;
+      expect(
+        restored.some((order) => order > transformed[0] && order < stroked[0])
+      ).toBe(true);
+    });
+
+    it("should not transform undistorted shapes", () => {
+      const ctx = createMockContext();
+      const shape: Shape = {
+        type: "square",
+        size: 100,
+        rotation: 0,
+        color: "#00ff00",
+        opacity: 1,
+      };
+
+      drawShape(ctx, shape, 0, 0, 1, defaultMechanics);
+
+      expect(ctx.transform).not.toHaveBeenCalled();
+    });
+
     it("should apply rotation", () => {
       const ctx = createMockContext();
       const shape: Shape = {
@@ -137,6 +215,29 @@ describe("shapeRenderer", () => {
 
       expect(ctx.rect).toHaveBeenCalledWith(-50, -50, 100, 100);
     });
+
+    it("should trace every registered shape", () => {
+      SHAPE_TYPES.forEach((type) => {
+        const ctx = createMockContext();
+        const shape: Shape = {
+          type,
+          size: 100,
+          rotation: 0,
+          color: "#ff0000",
+          opacity: 1,
+        };
+
+        drawShape(ctx, shape, 0, 0, 1, defaultMechanics);
+
+        const traced =
+          vi.mocked(ctx.lineTo).mock.calls.length +
+          vi.mocked(ctx.arc).mock.calls.length +
+          vi.mocked(ctx.ellipse).mock.calls.length +
+          vi.mocked(ctx.rect).mock.calls.length;
+        expect(traced).toBeGreaterThan(0);
+        expect(ctx.fill).toHaveBeenCalled();
+      });
+    });
   });
 
   describe("clearCanvas", () => {
@@ -158,6 +259,79 @@ describe("shapeRenderer", () => {
     });
   });
 
+  describe("themes", () => {
+    const square: Shape = {
+      type: "square",
+      size: 100,
+      rotation: 0,
+      color: "#3b82f6",
+      opacity: 1,
+    };
+
+    it("should map the shape color onto the theme palette", () => {
+      const ctx = createMockContext();
+      drawShape(
+        ctx,
+        square,
+        0,
+        0,
+        1,
+        defaultMechanics,
+        0,
+        false,
+        0,
+        false,
+        CYBERPUNK_THEME
+      );
+
+      expect(ctx.fillStyle).toBe(CYBERPUNK_THEME.palette[0]);
+      expect(ctx.strokeStyle).toBe(CYBERPUNK_THEME.stroke.color);
+    });
+
+    it("should clip the fill pattern to the shape", () => {
+      const ctx = createMockContext();
+      drawShape(
+        ctx,
+        square,
+        0,
+        0,
+        1,
+        defaultMechanics,
+        0,
+        false,
+        0,
+        false,
+        CYBERPUNK_THEME
+      );
+
+      expect(ctx.clip).toHaveBeenCalled();
+      // Path traced once for the fill and again for the outline
+      expect(ctx.rect).toHaveBeenCalledTimes(2);
+    });
+
+    it("should draw the vaporwave gradient and retro grid", () => {
+      const ctx = createMockContext();
+      drawBackground(ctx, 800, 600, 0.5, defaultMechanics, VAPORWAVE_THEME, 1);
+
+      expect(ctx.createLinearGradient).toHaveBeenCalledWith(0, 0, 0, 600);
+      expect(ctx.stroke).toHaveBeenCalled();
+    });
+
+    it("should draw the same nature texture every frame", () => {
+      const first = createMockContext();
+      const second = createMockContext();
+      drawBackground(first, 800, 600, 0, defaultMechanics, NATURE_THEME, 0);
+      drawBackground(second, 800, 600, 0, defaultMechanics, NATURE_THEME, 0);
+
+      expect(first.ellipse).toHaveBeenCalledTimes(
+        NATURE_THEME.background.texture!.count
+      );
+      expect(vi.mocked(first.ellipse).mock.calls).toEqual(
+        vi.mocked(second.ellipse).mock.calls
+      );
+    });
+  });
+
   describe("drawShapeStack", () => {
     it("should draw all shapes in stack", () => {
       const ctx = createMockContext();
@@ -174,4 +348,89 @@ describe("shapeRenderer", () => {
       expect(ctx.restore).toHaveBeenCalledTimes(3);
     });
   });
+
+  describe("drawGameState", () => {
+    it("should clear the canvas and draw the stack plus active shape", () => {
+      const ctx = createMockContext();
+      const state = spawnActiveShape(createInitialState(1000, "CLASSIC", 1));
+
+      drawGameState(ctx, state, 800, 600, 0);
+
+      expect(ctx.clearRect).toHaveBeenCalledWith(0, 0, 800, 600);
+      // Outer save/restore plus one per shape (base + active)
+      expect(ctx.save).toHaveBeenCalledTimes(3);
+      expect(ctx.translate).toHaveBeenCalledWith(400, 300);
+    });
+
+    it("should apply the extra scale to shape sizes", () => {
+      const ctx = createMockContext();
+      const state = createInitialState(1000, "CLASSIC", 1);
+
+      drawGameState(ctx, state, 800, 600, 0, 0.5);
+
+      // Base circle is 450 at zoom 1, halved by the replay scale
+      expect(ctx.arc).toHaveBeenCalledWith(0, 0, 112.5, 0, Math.PI * 2);
+    });
+
+    it("should offset the scene by the camera shake", () => {
+      const ctx = createMockContext();
+      const state = createInitialState(1000, "CLASSIC", 1);
+      const effects = updateEffects(
+        addCameraShake(createEffectsState(), 10),
+        0.01,
+      );
+      const offset = getShakeOffset(effects);
+
+      drawGameState(ctx, state, 800, 600, 0, 1, undefined, effects);
+
+      expect(ctx.translate).toHaveBeenCalledWith(
+        400 + offset.x,
+        300 + offset.y,
+      );
+    });
+
+    it("should draw particles over the shapes", () => {
+      const ctx = createMockContext();
+      const state = createInitialState(1000, "CLASSIC", 1);
+      const effects = emitLevelUpRipple(
+        emitShatter(createEffectsState(), state.shapes[0], 1),
+        100,
+        "#ffffff",
+      );
+
+      drawGameState(ctx, state, 800, 600, 0, 1, undefined, effects);
+
+      // Base shape, then one save per fragment and ring
+      expect(ctx.save).toHaveBeenCalledTimes(2 + 36 + 3);
+      expect(ctx.arc).toHaveBeenCalledWith(0, 0, 100, 0, Math.PI * 2);
+    });
+
+    it("should reflect the scene in mirror worlds", () => {
+      const ctx = createMockContext();
+      const state = {
+        ...spawnActiveShape(createInitialState(1000, "CLASSIC", 1)),
+        world: 9,
+      };
+
+      drawGameState(ctx, state, 800, 600, 0);
+
+      // Once per shape (base + active)
+      expect(ctx.scale).toHaveBeenCalledTimes(2);
+      expect(ctx.scale).toHaveBeenCalledWith(-1, 1);
+    });
+
+    it("should draw the world's overlay over the shapes", () => {
+      const ctx = createMockContext();
+      const state = {
+        ...spawnActiveShape(createInitialState(1000, "CLASSIC", 1)),
+        world: 13,
+      };
+
+      // Strobe: the scene starts between flashes
+      drawGameState(ctx, state, 800, 600, 0);
+
+      expect(ctx.fillStyle).toBe("rgba(0, 0, 0, 0.9)");
+      expect(ctx.fillRect).toHaveBeenLastCalledWith(0, 0, 800, 600);
+    });
+  });
 });
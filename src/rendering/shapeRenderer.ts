@@ -1,6 +1,28 @@
-import type { Shape } from "../utils/geometry";
-import { getStarVertices } from "../utils/geometry";
+import type { Point, Shape } from "../utils/geometry";
+import { getPosition, getStretch, isDistorted } from "../utils/geometry";
+import { getShapeDefinition } from "../shapes/registry";
 import type { WorldMechanics } from "../constants/game";
+import { getWorldMechanics } from "../constants/game";
+import {
+  drawMechanicsBackground,
+  drawMechanicsOverlay,
+  getCollisionShape,
+  getShapeView,
+} from "../mechanics";
+import type { GameState } from "../types";
+import { nextRandom } from "../utils/random";
+import {
+  DEFAULT_THEME,
+  getThemeColor,
+  type FillPattern,
+  type Theme,
+  type ThemeBackground,
+} from "./themes";
+import {
+  getActiveParticles,
+  getShakeOffset,
+  type EffectsState,
+} from "./effects";
 
 /**
  * ShapeRenderer - Separates drawing logic from game loop (SRP).
@@ -31,69 +53,110 @@ export const drawRegularPolygonPath = (
 };
 
 /**
- * Draw a circle path centered at origin.
+ * Draw a closed polygon path through the given vertices.
  */
-export const drawCirclePath = (
+export const drawPolygonPath = (
   ctx: CanvasRenderingContext2D,
-  size: number,
+  vertices: Point[],
 ): void => {
   ctx.beginPath();
-  ctx.arc(0, 0, size / 2, 0, Math.PI * 2);
+  vertices.forEach((p, i) => {
+    if (i === 0) ctx.moveTo(p.x, p.y);
+    else ctx.lineTo(p.x, p.y);
+  });
+  ctx.closePath();
 };
 
 /**
- * Draw a square path centered at origin.
+ * Trace the path of a shape type centered at origin: the registry's render
+ * path if it has one, its outline otherwise.
  */
-export const drawSquarePath = (
+export const drawShapePath = (
   ctx: CanvasRenderingContext2D,
+  type: Shape["type"],
   size: number,
 ): void => {
-  ctx.beginPath();
-  ctx.rect(-size / 2, -size / 2, size, size);
+  const { outline, drawPath } = getShapeDefinition(type);
+  if (drawPath) {
+    drawPath(ctx, size);
+  } else if (outline.kind === "polygon") {
+    drawPolygonPath(ctx, outline.getVertices(size, 0));
+  }
 };
 
 /**
- * Draw a rectangle path centered at origin.
+ * Trace a shape's path with its stretch and skew applied. The distortion only
+ * shapes the path: it's undone before the path is filled or stroked, so line
+ * widths stay even.
  */
-export const drawRectanglePath = (
+export const traceShape = (
   ctx: CanvasRenderingContext2D,
+  shape: Shape,
   size: number,
 ): void => {
-  const height = size * 0.6;
-  ctx.beginPath();
-  ctx.rect(-size / 2, -height / 2, size, height);
+  if (!isDistorted(shape)) {
+    drawShapePath(ctx, shape.type, size);
+    return;
+  }
+  const stretch = getStretch(shape);
+  const skew = shape.skew ?? 0;
+  ctx.save();
+  ctx.transform(stretch.x, 0, skew * stretch.y, stretch.y, 0, 0);
+  drawShapePath(ctx, shape.type, size);
+  ctx.restore();
 };
 
 /**
- * Draw a diamond path centered at origin.
+ * Draw a procedural fill pattern over the current path (clipped to it).
+ * Call with the shape path traced; the path is consumed.
  */
-export const drawDiamondPath = (
+export const drawFillPattern = (
   ctx: CanvasRenderingContext2D,
+  pattern: Exclude<FillPattern, "solid">,
   size: number,
 ): void => {
-  const height = size * 0.7;
-  ctx.beginPath();
-  ctx.moveTo(0, -height / 2);
-  ctx.lineTo(size / 2, 0);
-  ctx.lineTo(0, height / 2);
-  ctx.lineTo(-size / 2, 0);
-  ctx.closePath();
-};
+  const half = size / 2;
+  const spacing = Math.max(4, size * 0.12);
 
-/**
- * Draw a star path centered at origin.
- */
-export const drawStarPath = (
-  ctx: CanvasRenderingContext2D,
-  size: number,
-): void => {
-  const starVertices = getStarVertices(size, 0);
-  ctx.beginPath();
-  starVertices.forEach((p, i) => {
-    if (i === 0) ctx.moveTo(p.x, p.y);
-    else ctx.lineTo(p.x, p.y);
-  });
-  ctx.closePath();
+  ctx.save();
+  ctx.clip();
+  ctx.shadowBlur = 0;
+
+  switch (pattern) {
+    case "stripes":
+      // Diagonal stripes across the bounding box
+      ctx.strokeStyle = "rgba(0, 0, 0, 0.25)";
+      ctx.lineWidth = spacing * 0.35;
+      ctx.beginPath();
+      for (let offset = -size; offset <= size; offset += spacing) {
+        ctx.moveTo(offset - half, -half);
+        ctx.lineTo(offset + half, half);
+      }
+      ctx.stroke();
+      break;
+    case "dots":
+      ctx.fillStyle = "rgba(255, 255, 255, 0.18)";
+      ctx.beginPath();
+      for (let y = -half; y <= half; y += spacing) {
+        for (let x = -half; x <= half; x += spacing) {
+          ctx.moveTo(x + spacing * 0.2, y);
+          ctx.arc(x, y, spacing * 0.2, 0, Math.PI * 2);
+        }
+      }
+      ctx.fill();
+      break;
+    case "radial": {
+      // Soft highlight from the center
+      const grad = ctx.createRadialGradient(0, 0, 0, 0, 0, half);
+      grad.addColorStop(0, "rgba(255, 255, 255, 0.35)");
+      grad.addColorStop(1, "rgba(255, 255, 255, 0)");
+      ctx.fillStyle = grad;
+      ctx.fillRect(-half, -half, size, size);
+      break;
+    }
+  }
+
+  ctx.restore();
 };
 
 /**
@@ -128,8 +191,13 @@ const shiftHue = (hexColor: string, hueShift: number): string => {
   return `hsl(${h}, ${s * 100}%, ${l * 100}%)`;
 };
 
+// Ghost outlines: faint and dashed so they never read as a real shape
+const GHOST_OPACITY = 0.45;
+const GHOST_DASH = [6, 6];
+
 /**
- * Draw a shape at the specified position with zoom.
+ * Draw a shape at the specified position with zoom. Shapes with a position
+ * of their own are drawn that far (zoomed) from the center.
  * @param ctx - Canvas context
  * @param shape - The shape to draw
  * @param x - Center X position
@@ -139,6 +207,9 @@ const shiftHue = (hexColor: string, hueShift: number): string => {
  * @param time - Time in seconds (for animations)
  * @param isStacked - Whether this is a stacked shape (vs active)
  * @param stackIndex - Index of shape in stack (for phase offsets)
+ * @param isContainer - Whether this is the container of the active shape
+ * @param theme - Visual theme (palette, stroke, glow, fill patterns)
+ * @param outline - Trace the shape faintly instead of filling it (ghosts)
  */
 export const drawShape = (
   ctx: CanvasRenderingContext2D,
@@ -151,91 +222,62 @@ export const drawShape = (
   isStacked: boolean = false,
   stackIndex: number = 0,
   isContainer: boolean = false,
+  theme: Theme = DEFAULT_THEME,
+  outline: boolean = false,
 ): void => {
+  // The world's mechanics decide how the shape is drawn (src/mechanics)
+  const view = getShapeView(
+    shape,
+    { time, zoom, isStacked, isContainer, stackIndex },
+    mechanics,
+    outline,
+  );
+  const drawn = view.shape;
+  const position = getPosition(drawn);
   ctx.save();
-  ctx.translate(x, y);
-
-  // Wave effect: horizontal displacement (stacked shapes only)
-  if (mechanics.waveEffect && isStacked) {
-    const wave =
-      Math.sin(time * mechanics.waveSpeed + stackIndex * 0.5) *
-      mechanics.waveAmplitude;
-    ctx.translate(wave, 0);
+  ctx.translate(x + position.x * zoom, y + position.y * zoom);
+  ctx.rotate(drawn.rotation);
+  if (view.flip.x !== 1 || view.flip.y !== 1) {
+    ctx.scale(view.flip.x, view.flip.y);
   }
+  ctx.globalAlpha = drawn.opacity;
 
-  ctx.rotate(shape.rotation);
-
-  let opacity = shape.opacity;
-  if (mechanics.eclipseEffect && isStacked) {
-    // In Eclipse mode, stacked shapes are almost invisible unless they are the container pulsing
-    opacity = isContainer ? 0.05 : 0.02;
-  }
-  ctx.globalAlpha = opacity;
-
-  // Color shift effect (stacked shapes only)
-  let fillColor = shape.color;
-  if (mechanics.colorShift && isStacked) {
-    const hueShift = time * mechanics.colorShiftSpeed + stackIndex * 30;
-    fillColor = shiftHue(shape.color, hueShift);
+  let fillColor = getThemeColor(theme, drawn.color);
+  if (view.hueShift !== 0) {
+    fillColor = shiftHue(fillColor, view.hueShift);
   }
   ctx.fillStyle = fillColor;
 
-  // Calculate size with breathing effect (stacked shapes only)
-  let sizeMultiplier = 1;
-  if (mechanics.breathingEffect && isStacked) {
-    sizeMultiplier =
-      1 +
-      Math.sin(time * mechanics.breathingSpeed + stackIndex * 0.3) *
-        mechanics.breathingAmplitude;
+  if (theme.glow) {
+    ctx.shadowBlur = theme.glow.blur;
+    ctx.shadowColor = theme.glow.color ?? fillColor;
   }
 
-  const size = shape.size * zoom * sizeMultiplier;
+  const size = drawn.size * zoom;
 
-  switch (shape.type) {
-    case "circle":
-      drawCirclePath(ctx, size);
-      break;
-    case "square":
-      drawSquarePath(ctx, size);
-      break;
-    case "triangle":
-      drawRegularPolygonPath(ctx, 3, size);
-      break;
-    case "rectangle":
-      drawRectanglePath(ctx, size);
-      break;
-    case "pentagon":
-      drawRegularPolygonPath(ctx, 5, size);
-      break;
-    case "hexagon":
-      drawRegularPolygonPath(ctx, 6, size);
-      break;
-    case "octagon":
-      drawRegularPolygonPath(ctx, 8, size);
-      break;
-    case "diamond":
-      drawDiamondPath(ctx, size);
-      break;
-    case "star":
-      drawStarPath(ctx, size);
-      break;
+  if (view.outline) {
+    ctx.globalAlpha = GHOST_OPACITY * drawn.opacity;
+    ctx.setLineDash(GHOST_DASH);
+    ctx.strokeStyle = fillColor;
+    ctx.lineWidth = theme.stroke.width;
+    traceShape(ctx, drawn, size);
+    ctx.stroke();
+    ctx.restore();
+    return;
   }
 
+  traceShape(ctx, drawn, size);
   ctx.fill();
 
-  let strokeStyle = "rgba(255, 255, 255, 0.4)";
-  let lineWidth = 3;
-
-  if (mechanics.eclipseEffect && isContainer) {
-    // Pulse the outline of the container shape
-    const pulse =
-      (Math.sin(time * Math.PI * 2 * mechanics.eclipsePulseSpeed) + 1) / 2;
-    strokeStyle = `rgba(255, 255, 255, ${0.1 + pulse * 0.5})`;
-    lineWidth = 4;
+  const pattern = theme.fillPatterns[drawn.type] ?? "solid";
+  if (pattern !== "solid") {
+    drawFillPattern(ctx, pattern, size);
+    // The pattern consumed the path; trace it again for the outline
+    traceShape(ctx, drawn, size);
   }
 
-  ctx.strokeStyle = strokeStyle;
-  ctx.lineWidth = lineWidth;
+  ctx.strokeStyle = view.stroke?.color ?? theme.stroke.color;
+  ctx.lineWidth = view.stroke?.width ?? theme.stroke.width;
   ctx.stroke();
 
   ctx.shadowBlur = 15;
@@ -244,38 +286,148 @@ export const drawShape = (
   ctx.restore();
 };
 
+// Fixed seed so texture specks stay in place from frame to frame
+const TEXTURE_SEED = 0x5eed;
+
+/**
+ * Draw a retro perspective grid over the lower part of the canvas.
+ */
+const drawRetroGrid = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  grid: NonNullable<ThemeBackground["grid"]>,
+  time: number,
+): void => {
+  const horizon = height * 0.6;
+  const depth = height - horizon;
+  const centerX = width / 2;
+
+  ctx.save();
+  ctx.strokeStyle = grid.color;
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+
+  // Horizontal lines scroll towards the viewer, spaced by perspective
+  for (let i = 0; i < grid.lines; i++) {
+    const phase = (i / grid.lines + time * grid.speed) % 1;
+    const y = horizon + depth * phase * phase;
+    ctx.moveTo(0, y);
+    ctx.lineTo(width, y);
+  }
+
+  // Vertical lines converge on the vanishing point
+  for (let i = -grid.lines; i <= grid.lines; i++) {
+    const x = centerX + (i / grid.lines) * width * 1.5;
+    ctx.moveTo(centerX, horizon);
+    ctx.lineTo(x, height);
+  }
+
+  ctx.stroke();
+  ctx.restore();
+};
+
+/**
+ * Draw scanlines with a glitch bar every few moments.
+ */
+const drawScanlines = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  scanlines: NonNullable<ThemeBackground["scanlines"]>,
+  time: number,
+): void => {
+  ctx.fillStyle = scanlines.color;
+  for (let y = 0; y < height; y += scanlines.spacing) {
+    ctx.fillRect(0, y, width, 1);
+  }
+
+  // The glitch pattern changes 8 times per second, visible ~15% of the time
+  let random = nextRandom(Math.floor(time * 8));
+  if (random.value > 0.15) return;
+  ctx.fillStyle = scanlines.glitchColor;
+  for (let i = 0; i < 3; i++) {
+    random = nextRandom(random.state);
+    const y = random.value * height;
+    random = nextRandom(random.state);
+    ctx.fillRect(0, y, width, 2 + random.value * 12);
+  }
+};
+
+/**
+ * Draw scattered organic specks that sway gently.
+ */
+const drawTexture = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  texture: NonNullable<ThemeBackground["texture"]>,
+  time: number,
+): void => {
+  let state = TEXTURE_SEED;
+  const next = () => {
+    const result = nextRandom(state);
+    state = result.state;
+    return result.value;
+  };
+
+  for (let i = 0; i < texture.count; i++) {
+    const x = next() * width;
+    const y = next() * height;
+    const size = (0.3 + next() * 0.7) * texture.maxSize;
+    const angle = next() * Math.PI + Math.sin(time * 0.5 + i) * 0.2;
+    ctx.fillStyle = texture.colors[i % texture.colors.length];
+    ctx.beginPath();
+    ctx.ellipse(x, y, size, size * 0.4, angle, 0, Math.PI * 2);
+    ctx.fill();
+  }
+};
+
 /**
  * Draw the pulsating background gradient.
+ * @param theme - Visual theme (base, gradients, grid, textures, glow)
+ * @param time - Time in seconds (for animated backgrounds)
  */
 export const drawBackground = (
   ctx: CanvasRenderingContext2D,
   width: number,
   height: number,
   pulse: number,
-  mechanics?: WorldMechanics,
+  mechanics: WorldMechanics = [],
+  theme: Theme = DEFAULT_THEME,
+  time: number = 0,
 ): void => {
   const centerX = width / 2;
   const centerY = height / 2;
 
-  if (mechanics?.eclipseEffect) {
-    // Pitch black background for Eclipse
-    ctx.fillStyle = "#100e0eff";
+  const frame = { width, height, time, pulse };
+  if (drawMechanicsBackground(ctx, frame, mechanics)) return;
+
+  const background = theme.background;
+
+  if (background.base) {
+    ctx.fillStyle = background.base;
     ctx.fillRect(0, 0, width, height);
+  }
 
-    // Very subtle center glow
-    const grad = ctx.createRadialGradient(
-      centerX,
-      centerY,
-      0,
-      centerX,
-      centerY,
-      width * 0.5,
-    );
-    grad.addColorStop(0, `rgba(255, 255, 255, ${0.01 + pulse * 0.005})`);
-    grad.addColorStop(1, "rgba(0, 0, 0, 0)");
-    ctx.fillStyle = grad;
+  if (background.verticalGradient) {
+    const stops = background.verticalGradient;
+    const linear = ctx.createLinearGradient(0, 0, 0, height);
+    stops.forEach((color, i) => {
+      linear.addColorStop(i / Math.max(1, stops.length - 1), color);
+    });
+    ctx.fillStyle = linear;
     ctx.fillRect(0, 0, width, height);
-    return;
+  }
+
+  if (background.texture) {
+    drawTexture(ctx, width, height, background.texture, time);
+  }
+  if (background.grid) {
+    drawRetroGrid(ctx, width, height, background.grid, time);
+  }
+  if (background.scanlines) {
+    drawScanlines(ctx, width, height, background.scanlines, time);
   }
 
   ctx.beginPath();
@@ -285,9 +437,10 @@ export const drawBackground = (
     0,
     centerX,
     centerY,
-    width * 0.8,
+    width * background.glowRadius,
   );
-  grad.addColorStop(0, `rgba(255, 255, 255, ${0.03 + pulse * 0.02})`);
+  const glowAlpha = background.glowAlpha + pulse * background.glowPulse;
+  grad.addColorStop(0, `rgba(${background.glowColor}, ${glowAlpha})`);
   grad.addColorStop(1, "rgba(0, 0, 0, 0)");
   ctx.fillStyle = grad;
   ctx.fillRect(0, 0, width, height);
@@ -304,12 +457,187 @@ export const drawShapeStack = (
   zoom: number,
   mechanics: WorldMechanics,
   time: number,
+  theme: Theme = DEFAULT_THEME,
 ): void => {
   shapes.forEach((shape, index) => {
-    drawShape(ctx, shape, centerX, centerY, zoom, mechanics, time, true, index);
+    drawShape(
+      ctx,
+      shape,
+      centerX,
+      centerY,
+      zoom,
+      mechanics,
+      time,
+      true,
+      index,
+      false,
+      theme,
+    );
   });
 };
 
+/**
+ * Draw particles (shards, ripple rings, shatter fragments) around a center.
+ * Particles fade out over their lifetime.
+ */
+export const drawEffects = (
+  ctx: CanvasRenderingContext2D,
+  effects: EffectsState,
+  centerX: number,
+  centerY: number,
+  theme: Theme = DEFAULT_THEME,
+): void => {
+  getActiveParticles(effects).forEach((particle) => {
+    const color = getThemeColor(theme, particle.color);
+    ctx.save();
+    ctx.globalAlpha = Math.max(0, particle.life / particle.maxLife);
+    ctx.translate(centerX + particle.x, centerY + particle.y);
+
+    if (particle.kind === "ring") {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1 + 3 * ctx.globalAlpha;
+      ctx.beginPath();
+      ctx.arc(0, 0, particle.size, 0, Math.PI * 2);
+      ctx.stroke();
+    } else {
+      const half = particle.size / 2;
+      ctx.rotate(particle.rotation);
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      if (particle.kind === "fragment") {
+        // Jagged triangular piece of the container
+        ctx.moveTo(-half, -half * 0.6);
+        ctx.lineTo(half, -half);
+        ctx.lineTo(half * 0.2, half);
+      } else {
+        ctx.rect(-half, -half * 0.5, particle.size, half);
+      }
+      ctx.closePath();
+      ctx.fill();
+    }
+
+    ctx.restore();
+  });
+};
+
+/**
+ * Draw a full frame of the game: background, stacked shapes and active shape.
+ * @param ctx - Canvas context
+ * @param state - Game state to draw
+ * @param width - Logical canvas width
+ * @param height - Logical canvas height
+ * @param time - Time in seconds (for animations)
+ * @param scale - Extra zoom factor (e.g. replays recorded on another viewport)
+ * @param theme - Visual theme
+ * @param effects - Particles to draw over the shapes; its camera shake
+ *   offsets the whole scene
+ * @param ghost - State of a ghost run whose active shape is outlined
+ */
+export const drawGameState = (
+  ctx: CanvasRenderingContext2D,
+  state: GameState,
+  width: number,
+  height: number,
+  time: number,
+  scale: number = 1,
+  theme: Theme = DEFAULT_THEME,
+  effects?: EffectsState,
+  ghost?: GameState | null,
+): void => {
+  clearCanvas(ctx, width, height);
+  const shake = effects ? getShakeOffset(effects) : { x: 0, y: 0 };
+  const centerX = width / 2 + shake.x;
+  const centerY = height / 2 + shake.y;
+  const zoom = state.zoom * scale;
+  const pulse = (Math.sin(time * 2) + 1) / 2;
+
+  ctx.save();
+
+  // Get world mechanics for current world
+  const mechanics = getWorldMechanics(state.world);
+
+  drawBackground(ctx, width, height, pulse, mechanics, theme, time);
+
+  state.shapes.forEach((shape, index) => {
+    drawShape(
+      ctx,
+      shape,
+      centerX,
+      centerY,
+      zoom,
+      mechanics,
+      time,
+      true, // isStacked
+      index, // stackIndex
+      index === state.shapes.length - 1, // isContainer
+      theme,
+    );
+  });
+
+  // The ghost's active shape, at the zoom its own stack had then
+  const ghostShape = ghost ? getCollisionShape(ghost) : null;
+  if (ghost && ghostShape) {
+    drawShape(
+      ctx,
+      ghostShape,
+      centerX,
+      centerY,
+      ghost.zoom * scale,
+      mechanics,
+      time,
+      false,
+      state.shapes.length,
+      false,
+      theme,
+      true, // outline
+    );
+  }
+
+  // Drawn where the world's mechanics really put it
+  const activeShape = getCollisionShape(state);
+  if (activeShape) {
+    drawShape(
+      ctx,
+      activeShape,
+      centerX,
+      centerY,
+      zoom,
+      mechanics,
+      time,
+      false, // NOT stacked (active)
+      state.shapes.length, // stackIndex for phase offset
+      false,
+      theme,
+    );
+  }
+
+  // Overlays such as fog follow the active shape as it was drawn
+  const active = activeShape
+    ? getShapeView(
+        activeShape,
+        {
+          time,
+          zoom,
+          isStacked: false,
+          isContainer: false,
+          stackIndex: state.shapes.length,
+        },
+        mechanics,
+      ).shape
+    : null;
+  drawMechanicsOverlay(
+    ctx,
+    { width, height, time, centerX, centerY, zoom, active },
+    mechanics,
+  );
+
+  if (effects) {
+    drawEffects(ctx, effects, centerX, centerY, theme);
+  }
+
+  ctx.restore();
+};
+
 /**
  * Clear the canvas.
  */
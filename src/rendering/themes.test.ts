@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import {
+  CLASSIC_THEME,
+  NATURE_THEME,
+  THEMES,
+  getTheme,
+  getThemeColor,
+  isThemeUnlocked,
+} from "./themes";
+import { createAchievementProgress } from "../core/achievements";
+import { ACHIEVEMENTS } from "../constants/achievements";
+import { COLORS } from "../constants/game";
+
+describe("themes", () => {
+  it("should give every theme a full palette", () => {
+    THEMES.forEach((theme) => {
+      expect(theme.palette).toHaveLength(COLORS.length);
+    });
+  });
+
+  it("should gate themes behind existing achievements", () => {
+    THEMES.filter((theme) => theme.unlockedBy).forEach((theme) => {
+      expect(ACHIEVEMENTS.map((a) => a.id)).toContain(theme.unlockedBy);
+    });
+  });
+
+  it("should unlock a theme with its achievement", () => {
+    const progress = createAchievementProgress();
+    expect(isThemeUnlocked(CLASSIC_THEME, progress)).toBe(true);
+    expect(isThemeUnlocked(NATURE_THEME, progress)).toBe(false);
+
+    progress.unlocked[NATURE_THEME.unlockedBy!] = "2026-01-01";
+    expect(isThemeUnlocked(NATURE_THEME, progress)).toBe(true);
+  });
+
+  it("should remap palette colors and keep others", () => {
+    expect(getThemeColor(NATURE_THEME, COLORS[2])).toBe(
+      NATURE_THEME.palette[2]
+    );
+    expect(getThemeColor(NATURE_THEME, "#ffffff")).toBe("#ffffff");
+    expect(getThemeColor(CLASSIC_THEME, COLORS[1])).toBe(COLORS[1]);
+  });
+
+  it("should fall back to the default theme for unknown ids", () => {
+    expect(getTheme("unknown")).toBe(CLASSIC_THEME);
+  });
+});
@@ -0,0 +1,157 @@
+import type { ShapeType } from "../utils/geometry";
+import type { AchievementProgress } from "../core/achievements";
+import { COLORS } from "../constants/game";
+
+/**
+ * Visual themes - everything shapeRenderer draws that isn't gameplay state.
+ * Shapes keep the color they were created with (part of the seeded run);
+ * themes remap those colors onto their own palette at draw time.
+ */
+
+export type ThemeId = "classic" | "cyberpunk" | "vaporwave" | "nature";
+
+/**
+ * Procedural fill drawn inside a shape on top of its base color.
+ */
+export type FillPattern = "solid" | "stripes" | "dots" | "radial";
+
+export interface ThemeBackground {
+  /** Solid base color; omitted to let the page background show through */
+  base?: string;
+  /** Vertical linear gradient from top to bottom, over the base */
+  verticalGradient?: string[];
+  /** Center glow; alpha = glowAlpha + pulse * glowPulse */
+  glowColor: string;
+  glowAlpha: number;
+  glowPulse: number;
+  /** Glow radius as a fraction of the canvas width */
+  glowRadius: number;
+  /** Retro perspective grid across the lower half, scrolling towards you */
+  grid?: { color: string; lines: number; speed: number };
+  /** Horizontal scanlines with occasional glitch bars */
+  scanlines?: { color: string; spacing: number; glitchColor: string };
+  /** Scattered organic specks (fixed layout, gently swaying) */
+  texture?: { colors: string[]; count: number; maxSize: number };
+}
+
+export interface Theme {
+  id: ThemeId;
+  name: string;
+  /** Replaces COLORS entry-for-entry */
+  palette: string[];
+  background: ThemeBackground;
+  stroke: { color: string; width: number };
+  /** Outer glow around shapes; the shape's own color if color is omitted */
+  glow?: { color?: string; blur: number };
+  /** Fill pattern per shape type (solid when omitted) */
+  fillPatterns: Partial<Record<ShapeType, FillPattern>>;
+  /** Achievement id that unlocks the theme (always available if omitted) */
+  unlockedBy?: string;
+}
+
+export const CLASSIC_THEME: Theme = {
+  id: "classic",
+  name: "Classic",
+  palette: COLORS,
+  background: {
+    glowColor: "255, 255, 255",
+    glowAlpha: 0.03,
+    glowPulse: 0.02,
+    glowRadius: 0.8,
+  },
+  stroke: { color: "rgba(255, 255, 255, 0.4)", width: 3 },
+  fillPatterns: {},
+};
+
+export const CYBERPUNK_THEME: Theme = {
+  id: "cyberpunk",
+  name: "Cyberpunk",
+  palette: ["#05d9e8", "#ff2a6d", "#f9f871", "#ff00ff", "#00ff9f", "#d1f7ff"],
+  background: {
+    base: "#0b0217",
+    glowColor: "255, 42, 109",
+    glowAlpha: 0.06,
+    glowPulse: 0.05,
+    glowRadius: 0.7,
+    scanlines: {
+      color: "rgba(5, 217, 232, 0.05)",
+      spacing: 4,
+      glitchColor: "rgba(255, 0, 255, 0.12)",
+    },
+  },
+  stroke: { color: "rgba(5, 217, 232, 0.9)", width: 2 },
+  glow: { blur: 18 },
+  fillPatterns: { square: "stripes", rectangle: "stripes", diamond: "stripes" },
+  unlockedBy: "perfect-alignment",
+};
+
+export const VAPORWAVE_THEME: Theme = {
+  id: "vaporwave",
+  name: "Vaporwave",
+  palette: ["#01cdfe", "#ff71ce", "#fffb96", "#b967ff", "#05ffa1", "#ff9de2"],
+  background: {
+    verticalGradient: ["#2b0f4c", "#7a1f6b", "#ff71ce"],
+    glowColor: "255, 251, 150",
+    glowAlpha: 0.08,
+    glowPulse: 0.04,
+    glowRadius: 0.5,
+    grid: { color: "rgba(1, 205, 254, 0.45)", lines: 12, speed: 0.25 },
+  },
+  stroke: { color: "rgba(255, 255, 255, 0.7)", width: 2 },
+  glow: { color: "rgba(255, 113, 206, 0.8)", blur: 12 },
+  fillPatterns: { circle: "radial", hexagon: "radial", octagon: "radial" },
+  unlockedBy: "boss-slayer",
+};
+
+export const NATURE_THEME: Theme = {
+  id: "nature",
+  name: "Nature",
+  palette: ["#588157", "#a3b18a", "#dda15e", "#bc6c25", "#6b705c", "#e9edc9"],
+  background: {
+    base: "#1d2b1f",
+    glowColor: "233, 237, 201",
+    glowAlpha: 0.05,
+    glowPulse: 0.02,
+    glowRadius: 0.9,
+    texture: {
+      colors: ["rgba(163, 177, 138, 0.12)", "rgba(221, 161, 94, 0.08)"],
+      count: 60,
+      maxSize: 18,
+    },
+  },
+  stroke: { color: "rgba(40, 30, 20, 0.55)", width: 2 },
+  fillPatterns: { triangle: "dots", pentagon: "dots", star: "dots" },
+  unlockedBy: "first-stack",
+};
+
+export const THEMES: Theme[] = [
+  CLASSIC_THEME,
+  CYBERPUNK_THEME,
+  VAPORWAVE_THEME,
+  NATURE_THEME,
+];
+
+export const DEFAULT_THEME = CLASSIC_THEME;
+
+export const getTheme = (id: string): Theme => {
+  return THEMES.find((theme) => theme.id === id) ?? DEFAULT_THEME;
+};
+
+/**
+ * Whether the player has unlocked a theme.
+ */
+export const isThemeUnlocked = (
+  theme: Theme,
+  progress: AchievementProgress,
+): boolean => {
+  return !theme.unlockedBy || !!progress.unlocked[theme.unlockedBy];
+};
+
+/**
+ * Map a shape color onto the theme palette. Colors outside the base palette
+ * (boss hues, white boss shapes) are kept as they are.
+ */
+export const getThemeColor = (theme: Theme, color: string): string => {
+  const index = COLORS.indexOf(color);
+  return index === -1 ? color : theme.palette[index % theme.palette.length];
+};
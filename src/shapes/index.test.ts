@@ -5,8 +5,10 @@ import {
   createShape,
   createInitialShape,
   createActiveShape,
+  getMaxStretch,
+  getRandomAspectRatio,
 } from "./index";
-import { COLORS } from "../constants/game";
+import { COLORS, MAX_STRETCH } from "../constants/game";
 
 // Mock Math.random for predictable tests
 describe("shapes factory", () => {
@@ -126,5 +128,22 @@ describe("shapes factory", () => {
         expect(active.color).not.toBe(COLORS[0]);
       }
     });
+
+    it("should not stretch shapes in the first world", () => {
+      const active = createActiveShape(5, null, () => 0.99, 1);
+      expect(active.aspectRatio).toBeUndefined();
+    });
+
+    it("should stretch shapes further in later worlds", () => {
+      expect(getMaxStretch(1)).toBe(0);
+      expect(getMaxStretch(3)).toBeGreaterThan(getMaxStretch(2));
+      expect(getMaxStretch(99)).toBe(MAX_STRETCH);
+
+      // Stretched all the way, tall side up
+      const tall = createActiveShape(5, null, () => 0.99, 3);
+      expect(tall.aspectRatio).toBeCloseTo(1 / (1 + 0.99 * getMaxStretch(3)));
+      // A low second draw turns it on its side
+      expect(getRandomAspectRatio(0.5, () => 0.2)).toBeCloseTo(1.1);
+    });
   });
 });
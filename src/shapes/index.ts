@@ -1,6 +1,8 @@
 import type { Shape, ShapeType } from "../utils/geometry";
+import type { RandomSource } from "../utils/random";
 import type { ShapeCreationOptions } from "../types";
-import { COLORS, getUnlockedShapes } from "../constants/game";
+import { COLORS, MAX_STRETCH, STRETCH_PER_WORLD } from "../constants/game";
+import { getUnlockedShapes, pickWeightedShape } from "./registry";
 
 /**
  * Shape factory following Open/Closed Principle.
@@ -9,9 +11,13 @@ import { COLORS, getUnlockedShapes } from "../constants/game";
 
 /**
  * Get a random color different from the last used color.
+ * @param random - Random source (defaults to Math.random)
  */
-export const getNextColor = (lastColor: string | null): string => {
-  let nextColor = COLORS[Math.floor(Math.random() * COLORS.length)];
+export const getNextColor = (
+  lastColor: string | null,
+  random: RandomSource = Math.random
+): string => {
+  let nextColor = COLORS[Math.floor(random() * COLORS.length)];
   if (nextColor === lastColor) {
     const idx = COLORS.indexOf(nextColor);
     nextColor = COLORS[(idx + 1) % COLORS.length];
@@ -20,11 +26,37 @@ export const getNextColor = (lastColor: string | null): string => {
 };
 
 /**
- * Get a random shape type from the unlocked shapes at the given level.
+ * Get a random shape type from the unlocked shapes at the given level,
+ * weighted by the registry.
+ * @param random - Random source (defaults to Math.random)
+ * @param world - Current world (later worlds unlock more shapes)
  */
-export const getRandomShapeType = (level: number): ShapeType => {
-  const unlockedShapes = getUnlockedShapes(level);
-  return unlockedShapes[Math.floor(Math.random() * unlockedShapes.length)];
+export const getRandomShapeType = (
+  level: number,
+  random: RandomSource = Math.random,
+  world: number = 1
+): ShapeType => {
+  return pickWeightedShape(getUnlockedShapes(level, world), random);
+};
+
+/**
+ * Largest stretch active shapes get in a world: none in the first, then more
+ * with every world.
+ */
+export const getMaxStretch = (world: number): number => {
+  return Math.min(MAX_STRETCH, Math.max(0, world - 1) * STRETCH_PER_WORLD);
+};
+
+/**
+ * Pick an aspect ratio within the stretch, as likely tall as wide.
+ * @param random - Random source (two draws)
+ */
+export const getRandomAspectRatio = (
+  stretch: number,
+  random: RandomSource = Math.random
+): number => {
+  const ratio = 1 + random() * stretch;
+  return random() < 0.5 ? ratio : 1 / ratio;
 };
 
 /**
@@ -38,6 +70,12 @@ export const createShape = (options: ShapeCreationOptions = {}): Shape => {
     rotation: options.rotation ?? 0,
     color: options.color ?? COLORS[0],
     opacity: options.opacity ?? 1,
+    ...(options.position && { position: options.position }),
+    ...(options.velocity && { velocity: options.velocity }),
+    ...(options.aspectRatio !== undefined && {
+      aspectRatio: options.aspectRatio,
+    }),
+    ...(options.skew !== undefined && { skew: options.skew }),
   };
 };
 
@@ -59,23 +97,34 @@ export const createInitialShape = (viewportSize: number): Shape => {
  * Create a new active shape based on game state.
  * @param level - Current game level (determines available shapes)
  * @param lastShape - The previous shape (to avoid color repetition)
+ * @param random - Random source (pass a seeded one for deterministic runs)
+ * @param world - Current world (later worlds unlock more shapes and stretch
+ *   them further)
  */
 export const createActiveShape = (
   level: number,
-  lastShape: Shape | null
+  lastShape: Shape | null,
+  random: RandomSource = Math.random,
+  world: number = 1
 ): Shape => {
-  const type = getRandomShapeType(level);
+  const type = getRandomShapeType(level, random, world);
   const lastColor = lastShape?.color ?? null;
-  const color = getNextColor(lastColor);
+  const color = getNextColor(lastColor, random);
 
   // Start at a fraction of the last shape's size
   const startSize = lastShape ? lastShape.size * 0.05 : 10;
 
+  // No draws in the first world, so its runs play out as they always have
+  const stretch = getMaxStretch(world);
+  const aspectRatio =
+    stretch > 0 ? getRandomAspectRatio(stretch, random) : undefined;
+
   return createShape({
     type,
     size: startSize,
     color,
     rotation: 0,
     opacity: 0.8,
+    aspectRatio,
   });
 };
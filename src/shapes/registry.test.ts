@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import {
+  SHAPE_TYPES,
+  getShapeDefinition,
+  getUnlockedShapes,
+  pickWeightedShape,
+} from "./registry";
+import { getVertices, type Point } from "../utils/geometry";
+import { isContained, isPointInShape } from "../utils/containment";
+import { createShape } from "./index";
+
+const getBounds = (vertices: Point[]) => {
+  const xs = vertices.map((v) => v.x);
+  const ys = vertices.map((v) => v.y);
+  return {
+    width: Math.max(...xs) - Math.min(...xs),
+    height: Math.max(...ys) - Math.min(...ys),
+  };
+};
+
+/**
+ * Whether every turn along the polygon goes the same way.
+ */
+const isConvex = (vertices: Point[]): boolean => {
+  const turns = vertices.map((b, i) => {
+    const a = vertices[(i + vertices.length - 1) % vertices.length];
+    const c = vertices[(i + 1) % vertices.length];
+    return (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+  });
+  return (
+    turns.every((turn) => turn >= -1e-9) || turns.every((turn) => turn <= 1e-9)
+  );
+};
+
+describe("shape registry", () => {
+  describe.each(SHAPE_TYPES)("%s", (type) => {
+    const definition = getShapeDefinition(type);
+    const shape = createShape({ type, size: 100 });
+
+    it("should fit its size and match its aspect ratio", () => {
+      const { width, height } = getBounds(getVertices(shape));
+      expect(Math.max(width, height)).toBeLessThanOrEqual(100 + 1e-9);
+      expect(width / height).toBeCloseTo(definition.aspectRatio, 1);
+    });
+
+    it("should declare its convexity correctly", () => {
+      const { outline } = definition;
+      if (outline.kind !== "polygon") return;
+      expect(isConvex(outline.getVertices(100, 0.3))).toBe(outline.convex);
+    });
+
+    it("should have room at its centre for the next shape to grow", () => {
+      expect(isPointInShape({ x: 0, y: 0 }, shape, 0)).toBe(true);
+      const seed = createShape({ type: "circle", size: 5 });
+      expect(isContained(seed, shape, 0)).toBe(true);
+    });
+
+    it("should have a name and a positive weight", () => {
+      expect(definition.name).not.toBe("");
+      expect(definition.weight).toBeGreaterThan(0);
+    });
+  });
+
+  describe("getUnlockedShapes", () => {
+    it("should keep the original unlocks in the first world", () => {
+      expect(getUnlockedShapes(1)).toEqual(["circle", "octagon"]);
+      expect(getUnlockedShapes(5, 1)).toEqual([
+        "circle",
+        "octagon",
+        "pentagon",
+        "hexagon",
+        "square",
+        "triangle",
+        "rectangle",
+      ]);
+    });
+
+    it("should add new shapes in later worlds", () => {
+      expect(getUnlockedShapes(1, 2)).toContain("heptagon");
+      expect(getUnlockedShapes(2, 2)).not.toContain("rounded-square");
+      expect(getUnlockedShapes(3, 2)).toContain("rounded-square");
+      expect(getUnlockedShapes(5, 9)).toContain("crescent");
+    });
+
+    it("should never spawn boss-only shapes", () => {
+      const all = getUnlockedShapes(5, 99);
+      expect(all).not.toContain("star");
+      expect(all).not.toContain("diamond");
+    });
+  });
+
+  describe("pickWeightedShape", () => {
+    it("should pick evenly between equally weighted shapes", () => {
+      const types = getUnlockedShapes(2);
+      expect(pickWeightedShape(types, () => 0)).toBe("circle");
+      expect(pickWeightedShape(types, () => 0.3)).toBe("octagon");
+      expect(pickWeightedShape(types, () => 0.99)).toBe("hexagon");
+    });
+
+    it("should make lighter shapes rarer", () => {
+      // heptagon weighs 1, crescent 0.4: crescent owns the last 0.4 / 1.4
+      const types = ["heptagon", "crescent"] as const;
+      expect(pickWeightedShape([...types], () => 0.7)).toBe("heptagon");
+      expect(pickWeightedShape([...types], () => 0.72)).toBe("crescent");
+    });
+  });
+});
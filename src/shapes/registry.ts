@@ -0,0 +1,425 @@
+import type { Point } from "../utils/geometry";
+import {
+  getArcPoints,
+  getBoxVertices,
+  getRegularPolygonVertices,
+  getRhombusVertices,
+  getStarVertices,
+  scaleUnitPoints,
+} from "./vertices";
+import type { RandomSource } from "../utils/random";
+
+/**
+ * Shape registry - every shape type is defined once here: its outline for
+ * collision, how it's drawn, its name, how often it spawns and when it
+ * unlocks. Geometry, containment, rendering and shape spawning all read
+ * from it, so adding a shape means adding an entry.
+ */
+
+export type ShapeOutlineDefinition =
+  /** Exact circle of diameter `size` */
+  | { kind: "circle" }
+  /** Exact ellipse `size` wide, with the definition's aspect ratio */
+  | { kind: "ellipse" }
+  /** Polygon generated at a size and rotation, centred at the origin */
+  | {
+      kind: "polygon";
+      convex: boolean;
+      getVertices: (size: number, rotation: number) => Point[];
+    };
+
+/**
+ * The part of the canvas API render paths use (kept DOM-free so headless
+ * code can load the registry).
+ */
+export interface ShapePathContext {
+  beginPath(): void;
+  closePath(): void;
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  arc(
+    x: number,
+    y: number,
+    radius: number,
+    startAngle: number,
+    endAngle: number
+  ): void;
+  rect(x: number, y: number, width: number, height: number): void;
+  ellipse(
+    x: number,
+    y: number,
+    radiusX: number,
+    radiusY: number,
+    rotation: number,
+    startAngle: number,
+    endAngle: number
+  ): void;
+}
+
+export interface ShapeDefinition {
+  /** Name shown to players */
+  name: string;
+  outline: ShapeOutlineDefinition;
+  /** Width over height of the unrotated shape's bounding box */
+  aspectRatio: number;
+  /**
+   * Trace the shape's canvas path, unrotated and centred at the origin.
+   * Polygons without one are traced from their outline.
+   */
+  drawPath?: (ctx: ShapePathContext, size: number) => void;
+  /** Relative chance of spawning once unlocked (awkward shapes are rarer) */
+  weight: number;
+  /**
+   * First world and level (within a world) it spawns at; without one the
+   * shape only appears as a boss.
+   */
+  unlock?: { world: number; level: number };
+}
+
+const RECTANGLE_ASPECT_RATIO = 1 / 0.6;
+const DIAMOND_ASPECT_RATIO = 1 / 0.7;
+const ELLIPSE_ASPECT_RATIO = 1.6;
+
+// Outlines at size 1 (y points down, as on the canvas)
+
+const CROSS_OUTLINE: Point[] = [
+  { x: -0.2, y: -0.5 },
+  { x: 0.2, y: -0.5 },
+  { x: 0.2, y: -0.2 },
+  { x: 0.5, y: -0.2 },
+  { x: 0.5, y: 0.2 },
+  { x: 0.2, y: 0.2 },
+  { x: 0.2, y: 0.5 },
+  { x: -0.2, y: 0.5 },
+  { x: -0.2, y: 0.2 },
+  { x: -0.5, y: 0.2 },
+  { x: -0.5, y: -0.2 },
+  { x: -0.2, y: -0.2 },
+];
+
+// The notch sits off-centre so the centre, where shapes grow from, is solid
+const L_OUTLINE: Point[] = [
+  { x: -0.5, y: -0.5 },
+  { x: 0.1, y: -0.5 },
+  { x: 0.1, y: -0.1 },
+  { x: 0.5, y: -0.1 },
+  { x: 0.5, y: 0.5 },
+  { x: -0.5, y: 0.5 },
+];
+
+const T_OUTLINE: Point[] = [
+  { x: -0.5, y: -0.5 },
+  { x: 0.5, y: -0.5 },
+  { x: 0.5, y: -0.1 },
+  { x: 0.2, y: -0.1 },
+  { x: 0.2, y: 0.5 },
+  { x: -0.2, y: 0.5 },
+  { x: -0.2, y: -0.1 },
+  { x: -0.5, y: -0.1 },
+];
+
+const ROUNDED_SQUARE_RADIUS = 0.2;
+const ROUNDED_SQUARE_OUTLINE: Point[] = (() => {
+  const inset = 0.5 - ROUNDED_SQUARE_RADIUS;
+  const corners = [
+    { x: inset, y: -inset },
+    { x: inset, y: inset },
+    { x: -inset, y: inset },
+    { x: -inset, y: -inset },
+  ];
+  // One quarter circle per corner, clockwise from the top right
+  return corners.flatMap((corner, i) =>
+    getArcPoints(
+      corner,
+      ROUNDED_SQUARE_RADIUS,
+      -Math.PI / 2 + (i * Math.PI) / 2,
+      (i * Math.PI) / 2,
+      6
+    )
+  );
+})();
+
+// A disc with a smaller disc bitten out of its right side. The bite stops
+// short of the centre, so shapes still grow from inside the crescent.
+const CRESCENT_BITE_OFFSET = 0.45;
+const CRESCENT_BITE_RADIUS = 0.4;
+const CRESCENT_OUTLINE: Point[] = (() => {
+  const d = CRESCENT_BITE_OFFSET;
+  const r = CRESCENT_BITE_RADIUS;
+  // Where the two circles cross
+  const x = (0.25 - r * r + d * d) / (2 * d);
+  const y = Math.sqrt(0.25 - x * x);
+  const outerStart = Math.atan2(y, x);
+  const innerStart = Math.atan2(y, x - d);
+  const outer = getArcPoints(
+    { x: 0, y: 0 },
+    0.5,
+    outerStart,
+    Math.PI * 2 - outerStart,
+    24
+  );
+  // Back along the bite, skipping the shared end points
+  const inner = getArcPoints(
+    { x: d, y: 0 },
+    r,
+    Math.PI * 2 - innerStart,
+    innerStart,
+    16
+  ).slice(1, -1);
+  return [...outer, ...inner];
+})();
+
+const HEART_OUTLINE: Point[] = (() => {
+  const samples = 48;
+  const points: Point[] = [];
+  for (let i = 0; i < samples; i++) {
+    const t = (i / samples) * Math.PI * 2;
+    points.push({
+      x: 16 * Math.sin(t) ** 3,
+      y: -(
+        13 * Math.cos(t) -
+        5 * Math.cos(2 * t) -
+        2 * Math.cos(3 * t) -
+        Math.cos(4 * t)
+      ),
+    });
+  }
+  // Centre the bounding box on the origin and fit it to size 1
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const midY = (Math.min(...ys) + Math.max(...ys)) / 2;
+  const width = Math.max(...xs) - Math.min(...xs);
+  return points.map((p) => ({ x: p.x / width, y: (p.y - midY) / width }));
+})();
+
+const getUnitAspectRatio = (points: Point[]): number => {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  return (
+    (Math.max(...xs) - Math.min(...xs)) / (Math.max(...ys) - Math.min(...ys))
+  );
+};
+
+const regularPolygon = (sides: number): ShapeOutlineDefinition => ({
+  kind: "polygon",
+  convex: true,
+  getVertices: (size, rotation) =>
+    getRegularPolygonVertices(sides, size, rotation),
+});
+
+const unitPolygon = (
+  points: Point[],
+  convex: boolean
+): ShapeOutlineDefinition => ({
+  kind: "polygon",
+  convex,
+  getVertices: (size, rotation) => scaleUnitPoints(points, size, rotation),
+});
+
+/**
+ * Every shape, in the order they unlock (boss-only shapes last).
+ */
+export const SHAPE_REGISTRY = {
+  circle: {
+    name: "Circle",
+    outline: { kind: "circle" },
+    aspectRatio: 1,
+    drawPath: (ctx, size) => {
+      ctx.beginPath();
+      ctx.arc(0, 0, size / 2, 0, Math.PI * 2);
+    },
+    weight: 1,
+    unlock: { world: 1, level: 1 },
+  },
+  octagon: {
+    name: "Octagon",
+    outline: regularPolygon(8),
+    aspectRatio: 1,
+    weight: 1,
+    unlock: { world: 1, level: 1 },
+  },
+  pentagon: {
+    name: "Pentagon",
+    outline: regularPolygon(5),
+    aspectRatio: getUnitAspectRatio(getRegularPolygonVertices(5, 1, 0)),
+    weight: 1,
+    unlock: { world: 1, level: 2 },
+  },
+  hexagon: {
+    name: "Hexagon",
+    outline: regularPolygon(6),
+    aspectRatio: getUnitAspectRatio(getRegularPolygonVertices(6, 1, 0)),
+    weight: 1,
+    unlock: { world: 1, level: 2 },
+  },
+  square: {
+    name: "Square",
+    outline: {
+      kind: "polygon",
+      convex: true,
+      getVertices: (size, rotation) => getBoxVertices(size, rotation),
+    },
+    aspectRatio: 1,
+    drawPath: (ctx, size) => {
+      ctx.beginPath();
+      ctx.rect(-size / 2, -size / 2, size, size);
+    },
+    weight: 1,
+    unlock: { world: 1, level: 3 },
+  },
+  triangle: {
+    name: "Triangle",
+    outline: regularPolygon(3),
+    aspectRatio: getUnitAspectRatio(getRegularPolygonVertices(3, 1, 0)),
+    weight: 1,
+    unlock: { world: 1, level: 4 },
+  },
+  rectangle: {
+    name: "Rectangle",
+    outline: {
+      kind: "polygon",
+      convex: true,
+      getVertices: (size, rotation) =>
+        getBoxVertices(size, rotation, RECTANGLE_ASPECT_RATIO),
+    },
+    aspectRatio: RECTANGLE_ASPECT_RATIO,
+    drawPath: (ctx, size) => {
+      const height = size / RECTANGLE_ASPECT_RATIO;
+      ctx.beginPath();
+      ctx.rect(-size / 2, -height / 2, size, height);
+    },
+    weight: 1,
+    unlock: { world: 1, level: 5 },
+  },
+  heptagon: {
+    name: "Heptagon",
+    outline: regularPolygon(7),
+    aspectRatio: getUnitAspectRatio(getRegularPolygonVertices(7, 1, 0)),
+    weight: 1,
+    unlock: { world: 2, level: 1 },
+  },
+  "rounded-square": {
+    name: "Rounded Square",
+    outline: unitPolygon(ROUNDED_SQUARE_OUTLINE, true),
+    aspectRatio: 1,
+    weight: 1,
+    unlock: { world: 2, level: 3 },
+  },
+  cross: {
+    name: "Cross",
+    outline: unitPolygon(CROSS_OUTLINE, false),
+    aspectRatio: 1,
+    weight: 0.6,
+    unlock: { world: 3, level: 2 },
+  },
+  heart: {
+    name: "Heart",
+    outline: unitPolygon(HEART_OUTLINE, false),
+    aspectRatio: getUnitAspectRatio(HEART_OUTLINE),
+    weight: 0.6,
+    unlock: { world: 3, level: 4 },
+  },
+  "l-shape": {
+    name: "L",
+    outline: unitPolygon(L_OUTLINE, false),
+    aspectRatio: 1,
+    weight: 0.5,
+    unlock: { world: 4, level: 1 },
+  },
+  "t-shape": {
+    name: "T",
+    outline: unitPolygon(T_OUTLINE, false),
+    aspectRatio: 1,
+    weight: 0.5,
+    unlock: { world: 4, level: 3 },
+  },
+  crescent: {
+    name: "Crescent",
+    outline: unitPolygon(CRESCENT_OUTLINE, false),
+    aspectRatio: getUnitAspectRatio(CRESCENT_OUTLINE),
+    weight: 0.4,
+    unlock: { world: 5, level: 1 },
+  },
+  ellipse: {
+    name: "Ellipse",
+    outline: { kind: "ellipse" },
+    aspectRatio: ELLIPSE_ASPECT_RATIO,
+    drawPath: (ctx, size) => {
+      ctx.beginPath();
+      ctx.ellipse(
+        0,
+        0,
+        size / 2,
+        size / 2 / ELLIPSE_ASPECT_RATIO,
+        0,
+        0,
+        Math.PI * 2
+      );
+    },
+    weight: 1,
+    unlock: { world: 5, level: 3 },
+  },
+  diamond: {
+    name: "Diamond",
+    outline: {
+      kind: "polygon",
+      convex: true,
+      getVertices: (size, rotation) =>
+        getRhombusVertices(size, rotation, DIAMOND_ASPECT_RATIO),
+    },
+    aspectRatio: DIAMOND_ASPECT_RATIO,
+    weight: 1,
+  },
+  star: {
+    name: "Star",
+    outline: {
+      kind: "polygon",
+      convex: false,
+      getVertices: (size, rotation) => getStarVertices(size, rotation),
+    },
+    aspectRatio: getUnitAspectRatio(getStarVertices(1, 0)),
+    weight: 1,
+  },
+} satisfies Record<string, ShapeDefinition>;
+
+export type ShapeType = keyof typeof SHAPE_REGISTRY;
+
+/** Every shape type, in unlock order */
+export const SHAPE_TYPES = Object.keys(SHAPE_REGISTRY) as ShapeType[];
+
+export const getShapeDefinition = (type: ShapeType): ShapeDefinition => {
+  return SHAPE_REGISTRY[type];
+};
+
+/**
+ * Shapes that can spawn at a world and level (levels restart every world).
+ */
+export const getUnlockedShapes = (
+  level: number,
+  world: number = 1
+): ShapeType[] => {
+  return SHAPE_TYPES.filter((type) => {
+    const { unlock } = getShapeDefinition(type);
+    return !!unlock && world >= unlock.world && level >= unlock.level;
+  });
+};
+
+/**
+ * Pick a shape type in proportion to the shapes' weights.
+ * @param random - Random source (one draw)
+ */
+export const pickWeightedShape = (
+  types: ShapeType[],
+  random: RandomSource
+): ShapeType => {
+  const total = types.reduce(
+    (sum, type) => sum + getShapeDefinition(type).weight,
+    0
+  );
+  let roll = random() * total;
+  for (const type of types) {
+    roll -= getShapeDefinition(type).weight;
+    if (roll < 0) return type;
+  }
+  return types[types.length - 1];
+};
@@ -0,0 +1,131 @@
+import type { Point } from "../utils/geometry";
+
+/**
+ * Vertex generators used by the shape registry. Every generator centres the
+ * shape at the origin and applies the rotation itself.
+ */
+
+/**
+ * Rotate points around the origin.
+ */
+export const rotatePoints = (points: Point[], rotation: number): Point[] => {
+  const cos = Math.cos(rotation);
+  const sin = Math.sin(rotation);
+  return points.map((p) => ({
+    x: p.x * cos - p.y * sin,
+    y: p.x * sin + p.y * cos,
+  }));
+};
+
+/**
+ * Scale an outline given at size 1 and rotate it.
+ */
+export const scaleUnitPoints = (
+  points: Point[],
+  size: number,
+  rotation: number
+): Point[] => {
+  return rotatePoints(
+    points.map((p) => ({ x: p.x * size, y: p.y * size })),
+    rotation
+  );
+};
+
+// Helper to get vertices of regular polygons
+export const getRegularPolygonVertices = (
+  sides: number,
+  size: number,
+  rotation: number
+): Point[] => {
+  const vertices: Point[] = [];
+  const radius = size / 2;
+  for (let i = 0; i < sides; i++) {
+    const angle = (i / sides) * Math.PI * 2 - Math.PI / 2 + rotation;
+    vertices.push({
+      x: Math.cos(angle) * radius,
+      y: Math.sin(angle) * radius,
+    });
+  }
+  return vertices;
+};
+
+// Helper to get vertices of a 5-pointed star
+export const getStarVertices = (
+  size: number,
+  rotation: number,
+  innerRatio: number = 0.4
+): Point[] => {
+  const vertices: Point[] = [];
+  const radius = size / 2;
+  const innerRadius = radius * innerRatio;
+  for (let i = 0; i < 10; i++) {
+    const r = i % 2 === 0 ? radius : innerRadius;
+    const angle = (i / 10) * Math.PI * 2 - Math.PI / 2 + rotation;
+    vertices.push({
+      x: Math.cos(angle) * r,
+      y: Math.sin(angle) * r,
+    });
+  }
+  return vertices;
+};
+
+/**
+ * Corners of a box `size` wide, centred at the origin.
+ * @param aspectRatio - Width over height
+ */
+export const getBoxVertices = (
+  size: number,
+  rotation: number,
+  aspectRatio: number = 1
+): Point[] => {
+  const halfW = size / 2;
+  const halfH = size / aspectRatio / 2;
+  const corners = [
+    { x: -halfW, y: -halfH },
+    { x: halfW, y: -halfH },
+    { x: halfW, y: halfH },
+    { x: -halfW, y: halfH },
+  ];
+  return rotatePoints(corners, rotation);
+};
+
+/**
+ * Corners of a rhombus `size` wide, centred at the origin.
+ * @param aspectRatio - Width over height
+ */
+export const getRhombusVertices = (
+  size: number,
+  rotation: number,
+  aspectRatio: number = 1
+): Point[] => {
+  const halfW = size / 2;
+  const halfH = size / aspectRatio / 2;
+  const corners = [
+    { x: 0, y: -halfH },
+    { x: halfW, y: 0 },
+    { x: 0, y: halfH },
+    { x: -halfW, y: 0 },
+  ];
+  return rotatePoints(corners, rotation);
+};
+
+/**
+ * Points along a circular arc, from `start` to `end` (radians, inclusive).
+ */
+export const getArcPoints = (
+  center: Point,
+  radius: number,
+  start: number,
+  end: number,
+  samples: number
+): Point[] => {
+  const points: Point[] = [];
+  for (let i = 0; i <= samples; i++) {
+    const angle = start + ((end - start) * i) / samples;
+    points.push({
+      x: center.x + Math.cos(angle) * radius,
+      y: center.y + Math.sin(angle) * radius,
+    });
+  }
+  return points;
+};
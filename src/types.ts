@@ -1,6 +1,47 @@
-import type { Shape, ShapeType } from "./utils/geometry";
+import type { Point, Shape, ShapeType } from "./utils/geometry";
+import type { ReplayData } from "./core/replay";
 
-export type GameMode = "CLASSIC" | "ZEN" | "TIME_ATTACK";
+export type GameMode = "CLASSIC" | "ZEN" | "TIME_ATTACK" | "RHYTHM" | "DAILY";
+
+/**
+ * Tempo-locked growth and combo state for Rhythm Mode.
+ */
+export interface RhythmState {
+  bpm: number;
+  /** Simulated time at which the current active shape started growing */
+  spawnTime: number;
+  /** Beat at which the current active shape reaches targetSize */
+  targetTime: number;
+  startSize: number;
+  /** Size the shape reaches on the target beat (inside the safe window) */
+  targetSize: number;
+  /** Consecutive on-beat taps */
+  combo: number;
+  multiplier: number;
+  /** Rhythm points: each stack awards the current multiplier */
+  points: number;
+}
+
+/**
+ * Quality tier of a stack, from how much of the available space was used.
+ */
+export type StackGrade = "CLOSE_CALL" | "PERFECT" | "GREAT" | "GOOD";
+
+/**
+ * An active shape and the container it was judged against.
+ */
+export interface ShapePair {
+  active: ShapeType;
+  container: ShapeType;
+}
+
+/**
+ * The active shape at one simulation step (see core/shapeHistory).
+ */
+export interface ActiveShapeSnapshot {
+  time: number;
+  shape: Shape;
+}
 
 /**
  * Game state representing all mutable game data.
@@ -16,18 +57,62 @@ export interface GameState {
   initialSize: number;
   currentSpeed: number;
   isGameOver: boolean;
+  isPaused: boolean; // Simulation frozen (pause menu or resume countdown)
+  resumeCountdown: number; // Seconds left before a resumed game continues
   mode: GameMode;
   timeRemaining?: number; // For Time Attack
   undoStack?: Shape[][]; // For Zen Mode - stores previous stacks of shapes
   isBossLevel?: boolean; // For Boss Mechanics
+  seed: number; // Seed the run was started with
+  rngState: number; // Current PRNG state, advanced on every random draw
+  elapsedTime: number; // Simulated game clock in seconds (sum of dt)
+  rhythm?: RhythmState; // For Rhythm Mode
+  inputOffset: number; // Seconds taps are judged in the past (input latency)
+  activeShapeHistory: ActiveShapeSnapshot[]; // Recent steps of the active shape
 }
 
+/**
+ * Gameplay events emitted by GameCanvas (consumed by achievements and the
+ * player profile).
+ * `time` is the simulated game clock (GameState.elapsedTime) in seconds.
+ */
+export type GameEvent =
+  | { type: "start"; mode: GameMode; time: number }
+  | { type: "stack"; score: number; grade: StackGrade | null; time: number }
+  | { type: "perfect"; score: number; time: number }
+  | {
+      type: "miss";
+      score: number;
+      /** Shapes of the miss; null without an active shape or container */
+      pair: ShapePair | null;
+      time: number;
+    }
+  | { type: "levelUp"; world: number; level: number; time: number }
+  | { type: "worldUp"; world: number; time: number }
+  | { type: "bossCleared"; score: number; time: number }
+  | {
+      type: "gameOver";
+      mode: GameMode;
+      seed: number;
+      score: number;
+      world: number;
+      level: number;
+      time: number;
+    };
+
+export type GameEventType = GameEvent["type"];
+
 /**
  * Callbacks for game events.
  */
 export interface GameCallbacks {
-  onScore: (score: number) => void;
-  onGameOver: (finalScore: number, world: number, level: number) => void;
+  onScore: (score: number, grade?: StackGrade | null) => void;
+  onGameOver: (
+    finalScore: number,
+    world: number,
+    level: number,
+    replay?: ReplayData
+  ) => void;
   onLevelUp: (level: number) => void;
   onWorldUp: (world: number) => void;
 }
@@ -41,4 +126,8 @@ export interface ShapeCreationOptions {
   color?: string;
   rotation?: number;
   opacity?: number;
+  position?: Point;
+  velocity?: Point;
+  aspectRatio?: number;
+  skew?: number;
 }
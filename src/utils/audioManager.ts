@@ -1,12 +1,66 @@
 import type { IAudioService } from "../audio/types";
+import {
+  MUSIC_BPM,
+  MUSIC_LAYERS,
+  MUSIC_STEPS_PER_BAR,
+  getActiveLayers,
+  getLayerNotes,
+  getMusicIntensity,
+  getPercussionHit,
+  type MusicLayer,
+  type PercussionHit,
+} from "../audio/music";
 
 interface WindowWithWebkitAudioContext extends Window {
   webkitAudioContext?: typeof AudioContext;
 }
 
+// Beat scheduler: wakes every interval, queues beats due within the lookahead
+const BEAT_SCHEDULER_INTERVAL_MS = 25;
+const BEAT_SCHEDULE_AHEAD = 0.1;
+const BEATS_PER_BAR = 4;
+// Bass line of the backing loop, one note per bar (A2, F2, C3, G2)
+const BASS_LINE = [110, 87.31, 130.81, 98];
+
+// Soundtrack mix: layer volumes, fade and crossfade times, game-over sweep
+const MUSIC_VOLUME = 0.6;
+const LAYER_VOLUMES: Record<MusicLayer, number> = {
+  bass: 0.5,
+  percussion: 0.35,
+  arpeggio: 0.12,
+  pad: 0.08,
+};
+const LAYER_FADE_TIME = 1;
+const WORLD_CROSSFADE_TIME = 2;
+const STOP_SWEEP_TIME = 1.5;
+const MUSIC_FILTER_OPEN = 12000;
+const MUSIC_FILTER_CLOSED = 60;
+
+/**
+ * One world's soundtrack: a gain bus per layer, summed into a bus gain that
+ * is crossfaded when the world changes.
+ */
+interface MusicBus {
+  world: number;
+  gain: GainNode;
+  layers: Record<MusicLayer, GainNode>;
+}
+
+interface MusicState {
+  filter: BiquadFilterNode;
+  bus: MusicBus;
+  activeLayers: MusicLayer[];
+  step: number;
+  nextStepTime: number;
+  timer?: ReturnType<typeof setInterval>;
+}
+
 class AudioManager implements IAudioService {
   private ctx: AudioContext | null = null;
   private masterGain: GainNode | null = null;
+  private beatTimer: ReturnType<typeof setInterval> | null = null;
+  private music: MusicState | null = null;
+  private noiseBuffer: AudioBuffer | null = null;
 
   init(): void {
     if (this.ctx) return;
@@ -71,6 +125,340 @@ class AudioManager implements IAudioService {
       this.ctx.resume();
     }
   }
+
+  suspend(): void {
+    if (this.ctx && this.ctx.state === "running") {
+      this.ctx.suspend();
+    }
+  }
+
+  startBeat(bpm: number, latency: number, elapsed: number = 0): void {
+    if (!this.ctx || !this.masterGain) this.init();
+    this.stopBeat();
+    const ctx = this.ctx!;
+
+    const beatDuration = 60 / bpm;
+    const startTime = ctx.currentTime - elapsed;
+    let beat = Math.max(0, Math.floor(elapsed / beatDuration));
+
+    const schedule = () => {
+      while (true) {
+        const time = startTime + beat * beatDuration - latency;
+        if (time >= ctx.currentTime + BEAT_SCHEDULE_AHEAD) break;
+        // Beats already in the past (latency > elapsed time) are skipped
+        if (time >= ctx.currentTime) this.playBeat(beat, time);
+        beat++;
+      }
+    };
+
+    schedule();
+    this.beatTimer = setInterval(schedule, BEAT_SCHEDULER_INTERVAL_MS);
+  }
+
+  stopBeat(): void {
+    if (this.beatTimer !== null) {
+      clearInterval(this.beatTimer);
+      this.beatTimer = null;
+    }
+  }
+
+  /**
+   * Schedule one metronome click, accenting the downbeat with a bass note.
+   */
+  private playBeat(beat: number, time: number): void {
+    const ctx = this.ctx!;
+    const isDownbeat = beat % BEATS_PER_BAR === 0;
+
+    const click = ctx.createOscillator();
+    const clickGain = ctx.createGain();
+    click.type = "square";
+    click.frequency.setValueAtTime(isDownbeat ? 1760 : 880, time);
+    clickGain.gain.setValueAtTime(isDownbeat ? 0.3 : 0.15, time);
+    clickGain.gain.exponentialRampToValueAtTime(0.01, time + 0.05);
+    click.connect(clickGain);
+    clickGain.connect(this.masterGain!);
+    click.start(time);
+    click.stop(time + 0.05);
+
+    if (!isDownbeat) return;
+
+    const bar = Math.floor(beat / BEATS_PER_BAR);
+    const bass = ctx.createOscillator();
+    const bassGain = ctx.createGain();
+    bass.type = "triangle";
+    bass.frequency.setValueAtTime(BASS_LINE[bar % BASS_LINE.length], time);
+    bassGain.gain.setValueAtTime(0.4, time);
+    bassGain.gain.exponentialRampToValueAtTime(0.01, time + 0.5);
+    bass.connect(bassGain);
+    bassGain.connect(this.masterGain!);
+    bass.start(time);
+    bass.stop(time + 0.5);
+  }
+
+  startMusic(): void {
+    if (!this.ctx || !this.masterGain) this.init();
+    this.teardownMusic();
+    const ctx = this.ctx!;
+
+    const filter = ctx.createBiquadFilter();
+    filter.type = "lowpass";
+    filter.frequency.value = MUSIC_FILTER_OPEN;
+    const musicGain = ctx.createGain();
+    musicGain.gain.value = MUSIC_VOLUME;
+    filter.connect(musicGain);
+    musicGain.connect(this.masterGain!);
+
+    const bus = this.createMusicBus(1, filter, 0);
+    const activeLayers = getActiveLayers(getMusicIntensity(0, 1, 1));
+    activeLayers.forEach((layer) => {
+      bus.layers[layer].gain.value = LAYER_VOLUMES[layer];
+    });
+
+    const music: MusicState = {
+      filter,
+      bus,
+      activeLayers,
+      step: 0,
+      nextStepTime: ctx.currentTime,
+    };
+    // The scheduler holds its own reference so it keeps playing through the
+    // stop sweep after this.music has been cleared
+    this.scheduleMusic(music);
+    music.timer = setInterval(
+      () => this.scheduleMusic(music),
+      BEAT_SCHEDULER_INTERVAL_MS
+    );
+    this.music = music;
+  }
+
+  setIntensity(score: number, level: number, world: number): void {
+    const music = this.music;
+    if (!music) return;
+    const ctx = this.ctx!;
+    const now = ctx.currentTime;
+
+    if (world !== music.bus.world) {
+      // Crossfade into the new world's key
+      const previous = music.bus;
+      previous.gain.gain.setValueAtTime(previous.gain.gain.value, now);
+      previous.gain.gain.linearRampToValueAtTime(0, now + WORLD_CROSSFADE_TIME);
+      setTimeout(
+        () => previous.gain.disconnect(),
+        WORLD_CROSSFADE_TIME * 1000 + 100
+      );
+      music.bus = this.createMusicBus(
+        world,
+        music.filter,
+        WORLD_CROSSFADE_TIME
+      );
+      music.activeLayers.forEach((layer) => {
+        music.bus.layers[layer].gain.value = LAYER_VOLUMES[layer];
+      });
+    }
+
+    const intensity = getMusicIntensity(score, level, world);
+    const activeLayers = getActiveLayers(intensity);
+    MUSIC_LAYERS.forEach(({ layer }) => {
+      const gain = music.bus.layers[layer].gain;
+      const target = activeLayers.includes(layer) ? LAYER_VOLUMES[layer] : 0;
+      gain.setValueAtTime(gain.value, now);
+      gain.linearRampToValueAtTime(target, now + LAYER_FADE_TIME);
+    });
+    music.activeLayers = activeLayers;
+  }
+
+  stopMusic(): void {
+    const music = this.music;
+    if (!music) return;
+    const now = this.ctx!.currentTime;
+
+    // Sweep the low-pass filter shut, then release the graph
+    const frequency = music.filter.frequency;
+    frequency.setValueAtTime(frequency.value, now);
+    frequency.exponentialRampToValueAtTime(
+      MUSIC_FILTER_CLOSED,
+      now + STOP_SWEEP_TIME
+    );
+    setTimeout(() => {
+      clearInterval(music.timer);
+      music.filter.disconnect();
+    }, STOP_SWEEP_TIME * 1000);
+    this.music = null;
+  }
+
+  /**
+   * Stop any soundtrack immediately (no sweep).
+   */
+  private teardownMusic(): void {
+    if (!this.music) return;
+    clearInterval(this.music.timer);
+    this.music.filter.disconnect();
+    this.music = null;
+  }
+
+  private createMusicBus(
+    world: number,
+    destination: AudioNode,
+    fadeIn: number
+  ): MusicBus {
+    const ctx = this.ctx!;
+    const gain = ctx.createGain();
+    if (fadeIn > 0) {
+      gain.gain.setValueAtTime(0, ctx.currentTime);
+      gain.gain.linearRampToValueAtTime(1, ctx.currentTime + fadeIn);
+    }
+    gain.connect(destination);
+
+    const createLayer = () => {
+      const layer = ctx.createGain();
+      layer.gain.value = 0;
+      layer.connect(gain);
+      return layer;
+    };
+    return {
+      world,
+      gain,
+      layers: {
+        bass: createLayer(),
+        percussion: createLayer(),
+        arpeggio: createLayer(),
+        pad: createLayer(),
+      },
+    };
+  }
+
+  /**
+   * Queue every sixteenth-note step due within the lookahead window.
+   */
+  private scheduleMusic(music: MusicState): void {
+    const ctx = this.ctx!;
+    const stepDuration = 60 / MUSIC_BPM / 4;
+
+    while (music.nextStepTime < ctx.currentTime + BEAT_SCHEDULE_AHEAD) {
+      const time = music.nextStepTime;
+      const { bus, step } = music;
+
+      MUSIC_LAYERS.forEach(({ layer }) => {
+        const destination = bus.layers[layer];
+        // Keep playing fading-out layers until they are silent
+        if (
+          !music.activeLayers.includes(layer) &&
+          destination.gain.value < 0.001
+        ) {
+          return;
+        }
+        if (layer === "percussion") {
+          const hit = getPercussionHit(step);
+          if (hit) this.playPercussion(hit, destination, time);
+          return;
+        }
+        getLayerNotes(layer, bus.world, step).forEach((frequency) => {
+          if (layer === "bass") {
+            this.playTone(
+              destination,
+              "triangle",
+              frequency,
+              time,
+              stepDuration * 2
+            );
+          } else if (layer === "arpeggio") {
+            this.playTone(destination, "square", frequency, time, stepDuration);
+          } else {
+            // Pads swell in and sustain for the whole bar
+            this.playTone(
+              destination,
+              "sawtooth",
+              frequency,
+              time,
+              stepDuration * MUSIC_STEPS_PER_BAR,
+              stepDuration * 4
+            );
+          }
+        });
+      });
+
+      music.step++;
+      music.nextStepTime += stepDuration;
+    }
+  }
+
+  private playTone(
+    destination: AudioNode,
+    type: OscillatorType,
+    frequency: number,
+    time: number,
+    duration: number,
+    attack: number = 0.005
+  ): void {
+    const ctx = this.ctx!;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+
+    osc.type = type;
+    osc.frequency.setValueAtTime(frequency, time);
+    gain.gain.setValueAtTime(0.001, time);
+    gain.gain.linearRampToValueAtTime(1, time + attack);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + duration);
+
+    osc.connect(gain);
+    gain.connect(destination);
+    osc.start(time);
+    osc.stop(time + duration);
+  }
+
+  private playPercussion(
+    hit: PercussionHit,
+    destination: AudioNode,
+    time: number
+  ): void {
+    const ctx = this.ctx!;
+
+    if (hit === "kick") {
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.type = "sine";
+      osc.frequency.setValueAtTime(150, time);
+      osc.frequency.exponentialRampToValueAtTime(40, time + 0.15);
+      gain.gain.setValueAtTime(1, time);
+      gain.gain.exponentialRampToValueAtTime(0.001, time + 0.2);
+      osc.connect(gain);
+      gain.connect(destination);
+      osc.start(time);
+      osc.stop(time + 0.2);
+      return;
+    }
+
+    // Snare and hi-hat are filtered noise bursts
+    const noise = ctx.createBufferSource();
+    noise.buffer = this.getNoiseBuffer();
+    const filter = ctx.createBiquadFilter();
+    const gain = ctx.createGain();
+    const duration = hit === "snare" ? 0.15 : 0.04;
+
+    filter.type = hit === "snare" ? "bandpass" : "highpass";
+    filter.frequency.value = hit === "snare" ? 1800 : 7000;
+    gain.gain.setValueAtTime(hit === "snare" ? 0.6 : 0.3, time);
+    gain.gain.exponentialRampToValueAtTime(0.001, time + duration);
+
+    noise.connect(filter);
+    filter.connect(gain);
+    gain.connect(destination);
+    noise.start(time);
+    noise.stop(time + duration);
+  }
+
+  private getNoiseBuffer(): AudioBuffer {
+    if (!this.noiseBuffer) {
+      const ctx = this.ctx!;
+      const buffer = ctx.createBuffer(1, ctx.sampleRate * 0.2, ctx.sampleRate);
+      const data = buffer.getChannelData(0);
+      for (let i = 0; i < data.length; i++) {
+        data[i] = Math.random() * 2 - 1;
+      }
+      this.noiseBuffer = buffer;
+    }
+    return this.noiseBuffer;
+  }
 }
 
 export const audioManager: IAudioService = new AudioManager();
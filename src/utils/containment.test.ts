@@ -0,0 +1,818 @@
+import { describe, it, expect } from "vitest";
+import {
+  isContained,
+  isPointInShape,
+  getOutline,
+  signedDistanceToConvexPolygon,
+  getEllipsePoint,
+  getMaxContainedSize,
+  getSafeMargin,
+  getReflexVertices,
+  polygonEdgesCross,
+  segmentsCross,
+} from "./containment";
+import { getVertices, type Point, type Shape } from "./geometry";
+import { SHAPE_TYPES } from "../shapes/registry";
+import { createSeededRandom } from "./random";
+
+const shape = (overrides: Partial<Shape>): Shape => ({
+  type: "circle",
+  size: 100,
+  rotation: 0,
+  color: "blue",
+  opacity: 1,
+  ...overrides,
+});
+
+/**
+ * Points along a shape's outline, every edge split into short steps.
+ */
+const sampleOutline = (target: Shape): Point[] => {
+  const outline = getOutline(target);
+  if (outline.kind === "circle") {
+    const { center, radius } = outline;
+    return Array.from({ length: 360 }, (_, i) => ({
+      x: center.x + Math.cos((i / 360) * Math.PI * 2) * radius,
+      y: center.y + Math.sin((i / 360) * Math.PI * 2) * radius,
+    }));
+  }
+  if (outline.kind === "ellipse") {
+    return Array.from({ length: 360 }, (_, i) =>
+      getEllipsePoint(outline.center, outline.axes, (i / 360) * Math.PI * 2)
+    );
+  }
+  const { vertices } = outline;
+  return vertices.flatMap((a, i) => {
+    const b = vertices[(i + 1) % vertices.length];
+    return Array.from({ length: 20 }, (_, step) => ({
+      x: a.x + ((b.x - a.x) * step) / 20,
+      y: a.y + ((b.y - a.y) * step) / 20,
+    }));
+  });
+};
+
+/**
+ * Brute-force containment: the child's whole outline lies in the parent and
+ * none of the parent's corners reaches into the child.
+ */
+const isContainedBySampling = (child: Shape, parent: Shape): boolean => {
+  const outlineInside = sampleOutline(child).every((p) =>
+    isPointInShape(p, parent, 1e-6)
+  );
+  const outline = getOutline(parent);
+  if (!outlineInside || outline.kind !== "polygon") return outlineInside;
+  return outline.vertices.every(
+    (corner) => !isPointInShape(corner, child, -1e-6)
+  );
+};
+
+describe("containment", () => {
+  describe("isContained", () => {
+    it("should return true when a small circle is inside a large circle", () => {
+      const parent: Shape = {
+        type: "circle",
+        size: 100,
+        rotation: 0,
+        color: "blue",
+        opacity: 1,
+      };
+      const child: Shape = {
+        type: "circle",
+        size: 50,
+        rotation: 0,
+        color: "red",
+        opacity: 1,
+      };
+      expect(isContained(child, parent)).toBe(true);
+    });
+
+    it("should return false when a child circle is larger than parent circle", () => {
+      const parent: Shape = {
+        type: "circle",
+        size: 50,
+        rotation: 0,
+        color: "blue",
+        opacity: 1,
+      };
+      const child: Shape = {
+        type: "circle",
+        size: 100,
+        rotation: 0,
+        color: "red",
+        opacity: 1,
+      };
+      expect(isContained(child, parent)).toBe(false);
+    });
+
+    it("should return true when a square is inside a circle", () => {
+      const parent: Shape = {
+        type: "circle",
+        size: 100,
+        rotation: 0,
+        color: "blue",
+        opacity: 1,
+      };
+      const child: Shape = {
+        type: "square",
+        size: 50,
+        rotation: 0,
+        color: "red",
+        opacity: 1,
+      };
+      // Square side 50, diagonal is 50 * sqrt(2) approx 70.7
+      // Circle diameter is 100. It should fit.
+      expect(isContained(child, parent)).toBe(true);
+    });
+
+    it("should return false when a square is too large for the circle", () => {
+      const parent: Shape = {
+        type: "circle",
+        size: 100,
+        rotation: 0,
+        color: "blue",
+        opacity: 1,
+      };
+      const child: Shape = {
+        type: "square",
+        size: 100,
+        rotation: 0,
+        color: "red",
+        opacity: 1,
+      };
+      // Corners of square are at (+/-50, +/-50). Distance to origin is sqrt(50^2 + 50^2) = 70.7
+      // Circle radius is 50. 70.7 > 50, so it should fail.
+      expect(isContained(child, parent)).toBe(false);
+    });
+
+    it("should handle rotated shapes", () => {
+      const parent: Shape = {
+        type: "square",
+        size: 100,
+        rotation: 0,
+        color: "blue",
+        opacity: 1,
+      };
+      const child: Shape = {
+        type: "square",
+        size: 100,
+        rotation: Math.PI / 4, // 45 degrees
+        color: "red",
+        opacity: 1,
+      };
+      // A square rotated by 45 degrees of same size will poke out of corners.
+      expect(isContained(child, parent)).toBe(false);
+    });
+
+    it("should return true for identical shapes with same rotation", () => {
+      const shape: Shape = {
+        type: "hexagon",
+        size: 80,
+        rotation: 1,
+        color: "green",
+        opacity: 1,
+      };
+      expect(isContained(shape, shape)).toBe(true);
+    });
+
+    it("should correctly handle triangle containment", () => {
+      const parent: Shape = {
+        type: "triangle",
+        size: 100,
+        rotation: 0,
+        color: "blue",
+        opacity: 1,
+      };
+      const child: Shape = {
+        type: "triangle",
+        size: 50,
+        rotation: 0,
+        color: "red",
+        opacity: 1,
+      };
+      expect(isContained(child, parent)).toBe(true);
+
+      const largeChild: Shape = {
+        type: "triangle",
+        size: 110,
+        rotation: 0,
+        color: "red",
+        opacity: 1,
+      };
+      expect(isContained(largeChild, parent)).toBe(false);
+    });
+
+    it("should correctly handle rectangle containment", () => {
+      const parent: Shape = {
+        type: "rectangle",
+        size: 100,
+        rotation: 0,
+        color: "blue",
+        opacity: 1,
+      };
+      const child: Shape = {
+        type: "rectangle",
+        size: 80,
+        rotation: 0,
+        color: "red",
+        opacity: 1,
+      };
+      expect(isContained(child, parent)).toBe(true);
+
+      const wideChild: Shape = {
+        type: "rectangle",
+        size: 110,
+        rotation: 0,
+        color: "red",
+        opacity: 1,
+      };
+      expect(isContained(wideChild, parent)).toBe(false);
+    });
+
+    it("should correctly handle regular polygon containment (pentagon, octagon)", () => {
+      const parent: Shape = {
+        type: "octagon",
+        size: 100,
+        rotation: 0,
+        color: "blue",
+        opacity: 1,
+      };
+      const child: Shape = {
+        type: "pentagon",
+        size: 50,
+        rotation: 0,
+        color: "red",
+        opacity: 1,
+      };
+      expect(isContained(child, parent)).toBe(true);
+
+      const largePentagon: Shape = {
+        type: "pentagon",
+        size: 100, // Pentagon of size 100 will likely poke out of Octagon of size 100
+        rotation: 0,
+        color: "red",
+        opacity: 1,
+      };
+      expect(isContained(largePentagon, parent)).toBe(false);
+    });
+
+    it("should handle mixed shape containment", () => {
+      // Circle inside Square
+      const square: Shape = {
+        type: "square",
+        size: 100,
+        rotation: 0,
+        color: "blue",
+        opacity: 1,
+      };
+      const circleInside: Shape = {
+        type: "circle",
+        size: 100, // Diameter 100 inside Side 100
+        rotation: 0,
+        color: "red",
+        opacity: 1,
+      };
+      // For circle we sample perimeter, all should be within or on edge of square
+      expect(isContained(circleInside, square)).toBe(true);
+
+      const circleOutside: Shape = {
+        type: "circle",
+        size: 102,
+        rotation: 0,
+        color: "red",
+        opacity: 1,
+      };
+      expect(isContained(circleOutside, square)).toBe(false);
+    });
+
+    it("should correctly handle diamond containment", () => {
+      const parent: Shape = {
+        type: "diamond",
+        size: 100,
+        rotation: 0,
+        color: "blue",
+        opacity: 1,
+      };
+      const child: Shape = {
+        type: "diamond",
+        size: 80,
+        rotation: 0,
+        color: "red",
+        opacity: 1,
+      };
+      expect(isContained(child, parent)).toBe(true);
+
+      const rotatedChild: Shape = {
+        type: "diamond",
+        size: 80,
+        rotation: Math.PI / 4,
+        color: "red",
+        opacity: 1,
+      };
+      expect(isContained(rotatedChild, parent)).toBe(false);
+    });
+
+    it("should correctly handle star containment", () => {
+      const parent: Shape = {
+        type: "star",
+        size: 100,
+        rotation: 0,
+        color: "blue",
+        opacity: 1,
+      };
+      const child: Shape = {
+        type: "star",
+        size: 50,
+        rotation: 0,
+        color: "red",
+        opacity: 1,
+      };
+      expect(isContained(child, parent)).toBe(true);
+
+      const largeStar: Shape = {
+        type: "star",
+        size: 110,
+        rotation: 0,
+        color: "red",
+        opacity: 1,
+      };
+      expect(isContained(largeStar, parent)).toBe(false);
+    });
+  });
+
+  describe("exact circle containment", () => {
+    it("should detect a circle poking through a triangle edge between samples", () => {
+      // Triangle of size 100 has an inscribed radius of 25
+      const triangle = shape({ type: "triangle" });
+      // Rotated so no 12-point perimeter sample faces an edge normal
+      const circle = shape({ size: 52, rotation: Math.PI / 12 });
+      expect(isContained(circle, triangle)).toBe(false);
+      expect(isContained({ ...circle, size: 50 }, triangle)).toBe(true);
+    });
+
+    it("should contain a circle exactly inscribed in a hexagon", () => {
+      const hexagon = shape({ type: "hexagon", rotation: 0.3 });
+      const inRadius = 50 * Math.cos(Math.PI / 6);
+      expect(isContained(shape({ size: inRadius * 2 }), hexagon)).toBe(true);
+      expect(isContained(shape({ size: inRadius * 2 + 2 }), hexagon)).toBe(
+        false
+      );
+    });
+
+    it("should use the farthest vertex for polygons inside circles", () => {
+      const circle = shape({ size: 100 });
+      // Square of side s has circumradius s / sqrt(2)
+      expect(isContained(shape({ type: "square", size: 70 }), circle)).toBe(
+        true
+      );
+      expect(isContained(shape({ type: "square", size: 72 }), circle)).toBe(
+        false
+      );
+    });
+  });
+
+  describe("tolerance", () => {
+    it("should accept overshoot within the given tolerance only", () => {
+      const parent = shape({ size: 100 });
+      const child = shape({ size: 104 }); // overshoots by 2 world units
+      expect(isContained(child, parent)).toBe(false);
+      expect(isContained(child, parent, 2)).toBe(true);
+      expect(isContained(child, parent, 1.9)).toBe(false);
+    });
+
+    it("should be independent of shape size", () => {
+      // A 1-unit overshoot on a large diamond fails just like on a small one
+      const parent = shape({ type: "diamond", size: 1000 });
+      const child = shape({ type: "diamond", size: 1002 });
+      expect(isContained(child, parent)).toBe(false);
+    });
+  });
+
+  describe("isPointInShape", () => {
+    it("should test points against the exact outline", () => {
+      const square = shape({ type: "square" });
+      expect(isPointInShape({ x: 50, y: 50 }, square)).toBe(true);
+      expect(isPointInShape({ x: 51, y: 0 }, square)).toBe(false);
+    });
+
+    it("should handle the concave notches of a star", () => {
+      const star = shape({ type: "star" });
+      // Between two points of the star, just past the inner radius (20)
+      const notch = { x: 0, y: 25 };
+      expect(isPointInShape(notch, star)).toBe(false);
+      expect(isPointInShape({ x: 0, y: -45 }, star)).toBe(true);
+    });
+  });
+
+  describe("getOutline", () => {
+    it("should describe circles analytically and stars as concave", () => {
+      expect(getOutline(shape({ size: 80 }))).toEqual({
+        kind: "circle",
+        center: { x: 0, y: 0 },
+        radius: 40,
+      });
+      const star = getOutline(shape({ type: "star" }));
+      expect(star.kind === "polygon" && star.convex).toBe(false);
+    });
+  });
+
+  describe("signedDistanceToConvexPolygon", () => {
+    it("should be negative inside and positive outside", () => {
+      const { vertices } = getOutline(shape({ type: "square" })) as {
+        vertices: { x: number; y: number }[];
+      };
+      const inside = signedDistanceToConvexPolygon({ x: 0, y: 0 }, vertices);
+      const outside = signedDistanceToConvexPolygon({ x: 60, y: 0 }, vertices);
+      expect(inside).toBeCloseTo(-50);
+      expect(outside).toBeCloseTo(10);
+    });
+  });
+
+  describe("getMaxContainedSize", () => {
+    it("should return closed-form sizes for simple pairs", () => {
+      const circle = shape({ size: 100 });
+      expect(getMaxContainedSize(shape({}), circle)).toBeCloseTo(100);
+      expect(
+        getMaxContainedSize(shape({ type: "square" }), circle)
+      ).toBeCloseTo(100 / Math.SQRT2);
+      // Circle in a triangle is bounded by the inscribed radius (25)
+      expect(
+        getMaxContainedSize(shape({}), shape({ type: "triangle" }))
+      ).toBeCloseTo(50);
+    });
+
+    it("should match isContained at the boundary for every shape pair", () => {
+      SHAPE_TYPES.forEach((parentType) => {
+        SHAPE_TYPES.forEach((childType, i) => {
+          const parent = shape({ type: parentType, rotation: 0.4 });
+          const child = shape({ type: childType, rotation: 0.17 * (i + 1) });
+          const maxSize = getMaxContainedSize(child, parent);
+          expect(isContained({ ...child, size: maxSize }, parent, 1e-6)).toBe(
+            true
+          );
+          expect(isContained({ ...child, size: maxSize + 1 }, parent, 0)).toBe(
+            false
+          );
+        });
+      });
+    });
+  });
+
+  describe("concave containers", () => {
+    it("should detect segments crossing, but not touching", () => {
+      const a = { x: 0, y: 0 };
+      const b = { x: 10, y: 10 };
+      expect(segmentsCross(a, b, { x: 0, y: 10 }, { x: 10, y: 0 })).toBe(true);
+      expect(segmentsCross(a, b, { x: 5, y: 5 }, { x: 10, y: 0 })).toBe(false);
+      expect(segmentsCross(a, b, { x: 1, y: 0 }, { x: 11, y: 10 })).toBe(
+        false
+      );
+    });
+
+    it("should catch an edge cutting across a star's notch", () => {
+      // The pentagon's corners sit inside the star's points, but its edges
+      // pass inside the star's inner corners (radius 20)
+      const star = shape({ type: "star" });
+      const pentagon = shape({ type: "pentagon", size: 90 });
+      getVertices(pentagon).forEach((corner) =>
+        expect(isPointInShape(corner, star, 0)).toBe(true)
+      );
+      expect(polygonEdgesCross(getVertices(pentagon), getVertices(star))).toBe(
+        true
+      );
+      expect(isContained(pentagon, star, 0)).toBe(false);
+      // Its largest fit is set by the inner corners, not its own corners
+      const maxSize = getMaxContainedSize(pentagon, star);
+      expect(maxSize).toBeCloseTo(40 / Math.cos(Math.PI / 5));
+      expect(isContained({ ...pentagon, size: maxSize - 0.1 }, star, 0)).toBe(
+        true
+      );
+    });
+
+    it("should catch a notch between corners the child's edge touches", () => {
+      // The pentagon's corners sit exactly on the star's points, so its
+      // edges touch the star without crossing it
+      const star = shape({ type: "star", rotation: 0.3 });
+      const pentagon = shape({ type: "pentagon", rotation: 0.3 });
+      expect(isContained(pentagon, star, 0)).toBe(false);
+      expect(isContained(pentagon, star)).toBe(false);
+    });
+
+    it("should let a child graze a notch corner", () => {
+      // The cross's arm, its long edges running through the inner corners
+      const cross = shape({ type: "cross" });
+      const arm = shape({ type: "square", aspectRatio: 2.5 });
+      expect(isContained(arm, cross, 0)).toBe(true);
+      expect(isContained({ ...arm, size: 101 }, cross)).toBe(false);
+    });
+
+    it("should find the inner corners of notches", () => {
+      const corners = getReflexVertices(getVertices(shape({ type: "cross" })));
+      expect(corners).toHaveLength(4);
+      corners.forEach((corner) => {
+        expect(Math.abs(corner.x)).toBeCloseTo(20);
+        expect(Math.abs(corner.y)).toBeCloseTo(20);
+      });
+      expect(getReflexVertices(getVertices(shape({ type: "square" })))).toEqual(
+        []
+      );
+    });
+
+    it("should let a notch graze the child within the tolerance", () => {
+      const star = shape({ type: "star" });
+      const maxSize = getMaxContainedSize(shape({ type: "pentagon" }), star);
+      // Scaled 0.5% past the fit, the inner corners reach ~0.1 into it
+      const pentagon = shape({ type: "pentagon", size: maxSize * 1.005 });
+      expect(isContained(pentagon, star, 0)).toBe(false);
+      expect(isContained(pentagon, star, 0.5)).toBe(true);
+    });
+  });
+
+  describe("translated shapes", () => {
+    it("should contain a circle by its centre distance plus radius", () => {
+      const parent = shape({ position: { x: 20, y: -10 } });
+      const child = (x: number) =>
+        shape({ size: 20, position: { x: 20 + x, y: -10 } });
+      expect(isContained(child(39), parent, 0)).toBe(true);
+      expect(isContained(child(41), parent, 0)).toBe(false);
+      expect(getMaxContainedSize(child(30), parent)).toBeCloseTo(40);
+    });
+
+    it("should move containment with both shapes", () => {
+      const parent = shape({ type: "square" });
+      const child = shape({ type: "triangle", size: 30 });
+      const offset = { x: 40, y: 0 };
+      expect(isContained(child, parent, 0)).toBe(true);
+      expect(isContained({ ...child, position: offset }, parent, 0)).toBe(
+        false
+      );
+      expect(
+        isContained(
+          { ...child, position: offset },
+          { ...parent, position: offset },
+          0
+        )
+      ).toBe(true);
+    });
+
+    it("should measure the largest fit from the child's own centre", () => {
+      // 10 from the right edge of a square of side 100
+      const parent = shape({ type: "square" });
+      const child = shape({ type: "square", position: { x: 40, y: 0 } });
+      expect(getMaxContainedSize(child, parent)).toBeCloseTo(20);
+      const circle = shape({ position: { x: 40, y: 0 } });
+      expect(getMaxContainedSize(circle, parent)).toBeCloseTo(20);
+    });
+
+    it("should leave no room for a child centred outside its parent", () => {
+      const outside = { x: 60, y: 0 };
+      SHAPE_TYPES.forEach((type) => {
+        const parent = shape({ type });
+        expect(
+          getMaxContainedSize(shape({ type, position: outside }), parent)
+        ).toBe(0);
+      });
+    });
+
+    it("should place outlines at the shape's position", () => {
+      const position = { x: 5, y: 7 };
+      expect(getOutline(shape({ position }))).toMatchObject({
+        center: position,
+      });
+      const square = getOutline(shape({ type: "square", position }));
+      expect(square.kind === "polygon" && square.vertices[0]).toEqual({
+        x: -45,
+        y: -43,
+      });
+      expect(isPointInShape({ x: 54, y: 7 }, shape({ position }), 0)).toBe(
+        true
+      );
+      expect(isPointInShape({ x: -46, y: 7 }, shape({ position }), 0)).toBe(
+        false
+      );
+    });
+  });
+
+  describe("ellipses and stretched shapes", () => {
+    it("should give ellipses and stretched circles an ellipse outline", () => {
+      const ellipse = getOutline(shape({ type: "ellipse" }));
+      expect(ellipse).toEqual({
+        kind: "ellipse",
+        center: { x: 0, y: 0 },
+        axes: [
+          { x: 50, y: 0 },
+          { x: 0, y: 31.25 },
+        ],
+      });
+      expect(getOutline(shape({ aspectRatio: 1.6 }))).toEqual(ellipse);
+    });
+
+    it("should stretch and skew polygons before rotating them", () => {
+      const stretched = shape({ type: "square", aspectRatio: 2, skew: 0.5 });
+      expect(getVertices(stretched)).toEqual([
+        { x: -62.5, y: -25 },
+        { x: 37.5, y: -25 },
+        { x: 62.5, y: 25 },
+        { x: -37.5, y: 25 },
+      ]);
+      const turned = getVertices({ ...stretched, rotation: Math.PI / 2 });
+      expect(turned[0].x).toBeCloseTo(25);
+      expect(turned[0].y).toBeCloseTo(-62.5);
+    });
+
+    it("should test points against the ellipse", () => {
+      const ellipse = shape({ type: "ellipse" });
+      expect(isPointInShape({ x: 49, y: 0 }, ellipse, 0)).toBe(true);
+      expect(isPointInShape({ x: 0, y: 30 }, ellipse, 0)).toBe(true);
+      expect(isPointInShape({ x: 0, y: 32 }, ellipse, 0)).toBe(false);
+      expect(isPointInShape({ x: 40, y: 20 }, ellipse, 0)).toBe(false);
+    });
+
+    it("should fit an ellipse in a polygon by its extent across it", () => {
+      const square = shape({ type: "square" });
+      const ellipse = shape({ type: "ellipse" });
+      expect(getMaxContainedSize(ellipse, square)).toBeCloseTo(100);
+      // Turned 45°, its extent along x is sqrt(50² + 31.25²) / sqrt(2)
+      const turned = { ...ellipse, rotation: Math.PI / 4 };
+      const maxSize = (100 * 50) / (Math.hypot(50, 31.25) * Math.SQRT1_2);
+      expect(getMaxContainedSize(turned, square)).toBeCloseTo(maxSize);
+      expect(isContained({ ...turned, size: maxSize - 0.1 }, square, 0)).toBe(
+        true
+      );
+      expect(isContained({ ...turned, size: maxSize + 0.1 }, square, 0)).toBe(
+        false
+      );
+    });
+
+    it("should keep an ellipse out of a concave parent's notches", () => {
+      const star = shape({ type: "star" });
+      const ellipse = shape({ type: "ellipse" });
+      // The star's inner corners sit 20 from its centre
+      const maxSize = getMaxContainedSize(ellipse, star);
+      expect(maxSize).toBeGreaterThan(40);
+      expect(isContained({ ...ellipse, size: maxSize - 0.1 }, star, 0)).toBe(
+        true
+      );
+      expect(isContained({ ...ellipse, size: maxSize + 0.1 }, star, 0)).toBe(
+        false
+      );
+    });
+
+    it("should fit polygons and circles in an ellipse", () => {
+      const ellipse = shape({ type: "ellipse" });
+      // Limited by the minor semi-axis, 31.25
+      expect(getMaxContainedSize(shape({}), ellipse)).toBeCloseTo(62.5);
+      expect(isContained(shape({ size: 62 }), ellipse, 0)).toBe(true);
+      expect(isContained(shape({ size: 63 }), ellipse, 0)).toBe(false);
+      // A square's corners reach (h, h): h² / 50² + h² / 31.25² = 1
+      const half = 1 / Math.hypot(1 / 50, 1 / 31.25);
+      const square = shape({ type: "square" });
+      expect(getMaxContainedSize(square, ellipse)).toBeCloseTo(half * 2);
+    });
+
+    it("should fit an ellipse in a circle or another ellipse", () => {
+      const ellipse = shape({ type: "ellipse" });
+      expect(getMaxContainedSize(ellipse, shape({}))).toBeCloseTo(100);
+      expect(isContained(ellipse, shape({ size: 101 }), 0)).toBe(true);
+      expect(isContained(ellipse, shape({ size: 99 }), 0)).toBe(false);
+      // Turned a quarter, its major axis has to fit the parent's minor one
+      const turned = { ...ellipse, rotation: Math.PI / 2 };
+      expect(getMaxContainedSize(turned, ellipse)).toBeCloseTo(62.5);
+      expect(isContained({ ...turned, size: 62 }, ellipse, 0)).toBe(true);
+      expect(isContained({ ...turned, size: 63 }, ellipse, 0)).toBe(false);
+    });
+  });
+
+  describe("fuzzed shape pairs", () => {
+    // Random rotations, positions and sizes on either side of the largest
+    // fit. Half the children sit off their parent's centre, and two thirds
+    // of the shapes are stretched and skewed.
+    const random = createSeededRandom(2024).next;
+    const cases = Array.from({ length: 400 }, (_, i) => {
+      const pick = () => SHAPE_TYPES[Math.floor(random() * SHAPE_TYPES.length)];
+      const distort = () =>
+        i % 3 === 0
+          ? {}
+          : { aspectRatio: 0.6 + random(), skew: random() * 0.6 - 0.3 };
+      const center = { x: random() * 200 - 100, y: random() * 200 - 100 };
+      const parent = shape({
+        type: pick(),
+        size: 50 + random() * 150,
+        rotation: random() * Math.PI * 2,
+        position: center,
+        ...distort(),
+      });
+      // Stay within the room a circle has around the parent's centre
+      const room = getMaxContainedSize(shape({ position: center }), parent);
+      const angle = random() * Math.PI * 2;
+      const offset = i % 2 === 0 ? 0 : (random() * 0.8 * room) / 2;
+      const child = shape({
+        type: pick(),
+        rotation: random() * Math.PI * 2,
+        position: {
+          x: center.x + Math.cos(angle) * offset,
+          y: center.y + Math.sin(angle) * offset,
+        },
+        ...distort(),
+      });
+      // Stay clear of the boundary itself, where sampling can't decide
+      const sign = random() < 0.5 ? -1 : 1;
+      const scale = 1 + sign * (0.01 + random() * 0.2);
+      return { parent, child, scale };
+    });
+
+    it("should agree with the largest fit on either side of it", () => {
+      cases.forEach(({ parent, child, scale }) => {
+        const maxSize = getMaxContainedSize(child, parent);
+        const sized = { ...child, size: maxSize * scale };
+        expect(isContained(sized, parent, 0), `${child.type} in ${parent.type}`)
+          .toBe(scale < 1);
+      });
+    });
+
+    it("should agree with brute-force sampling of the outlines", () => {
+      cases.forEach(({ parent, child, scale }) => {
+        const maxSize = getMaxContainedSize(child, parent);
+        const sized = { ...child, size: maxSize * scale };
+        expect(
+          isContained(sized, parent, 0),
+          `${child.type} in ${parent.type}`
+        ).toBe(isContainedBySampling(sized, parent));
+      });
+    });
+  });
+
+  describe("fuzzed notch corners", () => {
+    // Children grown right up to a notch's inner corner (an L), or across
+    // the root of an arm between two of them (a T), on either side of the
+    // largest fit
+    const random = createSeededRandom(7).next;
+    const cases = Array.from({ length: 200 }, (_, i) => {
+      const parent = shape({
+        type: i % 2 === 0 ? "cross" : "star",
+        size: 50 + random() * 150,
+        rotation: random() * Math.PI * 2,
+        position: { x: random() * 200 - 100, y: random() * 200 - 100 },
+      });
+      const center = parent.position!;
+      const corners = getReflexVertices(getVertices(parent)).map((c) => ({
+        x: c.x + center.x,
+        y: c.y + center.y,
+      }));
+      const index = Math.floor(random() * corners.length);
+      const first = corners[index];
+      const second = corners[(index + 1) % corners.length];
+      const target =
+        i % 4 < 2
+          ? first
+          : { x: (first.x + second.x) / 2, y: (first.y + second.y) / 2 };
+      const along = 0.5 + random() * 0.45;
+      const child = shape({
+        type: SHAPE_TYPES[Math.floor(random() * SHAPE_TYPES.length)],
+        rotation: random() * Math.PI * 2,
+        position: {
+          x: center.x + (target.x - center.x) * along,
+          y: center.y + (target.y - center.y) * along,
+        },
+      });
+      const sign = random() < 0.5 ? -1 : 1;
+      const scale = 1 + sign * (0.01 + random() * 0.05);
+      return { parent, child, scale };
+    });
+
+    it("should agree with the largest fit and with sampling", () => {
+      cases.forEach(({ parent, child, scale }) => {
+        const maxSize = getMaxContainedSize(child, parent);
+        const sized = { ...child, size: maxSize * scale };
+        const label = `${child.type} in ${parent.type}`;
+        expect(isContained(sized, parent, 0), label).toBe(scale < 1);
+        expect(isContained(sized, parent, 0), label).toBe(
+          isContainedBySampling(sized, parent)
+        );
+      });
+    });
+  });
+
+  describe("getSafeMargin", () => {
+    it("should report the remaining margin and used fraction", () => {
+      const margin = getSafeMargin(
+        shape({ size: 60 }),
+        shape({ size: 100 }),
+        0
+      );
+      expect(margin.maxSize).toBeCloseTo(100);
+      expect(margin.margin).toBeCloseTo(40);
+      expect(margin.usage).toBeCloseTo(0.6);
+    });
+
+    it("should measure usage against the size the tolerance allows", () => {
+      // Half a unit of tolerance is a whole unit of diameter
+      const parent = shape({ size: 10 });
+      expect(getSafeMargin(shape({ size: 5 }), parent).usage).toBeCloseTo(
+        5 / 11
+      );
+      const overshoot = getSafeMargin(shape({ size: 10.5 }), parent);
+      expect(overshoot.margin).toBeCloseTo(-0.5);
+      expect(overshoot.usage).toBeLessThan(1);
+    });
+  });
+});
@@ -0,0 +1,659 @@
+import type { Point, Shape } from "./geometry";
+import {
+  ORIGIN,
+  getEllipseAxes,
+  getPosition,
+  getVertices,
+  isDistorted,
+  translatePoints,
+} from "./geometry";
+import { getShapeDefinition } from "../shapes/registry";
+import { CONTAINMENT_TOLERANCE } from "../constants/game";
+
+/**
+ * Exact shape-vs-shape containment.
+ * Every shape is reduced to an analytic outline at its position: a circle
+ * (centre and radius), an ellipse (centre and semi-axes) or a polygon
+ * (rotated, translated vertices). Containment is then decided per pair of
+ * outline kinds, with a single tolerance in world units instead of per-shape
+ * fudge buffers.
+ */
+
+export type Outline =
+  | { kind: "circle"; center: Point; radius: number }
+  | { kind: "ellipse"; center: Point; axes: [Point, Point] }
+  | { kind: "polygon"; vertices: Point[]; convex: boolean };
+
+type EllipseOutline = Extract<Outline, { kind: "ellipse" }>;
+type PolygonOutline = Extract<Outline, { kind: "polygon" }>;
+
+/**
+ * Get the exact outline of a shape (stretch, rotation and position applied).
+ * Stretched or skewed circles become ellipses.
+ */
+export const getOutline = (shape: Shape): Outline => {
+  const { outline } = getShapeDefinition(shape.type);
+  const position = getPosition(shape);
+  if (outline.kind === "polygon") {
+    return {
+      kind: "polygon",
+      vertices: translatePoints(getVertices(shape), position),
+      convex: outline.convex,
+    };
+  }
+  if (outline.kind === "circle" && !isDistorted(shape)) {
+    return { kind: "circle", center: position, radius: shape.size / 2 };
+  }
+  return { kind: "ellipse", center: position, axes: getEllipseAxes(shape) };
+};
+
+/**
+ * View a circle as an ellipse with equal, perpendicular semi-axes.
+ */
+const toEllipse = (
+  outline: Exclude<Outline, PolygonOutline>,
+): EllipseOutline => {
+  if (outline.kind === "ellipse") return outline;
+  const { center, radius } = outline;
+  return {
+    kind: "ellipse",
+    center,
+    axes: [
+      { x: radius, y: 0 },
+      { x: 0, y: radius },
+    ],
+  };
+};
+
+/**
+ * Point at parameter t around an ellipse: center + cos(t) * a + sin(t) * b.
+ */
+export const getEllipsePoint = (
+  center: Point,
+  [a, b]: [Point, Point],
+  t: number,
+): Point => {
+  const cos = Math.cos(t);
+  const sin = Math.sin(t);
+  return {
+    x: center.x + cos * a.x + sin * b.x,
+    y: center.y + cos * a.y + sin * b.y,
+  };
+};
+
+/**
+ * Longest semi-axis of an ellipse given by (possibly skewed) semi-axes: the
+ * largest singular value of the matrix [a b].
+ */
+const getMajorRadius = ([a, b]: [Point, Point]): number => {
+  const sum = a.x * a.x + a.y * a.y + b.x * b.x + b.y * b.y;
+  const det = a.x * b.y - b.x * a.y;
+  const spread = Math.sqrt(Math.max(0, sum * sum - 4 * det * det));
+  return Math.sqrt((sum + spread) / 2);
+};
+
+/**
+ * Linear map into an ellipse's own space, where its semi-axes become the unit
+ * axes and the ellipse the unit circle. Offsets from its centre map to
+ * offsets from the origin there.
+ */
+const getUnitMap = ([a, b]: [Point, Point]): ((p: Point) => Point) => {
+  const det = a.x * b.y - b.x * a.y;
+  return (p) => ({
+    x: (b.y * p.x - b.x * p.y) / det,
+    y: (a.x * p.y - a.y * p.x) / det,
+  });
+};
+
+// Evenly spaced angles searched before refining the best one
+const ANGLE_SAMPLES = 64;
+const REFINE_STEPS = 40;
+
+/**
+ * Smallest value of a smooth function of angle over a full turn: the best of
+ * evenly spaced samples, refined by golden-section search around it.
+ */
+const minimizeOverAngle = (f: (t: number) => number): number => {
+  const step = (Math.PI * 2) / ANGLE_SAMPLES;
+  const values = Array.from({ length: ANGLE_SAMPLES }, (_, i) => f(i * step));
+  const best = values.indexOf(Math.min(...values));
+
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let low = (best - 1) * step;
+  let high = (best + 1) * step;
+  for (let i = 0; i < REFINE_STEPS; i++) {
+    const left = high - ratio * (high - low);
+    const right = low + ratio * (high - low);
+    if (f(left) < f(right)) high = right;
+    else low = left;
+  }
+  return Math.min(values[best], f((low + high) / 2));
+};
+
+/**
+ * Distance from a point to the segment [a, b].
+ */
+export const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const projection =
+    lengthSq === 0 ? 0 : ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq;
+  const t = Math.max(0, Math.min(1, projection));
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+/**
+ * Distance from a point to the nearest polygon edge.
+ */
+export const distanceToPolygonEdges = (p: Point, vertices: Point[]): number => {
+  let min = Infinity;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    min = Math.min(min, distanceToSegment(p, vertices[j], vertices[i]));
+  }
+  return min;
+};
+
+/**
+ * Ray-casting point-in-polygon test (works for concave polygons).
+ */
+export const isPointInPolygon = (p: Point, vertices: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i];
+    const b = vertices[j];
+    if (
+      a.y > p.y !== b.y > p.y &&
+      p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Which side of the line through a and b the point p lies on (positive to the
+ * left, zero on the line), scaled by the length of [a, b].
+ */
+const orientation = (a: Point, b: Point, p: Point): number => {
+  return (b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x);
+};
+
+/**
+ * Whether the segments [a, b] and [c, d] cross at a single point inside
+ * both. Segments that only touch, or overlap along a line, don't cross.
+ */
+export const segmentsCross = (
+  a: Point,
+  b: Point,
+  c: Point,
+  d: Point,
+): boolean => {
+  const ab = orientation(a, b, c) * orientation(a, b, d);
+  const cd = orientation(c, d, a) * orientation(c, d, b);
+  return ab < 0 && cd < 0;
+};
+
+/**
+ * Whether any edge of one polygon crosses any edge of the other.
+ */
+export const polygonEdgesCross = (first: Point[], second: Point[]): boolean => {
+  for (let i = 0, j = first.length - 1; i < first.length; j = i++) {
+    for (let k = 0, l = second.length - 1; k < second.length; l = k++) {
+      if (segmentsCross(first[j], first[i], second[l], second[k])) return true;
+    }
+  }
+  return false;
+};
+
+/**
+ * Signed distance from a point to the boundary of a convex polygon,
+ * measured against each edge's supporting line.
+ * Negative inside (the distance to the nearest edge), positive outside.
+ */
+export const signedDistanceToConvexPolygon = (
+  p: Point,
+  vertices: Point[],
+): number => {
+  // Orientation from the signed area, so outward normals point outwards
+  let area = 0;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    area += vertices[j].x * vertices[i].y - vertices[i].x * vertices[j].y;
+  }
+  const orientation = area >= 0 ? 1 : -1;
+
+  let max = -Infinity;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[j];
+    const b = vertices[i];
+    const nx = (b.y - a.y) * orientation;
+    const ny = -(b.x - a.x) * orientation;
+    const length = Math.hypot(nx, ny);
+    if (length === 0) continue;
+    max = Math.max(max, ((p.x - a.x) * nx + (p.y - a.y) * ny) / length);
+  }
+  return max;
+};
+
+/**
+ * Check if a point lies inside a polygon outline, within the tolerance.
+ */
+const isPointInPolygonOutline = (
+  p: Point,
+  outline: PolygonOutline,
+  tolerance: number,
+): boolean => {
+  if (outline.convex) {
+    return signedDistanceToConvexPolygon(p, outline.vertices) <= tolerance;
+  }
+  return (
+    isPointInPolygon(p, outline.vertices) ||
+    distanceToPolygonEdges(p, outline.vertices) <= tolerance
+  );
+};
+
+/**
+ * The inner corners of a polygon's notches: vertices where its outline
+ * turns against its winding.
+ */
+export const getReflexVertices = (vertices: Point[]): Point[] => {
+  let area = 0;
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    area += vertices[j].x * vertices[i].y - vertices[i].x * vertices[j].y;
+  }
+  const count = vertices.length;
+  return vertices.filter((v, i) => {
+    const previous = vertices[(i + count - 1) % count];
+    const next = vertices[(i + 1) % count];
+    return orientation(previous, v, next) * area < 0;
+  });
+};
+
+/**
+ * Check if a polygon lies inside a concave polygon, within the tolerance.
+ * Vertices alone aren't enough: a child edge can cut across a notch of the
+ * parent (a star's inner corner) while every child vertex stays inside.
+ * So each notch's inner corner is measured against the child's edges too,
+ * and only counts once it pokes into the child deeper than the tolerance.
+ * Edge crossings can't decide this: an edge that runs through the parent's
+ * vertices (a pentagon's corners on a star's points) touches without
+ * crossing, however deep the notch between them reaches.
+ */
+const isPolygonInConcavePolygon = (
+  inner: Point[],
+  outer: PolygonOutline,
+  tolerance: number,
+): boolean => {
+  const verticesInside = inner.every((v) =>
+    isPointInPolygonOutline(v, outer, tolerance),
+  );
+  if (!verticesInside) return false;
+  return getReflexVertices(outer.vertices).every(
+    (v) =>
+      !isPointInPolygon(v, inner) ||
+      distanceToPolygonEdges(v, inner) <= tolerance,
+  );
+};
+
+/**
+ * Check if a point lies inside an ellipse, within the tolerance. The
+ * tolerance is scaled by the longest semi-axis, so the outline never grows
+ * by more than it.
+ */
+const isPointInEllipse = (
+  p: Point,
+  { center, axes }: EllipseOutline,
+  tolerance: number,
+): boolean => {
+  const q = getUnitMap(axes)({ x: p.x - center.x, y: p.y - center.y });
+  return Math.hypot(q.x, q.y) <= 1 + tolerance / getMajorRadius(axes);
+};
+
+/**
+ * How far an ellipse can scale about its centre before it touches a polygon
+ * edge: the distance from its centre to the nearest edge, measured in the
+ * ellipse's unit space.
+ */
+const getEllipseClearance = (
+  { center, axes }: EllipseOutline,
+  vertices: Point[],
+): number => {
+  const toUnit = getUnitMap(axes);
+  const mapped = vertices.map((v) =>
+    toUnit({ x: v.x - center.x, y: v.y - center.y }),
+  );
+  return distanceToPolygonEdges(ORIGIN, mapped);
+};
+
+/**
+ * Check if an ellipse (or circle) lies inside a polygon, within the
+ * tolerance: its centre is inside and no edge comes closer than its outline.
+ * Holds for concave polygons too, since the outline can't reach a notch
+ * without touching an edge.
+ */
+const isEllipseInPolygon = (
+  inner: EllipseOutline,
+  outer: PolygonOutline,
+  tolerance: number,
+): boolean => {
+  if (!isPointInPolygonOutline(inner.center, outer, 0)) return false;
+  const slack = tolerance / getMajorRadius(inner.axes);
+  return getEllipseClearance(inner, outer.vertices) >= 1 - slack;
+};
+
+/**
+ * Check if an ellipse lies inside another, within the tolerance. In the
+ * parent's unit space the child is still an ellipse, and its farthest point
+ * from the origin must stay within the unit circle.
+ */
+const isEllipseInEllipse = (
+  inner: EllipseOutline,
+  outer: EllipseOutline,
+  tolerance: number,
+): boolean => {
+  const toUnit = getUnitMap(outer.axes);
+  const center = toUnit({
+    x: inner.center.x - outer.center.x,
+    y: inner.center.y - outer.center.y,
+  });
+  const axes: [Point, Point] = [toUnit(inner.axes[0]), toUnit(inner.axes[1])];
+  const farthest = -minimizeOverAngle((t) => {
+    const p = getEllipsePoint(center, axes, t);
+    return -Math.hypot(p.x, p.y);
+  });
+  return farthest <= 1 + tolerance / getMajorRadius(outer.axes);
+};
+
+/**
+ * Check if a point is inside a shape.
+ * @param tolerance - How far outside the outline still counts, in world units
+ */
+export const isPointInShape = (
+  point: Point,
+  shape: Shape,
+  tolerance: number = CONTAINMENT_TOLERANCE,
+): boolean => {
+  const outline = getOutline(shape);
+  if (outline.kind === "circle") {
+    const { center } = outline;
+    return (
+      Math.hypot(point.x - center.x, point.y - center.y) <=
+      outline.radius + tolerance
+    );
+  }
+  if (outline.kind === "ellipse") {
+    return isPointInEllipse(point, outline, tolerance);
+  }
+  return isPointInPolygonOutline(point, outline, tolerance);
+};
+
+/**
+ * Check if child is fully contained in parent, each at its own position.
+ * - circle in circle: centre distance plus radius against the parent radius
+ * - polygon in circle or ellipse: every vertex inside the parent
+ * - circle or ellipse in polygon: centre inside, and the nearest edge no
+ *   closer than the child's outline
+ * - ellipse in circle or ellipse: farthest point of the child, found
+ *   numerically in the parent's unit space
+ * - polygon in convex polygon: every vertex against the parent's edges
+ * - polygon in concave polygon: every vertex, plus the parent's notch
+ *   corners against the child's edges
+ * @param tolerance - How far the child may overshoot, in world units
+ */
+export const isContained = (
+  child: Shape,
+  parent: Shape,
+  tolerance: number = CONTAINMENT_TOLERANCE,
+): boolean => {
+  const inner = getOutline(child);
+  const outer = getOutline(parent);
+
+  if (outer.kind === "circle" && inner.kind !== "ellipse") {
+    const { center } = outer;
+    if (inner.kind === "circle") {
+      const offset = Math.hypot(
+        inner.center.x - center.x,
+        inner.center.y - center.y,
+      );
+      return offset + inner.radius <= outer.radius + tolerance;
+    }
+    const maxRadius = Math.max(
+      ...inner.vertices.map((v) => Math.hypot(v.x - center.x, v.y - center.y)),
+    );
+    return maxRadius <= outer.radius + tolerance;
+  }
+
+  if (outer.kind !== "polygon") {
+    const ellipse = toEllipse(outer);
+    if (inner.kind === "polygon") {
+      return inner.vertices.every((v) =>
+        isPointInEllipse(v, ellipse, tolerance),
+      );
+    }
+    return isEllipseInEllipse(toEllipse(inner), ellipse, tolerance);
+  }
+
+  if (inner.kind !== "polygon") {
+    return isEllipseInPolygon(toEllipse(inner), outer, tolerance);
+  }
+
+  if (!outer.convex) {
+    return isPolygonInConcavePolygon(inner.vertices, outer, tolerance);
+  }
+  return inner.vertices.every((v) =>
+    isPointInPolygonOutline(v, outer, tolerance),
+  );
+};
+
+/**
+ * Distances from the origin along a unit direction to every polygon edge
+ * the ray meets.
+ */
+const rayHitsOnPolygon = (direction: Point, vertices: Point[]): number[] => {
+  const hits: number[] = [];
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[j];
+    const ex = vertices[i].x - a.x;
+    const ey = vertices[i].y - a.y;
+    const denominator = direction.x * ey - direction.y * ex;
+    if (denominator === 0) continue;
+    // Solve t * direction = a + w * edge
+    const t = (a.x * ey - a.y * ex) / denominator;
+    const w = (a.x * direction.y - a.y * direction.x) / denominator;
+    if (t > 0 && w >= 0 && w <= 1) hits.push(t);
+  }
+  return hits;
+};
+
+/**
+ * For each point, the scale at which it and the polygon's boundary first
+ * meet along the point's ray from the origin. With `scalePoints` the points
+ * grow and leave the polygon at its nearest crossing; otherwise the polygon
+ * grows and reaches the point with its outermost crossing.
+ */
+const getRayLimits = (
+  points: Point[],
+  polygon: Point[],
+  scalePoints: boolean,
+): number[] => {
+  return points.map((p) => {
+    const length = Math.hypot(p.x, p.y);
+    if (length === 0) return Infinity;
+    const direction = { x: p.x / length, y: p.y / length };
+    const hits = rayHitsOnPolygon(direction, polygon);
+    if (hits.length === 0) return Infinity;
+    return scalePoints
+      ? Math.min(...hits) / length
+      : length / Math.max(...hits);
+  });
+};
+
+/**
+ * Largest scale s at which every point s * u stays within `radius` of
+ * `center`: the larger root of |s * u - center| = radius, per point.
+ * The origin must lie inside the circle.
+ */
+const getCircleScaleLimit = (
+  points: Point[],
+  center: Point,
+  radius: number,
+): number => {
+  const slack = radius * radius - (center.x * center.x + center.y * center.y);
+  return Math.min(
+    ...points.map((u) => {
+      const lengthSq = u.x * u.x + u.y * u.y;
+      if (lengthSq === 0) return Infinity;
+      const along = u.x * center.x + u.y * center.y;
+      return (along + Math.sqrt(along * along + lengthSq * slack)) / lengthSq;
+    }),
+  );
+};
+
+/**
+ * Exact maximum size the child can reach at its current rotation before it
+ * breaches the parent (tolerance excluded). The child grows about its own
+ * centre, so everything is measured from there: shapes scale linearly with
+ * size and each case reduces to a closed form. A child whose centre is
+ * outside the parent has no room at all.
+ */
+export const getMaxContainedSize = (child: Shape, parent: Shape): number => {
+  const unit = getOutline({ ...child, size: 1, position: ORIGIN });
+  const childPosition = getPosition(child);
+  const parentPosition = getPosition(parent);
+  const outer = getOutline({
+    ...parent,
+    position: {
+      x: parentPosition.x - childPosition.x,
+      y: parentPosition.y - childPosition.y,
+    },
+  });
+
+  if (outer.kind === "circle" && unit.kind !== "ellipse") {
+    const offset = Math.hypot(outer.center.x, outer.center.y);
+    if (offset >= outer.radius) return 0;
+    if (unit.kind === "circle") return (outer.radius - offset) * 2;
+    return getCircleScaleLimit(unit.vertices, outer.center, outer.radius);
+  }
+
+  if (outer.kind !== "polygon") {
+    // In the parent's unit space it is the unit circle; the map is linear,
+    // so the child still grows about the origin there
+    const { center, axes } = toEllipse(outer);
+    const toUnit = getUnitMap(axes);
+    const unitCenter = toUnit(center);
+    if (Math.hypot(unitCenter.x, unitCenter.y) >= 1) return 0;
+    if (unit.kind === "polygon") {
+      return getCircleScaleLimit(unit.vertices.map(toUnit), unitCenter, 1);
+    }
+    const childAxes = toEllipse(unit).axes;
+    const mapped: [Point, Point] = [toUnit(childAxes[0]), toUnit(childAxes[1])];
+    return minimizeOverAngle((t) =>
+      getCircleScaleLimit([getEllipsePoint(ORIGIN, mapped, t)], unitCenter, 1),
+    );
+  }
+
+  const centerInside = outer.convex
+    ? signedDistanceToConvexPolygon(ORIGIN, outer.vertices) < 0
+    : isPointInPolygon(ORIGIN, outer.vertices);
+  if (!centerInside) return 0;
+
+  if (unit.kind !== "polygon") {
+    return getEllipseClearance(toEllipse(unit), outer.vertices);
+  }
+
+  if (!outer.convex) {
+    // The child breaches when one of its vertices leaves the parent, or one
+    // of the parent's corners (a notch) enters the child
+    return Math.min(
+      ...getRayLimits(unit.vertices, outer.vertices, true),
+      ...getRayLimits(outer.vertices, unit.vertices, false),
+    );
+  }
+
+  // Convex parent: s * (n . u) <= offset for every edge normal n, vertex u
+  const edges = outer.vertices.map((b, i) => {
+    const count = outer.vertices.length;
+    const a = outer.vertices[(i + count - 1) % count];
+    const nx = b.y - a.y;
+    const ny = -(b.x - a.x);
+    const length = Math.hypot(nx, ny) || 1;
+    const normal = { x: nx / length, y: ny / length };
+    const offset = normal.x * a.x + normal.y * a.y;
+    // Flip so the normal points away from the (interior) origin
+    return offset < 0
+      ? { normal: { x: -normal.x, y: -normal.y }, offset: -offset }
+      : { normal, offset };
+  });
+
+  let maxSize = Infinity;
+  edges.forEach(({ normal, offset }) => {
+    unit.vertices.forEach((u) => {
+      const reach = normal.x * u.x + normal.y * u.y;
+      if (reach > 0) maxSize = Math.min(maxSize, offset / reach);
+    });
+  });
+  return maxSize;
+};
+
+// Bisection steps for the size at which the tolerance runs out
+const BREACH_SIZE_ITERATIONS = 40;
+
+/**
+ * Size at which the child actually breaches, tolerance included. The
+ * tolerance is in world units, so it matters most for tiny shapes.
+ */
+const getBreachSize = (
+  child: Shape,
+  parent: Shape,
+  maxSize: number,
+  tolerance: number,
+): number => {
+  const fits = (size: number) =>
+    isContained({ ...child, size }, parent, tolerance);
+  let low = maxSize;
+  let high = maxSize + 1;
+  for (let i = 0; i < BREACH_SIZE_ITERATIONS && fits(high); i++) {
+    low = high;
+    high *= 2;
+  }
+  for (let i = 0; i < BREACH_SIZE_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    if (fits(mid)) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+export interface SafeMargin {
+  /** Largest size the child can reach at its current rotation */
+  maxSize: number;
+  /** Size left before breaching (negative once breached) */
+  margin: number;
+  /**
+   * Fraction of the size the child can really reach, tolerance included
+   * (1 = breaching), so overshooting into the tolerance never exceeds 1
+   */
+  usage: number;
+}
+
+/**
+ * Measure how much room the child has left inside the parent.
+ * @param tolerance - How far the child may overshoot, in world units
+ */
+export const getSafeMargin = (
+  child: Shape,
+  parent: Shape,
+  tolerance: number = CONTAINMENT_TOLERANCE,
+): SafeMargin => {
+  const maxSize = getMaxContainedSize(child, parent);
+  const breachSize = getBreachSize(child, parent, maxSize, tolerance);
+  return {
+    maxSize,
+    margin: maxSize - child.size,
+    usage: breachSize > 0 ? Math.min(child.size / breachSize, 1) : 1,
+  };
+};
@@ -0,0 +1,10 @@
+/**
+ * Seconds as "h:mm:ss" (or "m:ss" under an hour).
+ */
+export const formatDuration = (seconds: number): string => {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+};
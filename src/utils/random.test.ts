@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { createSeededRandom, generateSeed, nextRandom } from "./random";
+
+describe("random", () => {
+  describe("nextRandom", () => {
+    it("should return values in [0, 1)", () => {
+      let state = 99;
+      for (let i = 0; i < 1000; i++) {
+        const result = nextRandom(state);
+        expect(result.value).toBeGreaterThanOrEqual(0);
+        expect(result.value).toBeLessThan(1);
+        state = result.state;
+      }
+    });
+
+    it("should be deterministic for a given state", () => {
+      expect(nextRandom(12345)).toEqual(nextRandom(12345));
+    });
+  });
+
+  describe("createSeededRandom", () => {
+    it("should produce the same sequence for the same seed", () => {
+      const a = createSeededRandom(2024);
+      const b = createSeededRandom(2024);
+      const seqA = Array.from({ length: 10 }, () => a.next());
+      const seqB = Array.from({ length: 10 }, () => b.next());
+      expect(seqA).toEqual(seqB);
+    });
+
+    it("should resume from a saved state", () => {
+      const a = createSeededRandom(5);
+      a.next();
+      a.next();
+      const resumed = createSeededRandom(a.getState());
+      expect(resumed.next()).toBe(a.next());
+    });
+  });
+
+  describe("generateSeed", () => {
+    it("should return an unsigned 32-bit integer", () => {
+      const seed = generateSeed();
+      expect(Number.isInteger(seed)).toBe(true);
+      expect(seed).toBeGreaterThanOrEqual(0);
+      expect(seed).toBeLessThan(0x100000000);
+    });
+  });
+});
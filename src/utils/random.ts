@@ -0,0 +1,55 @@
+/**
+ * Seedable pseudo-random number generation (mulberry32).
+ * The generator state is a plain 32-bit integer so it can live in GameState
+ * and be threaded through the pure reducers in core/gameState.
+ */
+
+/**
+ * A function returning a float in [0, 1), compatible with Math.random.
+ */
+export type RandomSource = () => number;
+
+/**
+ * A stateful random source whose current state can be read back.
+ */
+export interface SeededRandom {
+  next: RandomSource;
+  getState: () => number;
+}
+
+/**
+ * Generate a fresh 32-bit seed. This is the only non-deterministic entry point.
+ */
+export const generateSeed = (): number => {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+};
+
+/**
+ * Advance the generator by one step.
+ * @param state - Current 32-bit generator state
+ * @returns The random value in [0, 1) and the next generator state
+ */
+export const nextRandom = (state: number): { value: number; state: number } => {
+  const nextState = (state + 0x6d2b79f5) >>> 0;
+  let t = nextState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  const value = ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  return { value, state: nextState };
+};
+
+/**
+ * Wrap a generator state in a RandomSource for code that draws several values.
+ * Read the advanced state back with getState() once done.
+ */
+export const createSeededRandom = (state: number): SeededRandom => {
+  let current = state >>> 0;
+  return {
+    next: () => {
+      const result = nextRandom(current);
+      current = result.state;
+      return result.value;
+    },
+    getState: () => current,
+  };
+};
@@ -1,36 +1,304 @@
-export interface HighScore {
-  score: number;
-  date: string;
-}
+import type { DailyResult } from "../core/daily";
+import {
+  DEFAULT_INPUT_BINDINGS,
+  type InputBindings,
+} from "../input/bindings";
+import {
+  createAchievementProgress,
+  type AchievementProgress,
+} from "../core/achievements";
+import {
+  createLeaderboards,
+  migrateLeaderboards,
+  type Leaderboards,
+} from "../core/leaderboard";
+import type { ScoreSubmission } from "../leaderboard/types";
+import { addGhost, type GhostRun, type GhostRuns } from "../core/ghost";
+import { REPLAY_VERSION } from "../core/replay";
 
-const STORAGE_KEY = "shape-stack-high-scores";
+const LEADERBOARDS_KEY = "shape-stack-leaderboards";
+// Pre-versioning high score list, migrated into the leaderboards
+const LEGACY_HIGH_SCORES_KEY = "shape-stack-high-scores";
 
-export const getHighScores = (): HighScore[] => {
+/**
+ * Get the local leaderboards, migrating older data on first load.
+ */
+export const getLeaderboards = (): Leaderboards => {
   try {
-    const scores = localStorage.getItem(STORAGE_KEY);
-    if (!scores) return [];
-    return JSON.parse(scores).sort(
-      (a: HighScore, b: HighScore) => b.score - a.score
+    const stored = localStorage.getItem(LEADERBOARDS_KEY);
+    const legacy = localStorage.getItem(LEGACY_HIGH_SCORES_KEY);
+    const leaderboards = migrateLeaderboards(
+      stored ? JSON.parse(stored) : null,
+      legacy ? JSON.parse(legacy) : null,
+      new Date().toISOString()
     );
+    if (legacy !== null) {
+      // Migrated once: keep the result, drop the old list
+      saveLeaderboards(leaderboards);
+      localStorage.removeItem(LEGACY_HIGH_SCORES_KEY);
+    }
+    return leaderboards;
   } catch (e) {
-    console.error("Failed to load high scores", e);
+    console.error("Failed to load leaderboards", e);
+    return createLeaderboards();
+  }
+};
+
+export const saveLeaderboards = (leaderboards: Leaderboards) => {
+  try {
+    localStorage.setItem(LEADERBOARDS_KEY, JSON.stringify(leaderboards));
+  } catch (e) {
+    console.error("Failed to save leaderboards", e);
+  }
+};
+
+const PENDING_SUBMISSIONS_KEY = "shape-stack-pending-submissions";
+
+/**
+ * Get online leaderboard submissions still waiting to be sent.
+ */
+export const getPendingSubmissions = (): ScoreSubmission[] => {
+  try {
+    const pending = localStorage.getItem(PENDING_SUBMISSIONS_KEY);
+    return pending ? JSON.parse(pending) : [];
+  } catch (e) {
+    console.error("Failed to load pending submissions", e);
+    return [];
+  }
+};
+
+export const savePendingSubmissions = (submissions: ScoreSubmission[]) => {
+  try {
+    if (submissions.length === 0) {
+      localStorage.removeItem(PENDING_SUBMISSIONS_KEY);
+    } else {
+      localStorage.setItem(
+        PENDING_SUBMISSIONS_KEY,
+        JSON.stringify(submissions)
+      );
+    }
+  } catch (e) {
+    console.error("Failed to save pending submissions", e);
+  }
+};
+
+const PLAYER_ID_KEY = "shape-stack-player-id";
+
+/**
+ * Get this device's anonymous player id for online leaderboards, creating
+ * it on first use.
+ */
+export const getPlayerId = (): string => {
+  try {
+    const saved = localStorage.getItem(PLAYER_ID_KEY);
+    if (saved) return saved;
+    const id = crypto.randomUUID();
+    localStorage.setItem(PLAYER_ID_KEY, id);
+    return id;
+  } catch (e) {
+    console.error("Failed to load player id", e);
+    return crypto.randomUUID();
+  }
+};
+
+const GHOSTS_KEY = "shape-stack-ghosts";
+
+const getGhosts = (): GhostRuns => {
+  const ghosts = localStorage.getItem(GHOSTS_KEY);
+  return ghosts ? JSON.parse(ghosts) : {};
+};
+
+/**
+ * Get the best run stored under a ghost key (see core/ghost).
+ */
+export const getGhost = (key: string): GhostRun | null => {
+  try {
+    const ghost = getGhosts()[key];
+    // A ghost recorded under older rules would no longer replay faithfully
+    return ghost?.replay.version === REPLAY_VERSION ? ghost : null;
+  } catch (e) {
+    console.error("Failed to load ghost", e);
+    return null;
+  }
+};
+
+export const saveGhost = (key: string, run: GhostRun) => {
+  try {
+    const ghosts = addGhost(getGhosts(), key, run);
+    localStorage.setItem(GHOSTS_KEY, JSON.stringify(ghosts));
+  } catch (e) {
+    console.error("Failed to save ghost", e);
+  }
+};
+
+const AUDIO_LATENCY_KEY = "shape-stack-audio-latency";
+
+/**
+ * Get the saved audio output latency in milliseconds (Rhythm Mode).
+ */
+export const getAudioLatency = (): number => {
+  try {
+    const latency = Number(localStorage.getItem(AUDIO_LATENCY_KEY));
+    return Number.isFinite(latency) ? latency : 0;
+  } catch (e) {
+    console.error("Failed to load audio latency", e);
+    return 0;
+  }
+};
+
+export const saveAudioLatency = (latency: number) => {
+  try {
+    localStorage.setItem(AUDIO_LATENCY_KEY, String(latency));
+  } catch (e) {
+    console.error("Failed to save audio latency", e);
+  }
+};
+
+const INPUT_OFFSET_KEY = "shape-stack-input-offset";
+
+/**
+ * Get the calibrated input offset in milliseconds (see core/calibration).
+ */
+export const getInputOffset = (): number => {
+  try {
+    const offset = Number(localStorage.getItem(INPUT_OFFSET_KEY));
+    return Number.isFinite(offset) ? offset : 0;
+  } catch (e) {
+    console.error("Failed to load input offset", e);
+    return 0;
+  }
+};
+
+export const saveInputOffset = (offset: number) => {
+  try {
+    localStorage.setItem(INPUT_OFFSET_KEY, String(offset));
+  } catch (e) {
+    console.error("Failed to save input offset", e);
+  }
+};
+
+const DAILY_RESULTS_KEY = "shape-stack-daily-results";
+
+/**
+ * Get the daily challenge results, oldest first (one per day).
+ */
+export const getDailyResults = (): DailyResult[] => {
+  try {
+    const results = localStorage.getItem(DAILY_RESULTS_KEY);
+    if (!results) return [];
+    return JSON.parse(results).sort((a: DailyResult, b: DailyResult) =>
+      a.date.localeCompare(b.date)
+    );
+  } catch (e) {
+    console.error("Failed to load daily results", e);
     return [];
   }
 };
 
-export const saveHighScore = (score: number) => {
+/**
+ * Claim a day's one scored attempt as its run starts. Until the run's game
+ * over the day holds a forfeited result, so quitting or reloading can't buy
+ * a retry.
+ * @returns Whether the run is the day's scored attempt
+ */
+export const startDailyAttempt = (date: string): boolean => {
+  try {
+    const results = getDailyResults();
+    if (results.some((existing) => existing.date === date)) return false;
+    results.push({ date, score: 0, world: 1, level: 1, forfeited: true });
+    localStorage.setItem(DAILY_RESULTS_KEY, JSON.stringify(results));
+    return true;
+  } catch (e) {
+    console.error("Failed to save daily result", e);
+    return false;
+  }
+};
+
+/**
+ * Record the result of a day's scored attempt (see startDailyAttempt).
+ */
+export const saveDailyResult = (result: DailyResult) => {
+  try {
+    const results = getDailyResults().filter(
+      (existing) => existing.date !== result.date
+    );
+    results.push(result);
+    localStorage.setItem(DAILY_RESULTS_KEY, JSON.stringify(results));
+  } catch (e) {
+    console.error("Failed to save daily result", e);
+  }
+};
+
+const ACHIEVEMENTS_KEY = "shape-stack-achievements";
+
+export const getAchievementProgress = (): AchievementProgress => {
+  try {
+    const progress = localStorage.getItem(ACHIEVEMENTS_KEY);
+    if (!progress) return createAchievementProgress();
+    return { ...createAchievementProgress(), ...JSON.parse(progress) };
+  } catch (e) {
+    console.error("Failed to load achievements", e);
+    return createAchievementProgress();
+  }
+};
+
+export const saveAchievementProgress = (progress: AchievementProgress) => {
+  try {
+    localStorage.setItem(ACHIEVEMENTS_KEY, JSON.stringify(progress));
+  } catch (e) {
+    console.error("Failed to save achievements", e);
+  }
+};
+
+const THEME_KEY = "shape-stack-theme";
+
+/**
+ * Get the id of the selected visual theme (null if never chosen).
+ */
+export const getThemeId = (): string | null => {
+  try {
+    return localStorage.getItem(THEME_KEY);
+  } catch (e) {
+    console.error("Failed to load theme", e);
+    return null;
+  }
+};
+
+export const saveThemeId = (id: string) => {
   try {
-    const scores = getHighScores();
-    const newScore: HighScore = {
-      score,
-      date: new Date().toLocaleDateString(),
+    localStorage.setItem(THEME_KEY, id);
+  } catch (e) {
+    console.error("Failed to save theme", e);
+  }
+};
+
+const INPUT_BINDINGS_KEY = "shape-stack-input-bindings";
+
+/**
+ * Get the saved key and gamepad bindings (defaults for anything unsaved).
+ */
+export const getInputBindings = (): InputBindings => {
+  try {
+    const bindings = localStorage.getItem(INPUT_BINDINGS_KEY);
+    if (!bindings) return DEFAULT_INPUT_BINDINGS;
+    const saved = JSON.parse(bindings) as Partial<InputBindings>;
+    return {
+      keys: { ...DEFAULT_INPUT_BINDINGS.keys, ...saved.keys },
+      gamepadButtons: {
+        ...DEFAULT_INPUT_BINDINGS.gamepadButtons,
+        ...saved.gamepadButtons,
+      },
     };
-    scores.push(newScore);
-    const topScores = scores
-      .sort((a: HighScore, b: HighScore) => b.score - a.score)
-      .slice(0, 3); // Keep top 3
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(topScores));
   } catch (e) {
-    console.error("Failed to save high score", e);
+    console.error("Failed to load input bindings", e);
+    return DEFAULT_INPUT_BINDINGS;
+  }
+};
+
+export const saveInputBindings = (bindings: InputBindings) => {
+  try {
+    localStorage.setItem(INPUT_BINDINGS_KEY, JSON.stringify(bindings));
+  } catch (e) {
+    console.error("Failed to save input bindings", e);
   }
 };